@@ -0,0 +1,10 @@
+// Vite 가 번들하는 정적 자산 (URL 문자열로 가져온다)
+declare module '*.png' {
+  const src: string;
+  export default src;
+}
+
+declare module '*?url' {
+  const src: string;
+  export default src;
+}
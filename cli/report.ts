@@ -0,0 +1,165 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { parseArgs } from 'util';
+import * as XLSX from 'xlsx';
+import { readImportBuffer } from '../services/fileReaders';
+import { buildExportWorkbook, projectsToGeoJson } from '../services/exporters';
+import { loadRows, adjustRows, buildReport } from '../services/engine';
+import { DEFAULT_UNIT_CONFIG } from '../services/productAnalytics';
+import { aliasesFromRecords } from '../services/companyAliases';
+import { overridesFromRecords } from '../services/coordOverrides';
+import { DEFAULT_QUALITY_CONFIG, QUALITY_RULES, QUALITY_RULE_MAP, QualityRuleId } from '../services/dataQuality';
+import { PeriodSelection, Granularity, GRANULARITY_LABELS, parseYm, periodFileTag } from '../services/timePeriods';
+
+// --- 배치 보고서 CLI ---
+// npm run report -- <파일...> [--year 2025] [--month 3 | --quarter 1 | --half 1 | --from 2024-01 --to 2024-12]
+//   [--granularity month|quarter|half] [--yoy] [--top 10] [--unit Ton] [--out report.json] [--export result.xlsx|result.geojson]
+//   [--aliases company_aliases.csv] [--overrides coord_overrides.csv] [--exclude-flagged [--exclude-rules 규칙,...]]
+const USAGE = `사용법: npm run report -- <파일...> [옵션]
+  --year <YYYY>          연도 (기본: 전체)
+  --month <1-12>         월
+  --quarter <1-4>        분기 (--year 와 함께)
+  --half <1-2>           반기 (--year 와 함께)
+  --from <YYYY-MM>       기간 시작 (--to 와 함께)
+  --to <YYYY-MM>         기간 끝
+  --granularity <단위>   추이 묶음: ${Object.keys(GRANULARITY_LABELS).join(' | ')} (기본: month)
+  --yoy                  전년 동기 대비 증감 포함
+  --top <N>              순위 표 길이 (기본: 10, 0 = 전체)
+  --unit <단위>          스펙량 단위 표기 (기본: ${DEFAULT_UNIT_CONFIG.amountUnit}, 대시보드 단위 설정과 맞춘다)
+  --out <파일>           요약 JSON 저장 (생략하면 표준 출력)
+  --export <파일>        필터 결과 내보내기 (.xlsx 또는 .geojson)
+  --exclude-invalid      연/월 오류 행 제외 (가져오기 미리보기의 "오류 행 제외", 기본: 포함)
+
+대시보드와 숫자를 맞추려면 (생략하면 적용하지 않음):
+  --aliases <파일>       업체명 사전 - 대시보드에서 내보낸 CSV 또는 [{"alias", "canonical"}] JSON
+  --overrides <파일>     좌표 보정 - 대시보드에서 내보낸 CSV 또는 [{"project_name", "latitude", "longitude", "address"}] JSON
+  --exclude-flagged      품질 규칙 제외 대상 행을 집계에서 뺀다 (대시보드의 "KPI 집계에서 빼기")
+  --exclude-rules <목록> 제외 대상 규칙 (쉼표 구분, 기본: ${DEFAULT_QUALITY_CONFIG.excludeRules.join(',')})
+                         규칙: ${QUALITY_RULES.map(r => r.id).join(', ')}
+현장 메모의 진행내용 보정은 브라우저에만 저장되므로 CLI 결과에는 반영되지 않습니다.`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const intOption = (value: string | undefined, name: string, min: number, max: number) => {
+  if (value === undefined) return 0;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) fail(`--${name} 값이 올바르지 않습니다: ${value}`);
+  return n;
+};
+
+const selectionFrom = (values: Record<string, any>): PeriodSelection => {
+  const year = intOption(values.year, 'year', 1900, 9999);
+  if (values.from || values.to) {
+    const from = parseYm(values.from ?? null);
+    const to = parseYm(values.to ?? null);
+    if (from === null || to === null) fail('--from / --to 는 YYYY-MM 형식으로 함께 지정해야 합니다.');
+    return { mode: 'range', year: 0, month: 0, sub: 0, from: Math.min(from!, to!), to: Math.max(from!, to!) };
+  }
+  if (values.quarter) return { mode: 'quarter', year, month: 0, sub: intOption(values.quarter, 'quarter', 1, 4), from: null, to: null };
+  if (values.half) return { mode: 'half', year, month: 0, sub: intOption(values.half, 'half', 1, 2), from: null, to: null };
+  return { mode: 'month', year, month: intOption(values.month, 'month', 1, 12), sub: 0, from: null, to: null };
+};
+
+const readSource = (path: string) => {
+  try {
+    const buf = readFileSync(path);
+    return readImportBuffer(basename(path), buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer);
+  } catch (err) {
+    return fail(`'${path}' 파일을 읽을 수 없습니다. ${err instanceof Error ? err.message : ''}`);
+  }
+};
+
+// 업체명 사전/좌표 보정 파일: 대시보드 내보내기(CSV)와 JSON 레코드 배열을 모두 받는다.
+const readRecords = (path: string | undefined) => (path ? readSource(path).flatMap(s => s.json) : []);
+
+const excludeRulesFrom = (value: string | undefined): QualityRuleId[] => {
+  if (!value) return DEFAULT_QUALITY_CONFIG.excludeRules;
+  const ids = value.split(',').map(v => v.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !(id in QUALITY_RULE_MAP));
+  if (unknown.length > 0) fail(`--exclude-rules 에 알 수 없는 규칙이 있습니다: ${unknown.join(', ')}`);
+  return ids as QualityRuleId[];
+};
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      year: { type: 'string' },
+      month: { type: 'string' },
+      quarter: { type: 'string' },
+      half: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      granularity: { type: 'string', default: 'month' },
+      yoy: { type: 'boolean', default: false },
+      top: { type: 'string', default: '10' },
+      unit: { type: 'string', default: DEFAULT_UNIT_CONFIG.amountUnit },
+      out: { type: 'string' },
+      export: { type: 'string' },
+      'exclude-invalid': { type: 'boolean', default: false },
+      aliases: { type: 'string' },
+      overrides: { type: 'string' },
+      'exclude-flagged': { type: 'boolean', default: false },
+      'exclude-rules': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) fail('입력 파일을 지정하세요.');
+  if (!(values.granularity! in GRANULARITY_LABELS)) fail(`--granularity 값이 올바르지 않습니다: ${values.granularity}`);
+
+  const sources = positionals.flatMap(readSource);
+  const loaded = loadRows(sources, { excludeInvalid: values['exclude-invalid'] });
+  if (loaded.excluded > 0) console.error(`오류 행 ${loaded.excluded.toLocaleString()}건을 제외했습니다.`);
+  else if (loaded.invalid > 0) console.error(`오류 행 ${loaded.invalid.toLocaleString()}건이 포함되어 있습니다. (--exclude-invalid 로 제외)`);
+  if (loaded.issues.length > 0) console.error(`가져오기 경고 ${loaded.issues.length.toLocaleString()}건`);
+
+  const aliases = aliasesFromRecords(readRecords(values.aliases));
+  const overrides = overridesFromRecords(readRecords(values.overrides));
+  if (values.aliases) console.error(`업체명 사전 ${aliases.length.toLocaleString()}건 적용`);
+  if (values.overrides) console.error(`좌표 보정 ${overrides.length.toLocaleString()}건 적용`);
+  const { rows, quality, qualityExcluded } = adjustRows(loaded.rows, {
+    aliases,
+    overrides,
+    quality: values['exclude-flagged'] ? { disabled: [], excludeFlagged: true, excludeRules: excludeRulesFrom(values['exclude-rules']) } : undefined,
+    amountUnit: values.unit!,
+  });
+  if (quality) console.error(`품질 규칙에 걸린 행 ${quality.flaggedIds.size.toLocaleString()}건 중 ${qualityExcluded.toLocaleString()}건을 집계에서 제외했습니다.`);
+
+  const selection = selectionFrom(values);
+  const { report, filtered, projects } = buildReport(rows, {
+    selection,
+    granularity: values.granularity as Granularity,
+    compare: !!values.yoy,
+    top: intOption(values.top, 'top', 0, Number.MAX_SAFE_INTEGER),
+    amountUnit: values.unit!,
+  });
+
+  const json = JSON.stringify(report, null, 2);
+  if (values.out) {
+    writeFileSync(values.out, json);
+    console.error(`요약 저장: ${values.out}`);
+  } else {
+    console.log(json);
+  }
+
+  if (values.export) {
+    const ext = extname(values.export).toLowerCase();
+    if (ext === '.xlsx') {
+      writeFileSync(values.export, XLSX.write(buildExportWorkbook(filtered, projects, values.unit!), { bookType: 'xlsx', type: 'buffer' }));
+    } else if (ext === '.geojson' || ext === '.json') {
+      writeFileSync(values.export, JSON.stringify(projectsToGeoJson(projects, values.unit!), null, 2));
+    } else {
+      fail(`지원하지 않는 내보내기 형식입니다: ${ext || values.export} (.xlsx, .geojson)`);
+    }
+    console.error(`내보내기 저장: ${values.export} (${periodFileTag(selection)}, ${filtered.length.toLocaleString()}행)`);
+  }
+};
+
+main();
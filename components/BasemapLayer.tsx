@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { TileLayer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { BasemapConfig, MbtilesSource, tileMimeType } from '../services/basemap';
+
+// MBTiles 를 타일 이미지로 그리는 GridLayer
+const MbtilesLayer = ({ source, attribution, maxZoom }: { source: MbtilesSource; attribution: string; maxZoom: number }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const mime = tileMimeType(source.info.format);
+    const Layer = L.GridLayer.extend({
+      createTile(coords: any, done: (err: any, tile: HTMLElement) => void) {
+        const img = document.createElement('img');
+        img.alt = '';
+        const data = source.getTile(coords.z, coords.x, coords.y);
+        if (!data) {
+          setTimeout(() => done(null, img), 0);
+          return img;
+        }
+        const url = URL.createObjectURL(new Blob([data], { type: mime }));
+        img.onload = () => { URL.revokeObjectURL(url); done(null, img); };
+        img.onerror = () => { URL.revokeObjectURL(url); done(new Error('tile decode error'), img); };
+        img.src = url;
+        return img;
+      },
+    });
+    const layer = new Layer({
+      attribution,
+      minNativeZoom: source.info.minZoom ?? undefined,
+      maxNativeZoom: source.info.maxZoom ?? undefined,
+      maxZoom,
+    });
+    layer.addTo(map);
+    return () => { layer.remove(); };
+  }, [map, source, attribution, maxZoom]);
+
+  return null;
+};
+
+// 설정에 따른 배경지도. 확대 범위도 지도에 바로 반영한다.
+export const BasemapLayer = ({ config, mbtiles }: { config: BasemapConfig; mbtiles: MbtilesSource | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    map.setMinZoom(config.minZoom);
+    map.setMaxZoom(config.maxZoom);
+  }, [map, config.minZoom, config.maxZoom]);
+
+  if (config.source === 'mbtiles') {
+    return mbtiles ? <MbtilesLayer source={mbtiles} attribution={config.attribution} maxZoom={config.maxZoom} /> : null;
+  }
+  return (
+    <TileLayer
+      key={`${config.urlTemplate}|${config.subdomains}`}
+      url={config.urlTemplate}
+      subdomains={config.subdomains || 'abc'}
+      attribution={config.attribution}
+      minZoom={config.minZoom}
+      maxZoom={config.maxZoom}
+    />
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, Layers, UploadCloud, Trash2, Loader2 } from 'lucide-react';
+import { BasemapConfig, BasemapSource, BASEMAP_SOURCE_LABELS, BASEMAP_PRESETS, DEFAULT_BASEMAP_CONFIG, MbtilesInfo } from '../services/basemap';
+
+const formatSize = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`);
+
+// 배경지도 타일 소스 설정 모달
+export const BasemapSettings = ({ config, mbtiles, onSave, onImportMbtiles, onRemoveMbtiles, onClose }: {
+  config: BasemapConfig;
+  mbtiles: MbtilesInfo | null;
+  onSave: (config: BasemapConfig) => void;
+  // 실패 시 오류 메시지를 돌려준다.
+  onImportMbtiles: (file: File) => Promise<string | null>;
+  onRemoveMbtiles: () => void;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<BasemapConfig>(config);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const update = (patch: Partial<BasemapConfig>) => setDraft({ ...draft, ...patch });
+  const zoomInvalid = draft.minZoom < 0 || draft.maxZoom > 24 || draft.minZoom > draft.maxZoom;
+  const urlInvalid = draft.source === 'url' && !/\{z\}/.test(draft.urlTemplate);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(await onImportMbtiles(file));
+    setIsImporting(false);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><Layers className="w-5 h-5 text-indigo-500" /> 배경지도 설정</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-8 space-y-6">
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">타일 소스</p>
+            <div className="space-y-2">
+              {(Object.keys(BASEMAP_SOURCE_LABELS) as BasemapSource[]).map(id => (
+                <label key={id} className={`flex items-center gap-3 px-4 py-3 rounded-xl border cursor-pointer text-xs font-bold ${draft.source === id ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+                  <input type="radio" checked={draft.source === id} onChange={() => update({ source: id })} />
+                  {BASEMAP_SOURCE_LABELS[id]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {draft.source === 'url' ? (
+            <div className="space-y-3">
+              <div className="flex gap-1.5">
+                {BASEMAP_PRESETS.map(p => (
+                  <button key={p.label} onClick={() => update({ urlTemplate: p.urlTemplate, subdomains: p.subdomains, attribution: p.attribution })} className="px-2.5 py-1 rounded-lg text-[10px] font-black text-slate-600 bg-slate-100 hover:bg-slate-200">{p.label}</button>
+                ))}
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">URL 템플릿 ({'{z}'}, {'{x}'}, {'{y}'}, {'{s}'})</p>
+                <input className={`w-full border rounded-xl px-3 py-2 text-xs font-mono ${urlInvalid ? 'border-red-300' : 'border-slate-200'}`} value={draft.urlTemplate} onChange={(e) => update({ urlTemplate: e.target.value })} />
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">서브도메인 ({'{s}'} 치환, 예: abc)</p>
+                <input className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono" value={draft.subdomains} onChange={(e) => update({ subdomains: e.target.value })} />
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 gap-3">
+              <span className="text-xs font-bold text-slate-600 truncate">
+                {mbtiles ? `${mbtiles.name} · ${formatSize(mbtiles.size)} · ${mbtiles.format}${mbtiles.minZoom !== null ? ` · z${mbtiles.minZoom}~${mbtiles.maxZoom}` : ''}` : '등록된 파일 없음'}
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                {mbtiles && <button onClick={onRemoveMbtiles} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50"><Trash2 className="w-3.5 h-3.5" /></button>}
+                <label className="cursor-pointer bg-slate-900 hover:bg-black text-white px-3 py-1.5 rounded-lg text-[10px] font-black flex items-center gap-1.5">
+                  {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <UploadCloud className="w-3.5 h-3.5" />} MBTiles 불러오기
+                  <input type="file" accept=".mbtiles" className="hidden" disabled={isImporting} onChange={handleFile} />
+                </label>
+              </div>
+            </div>
+          )}
+          {draft.source === 'mbtiles' && importError && <p className="text-[10px] font-bold text-red-500 -mt-3">{importError}</p>}
+
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">저작권 표시 (HTML)</p>
+            <input className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs" value={draft.attribution} onChange={(e) => update({ attribution: e.target.value })} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">최소 확대</p>
+              <input type="number" min={0} max={24} className={`w-full border rounded-xl px-3 py-2 text-xs ${zoomInvalid ? 'border-red-300' : 'border-slate-200'}`} value={draft.minZoom} onChange={(e) => update({ minZoom: Number(e.target.value) })} />
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">최대 확대</p>
+              <input type="number" min={0} max={24} className={`w-full border rounded-xl px-3 py-2 text-xs ${zoomInvalid ? 'border-red-300' : 'border-slate-200'}`} value={draft.maxZoom} onChange={(e) => update({ maxZoom: Number(e.target.value) })} />
+            </div>
+          </div>
+        </div>
+        <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-[2rem] flex gap-3">
+          <button onClick={() => setDraft(DEFAULT_BASEMAP_CONFIG)} className="px-5 rounded-2xl text-xs font-black text-slate-500 hover:bg-slate-100">기본값</button>
+          <button onClick={() => onSave(draft)} disabled={zoomInvalid || urlInvalid} className="flex-1 bg-slate-900 text-white font-black py-4 rounded-2xl hover:bg-black transition-all shadow-xl text-xs uppercase tracking-widest disabled:opacity-40">저장</button>
+        </div>
+      </div>
+    </>
+  );
+};
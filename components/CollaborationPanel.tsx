@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { X, Handshake, Grid3x3, Network } from 'lucide-react';
+import { ExcelRow } from '../types';
+import { PairCell, buildPairMatrix, pairKey } from '../services/collaboration';
+import { companyName } from '../services/companyAliases';
+
+type View = 'matrix' | 'graph';
+type Metric = 'amount' | 'projects';
+
+const TOP_OPTIONS = [10, 15, 25];
+
+// 그래프 배치 (SVG 좌표)
+const GRAPH_WIDTH = 900;
+const ROW_GAP = 28;
+const NODE_X = { designer: 200, constructor: GRAPH_WIDTH - 200 };
+
+const PairGraph = ({ designers, constructors, pairs, maxAmount, amountUnit, selected, onSelect }: {
+  designers: { name: string; amount: number }[];
+  constructors: { name: string; amount: number }[];
+  pairs: PairCell[];
+  maxAmount: number;
+  amountUnit: string;
+  selected: string | null;
+  onSelect: (pair: PairCell) => void;
+}) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const height = Math.max(designers.length, constructors.length) * ROW_GAP + 40;
+  const yOf = (index: number, count: number) => 20 + index * ROW_GAP + ((Math.max(designers.length, constructors.length) - count) * ROW_GAP) / 2 + ROW_GAP / 2;
+  const dY = new Map(designers.map((d, i) => [d.name, yOf(i, designers.length)]));
+  const cY = new Map(constructors.map((c, i) => [c.name, yOf(i, constructors.length)]));
+  const maxNode = Math.max(...designers.map(d => d.amount), ...constructors.map(c => c.amount), 1);
+  const radius = (amount: number) => 4 + 8 * Math.sqrt(amount / maxNode);
+  const isActive = (p: PairCell) => !hovered || hovered === `d:${p.designer}` || hovered === `c:${p.constructor}`;
+
+  return (
+    <svg viewBox={`0 0 ${GRAPH_WIDTH} ${height}`} className="w-full" style={{ minHeight: height }}>
+      {pairs.map(p => {
+        const y1 = dY.get(p.designer)!;
+        const y2 = cY.get(p.constructor)!;
+        const key = pairKey(p.designer, p.constructor);
+        const mid = (NODE_X.designer + NODE_X.constructor) / 2;
+        return (
+          <path
+            key={key}
+            d={`M ${NODE_X.designer} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${NODE_X.constructor} ${y2}`}
+            fill="none"
+            stroke={selected === key ? '#f59e0b' : '#6366f1'}
+            strokeWidth={1 + 9 * (p.amount / (maxAmount || 1))}
+            strokeOpacity={isActive(p) ? (selected === key ? 0.9 : 0.35) : 0.05}
+            className="cursor-pointer"
+            onClick={() => onSelect(p)}
+          >
+            <title>{`${companyName(p.designer)} × ${companyName(p.constructor)}: ${p.amount.toLocaleString()}${amountUnit} · ${p.projects}개 현장`}</title>
+          </path>
+        );
+      })}
+      {designers.map(d => (
+        <g key={`d:${d.name}`} onMouseEnter={() => setHovered(`d:${d.name}`)} onMouseLeave={() => setHovered(null)} className="cursor-default">
+          <circle cx={NODE_X.designer} cy={dY.get(d.name)} r={radius(d.amount)} fill="#ec4899" />
+          <text x={NODE_X.designer - 16} y={dY.get(d.name)! + 4} textAnchor="end" className="text-[11px] font-bold fill-slate-600">{companyName(d.name)}</text>
+        </g>
+      ))}
+      {constructors.map(c => (
+        <g key={`c:${c.name}`} onMouseEnter={() => setHovered(`c:${c.name}`)} onMouseLeave={() => setHovered(null)} className="cursor-default">
+          <circle cx={NODE_X.constructor} cy={cY.get(c.name)} r={radius(c.amount)} fill="#f59e0b" />
+          <text x={NODE_X.constructor + 16} y={cY.get(c.name)! + 4} className="text-[11px] font-bold fill-slate-600">{companyName(c.name)}</text>
+        </g>
+      ))}
+      <text x={NODE_X.designer} y={12} textAnchor="middle" className="text-[10px] font-black fill-slate-400">설계사</text>
+      <text x={NODE_X.constructor} y={12} textAnchor="middle" className="text-[10px] font-black fill-slate-400">시공사</text>
+    </svg>
+  );
+};
+
+// 설계사 × 시공사 매트릭스 / 관계 그래프. 셀(선)을 누르면 해당 조합으로 지도·목록을 필터링한다.
+export const CollaborationPanel = ({ rows, amountUnit, selected, onSelectPair, onClose }: {
+  rows: ExcelRow[];
+  amountUnit: string;
+  selected: { designer: string; constructor: string } | null;
+  onSelectPair: (designer: string, constructor: string) => void;
+  onClose: () => void;
+}) => {
+  const [view, setView] = useState<View>('matrix');
+  const [metric, setMetric] = useState<Metric>('amount');
+  const [topN, setTopN] = useState(15);
+
+  const matrix = useMemo(() => buildPairMatrix(rows, topN), [rows, topN]);
+  const selectedKey = selected ? pairKey(selected.designer, selected.constructor) : null;
+  const visiblePairs = useMemo(() => Array.from(matrix.cells.values()), [matrix]);
+
+  const intensity = (cell: PairCell) =>
+    metric === 'amount' ? cell.amount / (matrix.maxAmount || 1) : cell.projects / (matrix.maxProjects || 1);
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><Handshake className="w-5 h-5 text-indigo-500" /> 설계사 × 시공사 협업</h2>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">{matrix.pairs.length.toLocaleString()}개 조합 · 셀을 누르면 해당 조합의 현장만 표시합니다.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-8 pt-5 flex items-center gap-3 shrink-0">
+          <div className="flex bg-slate-100 border border-slate-200 rounded-xl p-1">
+            <button onClick={() => setView('matrix')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black flex items-center gap-1.5 ${view === 'matrix' ? 'bg-slate-800 text-white' : 'text-slate-500'}`}><Grid3x3 className="w-3 h-3" /> 매트릭스</button>
+            <button onClick={() => setView('graph')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black flex items-center gap-1.5 ${view === 'graph' ? 'bg-slate-800 text-white' : 'text-slate-500'}`}><Network className="w-3 h-3" /> 관계 그래프</button>
+          </div>
+          {view === 'matrix' && (
+            <div className="flex bg-slate-100 border border-slate-200 rounded-xl p-1">
+              <button onClick={() => setMetric('amount')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${metric === 'amount' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}>스펙량</button>
+              <button onClick={() => setMetric('projects')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${metric === 'projects' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}>현장 수</button>
+            </div>
+          )}
+          <select className="border border-slate-200 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-700 bg-white" value={topN} onChange={(e) => setTopN(Number(e.target.value))}>
+            {TOP_OPTIONS.map(n => <option key={n} value={n}>상위 {n}개 업체</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-auto p-8 custom-scrollbar">
+          {matrix.pairs.length === 0 ? (
+            <p className="text-[10px] text-slate-400 text-center py-20">No Data Available</p>
+          ) : view === 'matrix' ? (
+            <table className="border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-[9px] font-black text-slate-400 text-left align-bottom pr-2">설계사 \ 시공사</th>
+                  {matrix.constructors.map(c => (
+                    <th key={c.name} className="text-[9px] font-black text-slate-500 align-bottom h-28 w-16">
+                      <div className="[writing-mode:vertical-rl] rotate-180 mx-auto truncate max-h-28" title={companyName(c.name)}>{companyName(c.name)}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.designers.map(d => (
+                  <tr key={d.name}>
+                    <td className="text-[10px] font-bold text-slate-600 pr-2 whitespace-nowrap max-w-[180px] truncate" title={companyName(d.name)}>{companyName(d.name)}</td>
+                    {matrix.constructors.map(c => {
+                      const key = pairKey(d.name, c.name);
+                      const cell = matrix.cells.get(key);
+                      if (!cell) return <td key={key} className="w-16 h-11 rounded-lg bg-slate-50" />;
+                      const level = intensity(cell);
+                      return (
+                        <td
+                          key={key}
+                          onClick={() => onSelectPair(d.name, c.name)}
+                          title={`${companyName(d.name)} × ${companyName(c.name)}: ${cell.amount.toLocaleString()}${amountUnit} · ${cell.projects}개 현장`}
+                          className={`w-16 h-11 rounded-lg text-center cursor-pointer transition-all hover:ring-2 hover:ring-indigo-300 ${selectedKey === key ? 'ring-2 ring-amber-400' : ''}`}
+                          style={{ backgroundColor: `rgba(99, 102, 241, ${0.08 + level * 0.82})` }}
+                        >
+                          <p className={`text-[10px] font-black leading-tight ${level > 0.5 ? 'text-white' : 'text-slate-700'}`}>{Math.round(cell.amount).toLocaleString()}</p>
+                          <p className={`text-[8px] font-bold leading-tight ${level > 0.5 ? 'text-indigo-100' : 'text-slate-400'}`}>{cell.projects}건</p>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <PairGraph
+              designers={matrix.designers}
+              constructors={matrix.constructors}
+              pairs={visiblePairs}
+              maxAmount={matrix.maxAmount}
+              amountUnit={amountUnit}
+              selected={selectedKey}
+              onSelect={p => onSelectPair(p.designer, p.constructor)}
+            />
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
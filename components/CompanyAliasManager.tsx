@@ -0,0 +1,111 @@
+import React, { useState, useMemo } from 'react';
+import { X, BookMarked, Download, Trash2, ArrowRight, ArrowLeftRight, Plus, RefreshCw } from 'lucide-react';
+import { CompanyAlias, CompanyCount, SUGGESTION_REASON_LABELS, suggestAliases } from '../services/companyAliases';
+
+// 업체명 별칭 사전 편집 + 중복 의심 업체 추천
+export const CompanyAliasManager = ({ aliases, companies, onAdd, onDelete, onExport, onApplyToData, onClose }: {
+  aliases: CompanyAlias[];
+  // 현재 데이터의 설계사/시공사 이름과 행 수
+  companies: CompanyCount[];
+  onAdd: (alias: string, canonical: string) => void;
+  onDelete: (alias: string) => void;
+  onExport: () => void;
+  onApplyToData: () => void;
+  onClose: () => void;
+}) => {
+  const [alias, setAlias] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [term, setTerm] = useState('');
+
+  const suggestions = useMemo(() => suggestAliases(companies), [companies]);
+  const visibleSuggestions = suggestions
+    .filter(s => !dismissed.has(`${s.canonical}\u0000${s.alias}`))
+    .slice(0, 100);
+  const visibleAliases = aliases.filter(a => !term || a.alias.includes(term) || a.canonical.includes(term));
+
+  const submit = () => {
+    if (!alias.trim() || !canonical.trim() || alias.trim() === canonical.trim()) return;
+    onAdd(alias.trim(), canonical.trim());
+    setAlias('');
+  };
+
+  const dismiss = (key: string) => setDismissed(prev => new Set(prev).add(key));
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><BookMarked className="w-5 h-5 text-indigo-500" /> 업체명 사전</h2>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">별칭으로 등록된 설계사/시공사명은 업로드 시 대표명으로 바뀝니다.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-2 gap-8 p-8 min-h-0">
+          <div className="flex flex-col min-h-0">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">중복 의심 업체 ({visibleSuggestions.length})</h3>
+            <div className="flex-1 overflow-auto custom-scrollbar space-y-2 pr-1">
+              {visibleSuggestions.map(s => {
+                const key = `${s.canonical}\u0000${s.alias}`;
+                return (
+                  <div key={key} className="p-3 rounded-xl border border-slate-100 bg-slate-50/50">
+                    <div className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                      <span className="truncate">{s.alias}</span>
+                      <ArrowRight className="w-3 h-3 text-slate-300 shrink-0" />
+                      <span className="truncate text-indigo-600">{s.canonical}</span>
+                      <span className="ml-auto text-[9px] font-black text-slate-400 shrink-0">{SUGGESTION_REASON_LABELS[s.reason]} · {Math.round(s.score * 100)}%</span>
+                    </div>
+                    <div className="flex gap-1.5 mt-2">
+                      <button onClick={() => { onAdd(s.alias, s.canonical); dismiss(key); }} className="px-2.5 py-1 rounded-lg text-[10px] font-black text-white bg-slate-900 hover:bg-black">통합</button>
+                      <button onClick={() => { onAdd(s.canonical, s.alias); dismiss(key); }} title="반대 방향으로 통합" className="px-2.5 py-1 rounded-lg text-[10px] font-black text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 flex items-center gap-1"><ArrowLeftRight className="w-3 h-3" /> 반대로</button>
+                      <button onClick={() => dismiss(key)} className="px-2.5 py-1 rounded-lg text-[10px] font-black text-slate-400 hover:bg-slate-100">다른 업체</button>
+                    </div>
+                  </div>
+                );
+              })}
+              {visibleSuggestions.length === 0 && <p className="text-[10px] text-slate-400 text-center py-10">추천할 중복 의심 업체가 없습니다.</p>}
+            </div>
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">등록된 별칭 ({aliases.length})</h3>
+            <div className="flex gap-2 mb-3">
+              <input className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5 text-[11px]" placeholder="별칭 (예: Samsung C&T)" value={alias} onChange={(e) => setAlias(e.target.value)} list="company-names" />
+              <input className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5 text-[11px]" placeholder="대표명 (예: 삼성물산)" value={canonical} onChange={(e) => setCanonical(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && submit()} list="company-names" />
+              <button onClick={submit} className="px-3 rounded-lg bg-slate-900 text-white hover:bg-black"><Plus className="w-3.5 h-3.5" /></button>
+              <datalist id="company-names">
+                {companies.slice(0, 500).map(c => <option key={c.name} value={c.name} />)}
+              </datalist>
+            </div>
+            <input className="border border-slate-200 rounded-lg px-2 py-1.5 text-[11px] mb-3" placeholder="사전 검색" value={term} onChange={(e) => setTerm(e.target.value)} />
+            <div className="flex-1 overflow-auto custom-scrollbar">
+              <table className="w-full text-left">
+                <tbody>
+                  {visibleAliases.map(a => (
+                    <tr key={a.alias} className="hover:bg-slate-50">
+                      <td className="py-2 px-2 text-xs text-slate-500">{a.alias}</td>
+                      <td className="py-2 px-1"><ArrowRight className="w-3 h-3 text-slate-300" /></td>
+                      <td className="py-2 px-2 text-xs font-bold text-slate-700">{a.canonical}</td>
+                      <td className="py-2 px-2 text-right">
+                        <button onClick={() => onDelete(a.alias)} className="p-1 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleAliases.length === 0 && <p className="text-[10px] text-slate-400 text-center py-10">No Data Available</p>}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex justify-between shrink-0">
+          <button onClick={onExport} disabled={aliases.length === 0} className="px-4 py-2.5 rounded-xl text-[11px] font-black text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 flex items-center gap-1.5 disabled:opacity-40"><Download className="w-3.5 h-3.5" /> CSV 내보내기</button>
+          <button onClick={onApplyToData} disabled={aliases.length === 0} className="px-5 py-2.5 rounded-xl text-[11px] font-black text-white bg-slate-900 hover:bg-black flex items-center gap-1.5 disabled:opacity-40"><RefreshCw className="w-3.5 h-3.5" /> 현재 데이터에 적용</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { X, MapPinOff, ChevronLeft, ChevronRight, Search, Loader2, MousePointerClick, Download, CheckCircle2 } from 'lucide-react';
+import { GroupedProject } from '../types';
+import { GeoPoint, createProvider, geocodeAddresses, loadGeocoderConfig } from '../services/geocoding';
+
+// 좌표 누락 현장 보정 패널 (지도 클릭 / 주소 재검색)
+export const CoordFixer = ({ projects, pickedPoint, onPick, onSave, onExport, onClose }: {
+  projects: GroupedProject[];
+  pickedPoint: GeoPoint | null;
+  onPick: (point: GeoPoint | null, focus?: boolean) => void;
+  onSave: (project: GroupedProject, point: GeoPoint, address?: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}) => {
+  const [index, setIndex] = useState(0);
+  const [address, setAddress] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchFailed, setSearchFailed] = useState(false);
+
+  const current = projects[Math.min(index, projects.length - 1)];
+
+  useEffect(() => {
+    setAddress(current && current.address !== '-' ? current.address : '');
+    setSearchFailed(false);
+    onPick(null);
+  }, [current?.name]);
+
+  const move = (delta: number) => setIndex(i => (i + delta + projects.length) % projects.length);
+
+  const handleRetry = async () => {
+    if (!address.trim()) return;
+    setIsSearching(true);
+    setSearchFailed(false);
+    const provider = await createProvider(await loadGeocoderConfig());
+    const result = (await geocodeAddresses([address.trim()], provider))[address.trim()];
+    setIsSearching(false);
+    if (result) onPick(result, true);
+    else setSearchFailed(true);
+  };
+
+  return (
+    <div className="absolute bottom-5 left-5 z-[1002] w-96 bg-white/95 backdrop-blur-xl border border-amber-200 rounded-[1.5rem] shadow-2xl p-5 animate-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest flex items-center gap-1.5"><MapPinOff className="w-3.5 h-3.5" /> 좌표 보정</p>
+        <div className="flex items-center gap-1">
+          <button onClick={onExport} title="보정 내역 내보내기" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-800 hover:bg-slate-100"><Download className="w-3.5 h-3.5" /></button>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-800 hover:bg-slate-100"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+
+      {current ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => move(-1)} className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50"><ChevronLeft className="w-3.5 h-3.5" /></button>
+            <div className="flex-1 min-w-0 text-center">
+              <p className="text-sm font-black text-slate-800 truncate">{current.name}</p>
+              <p className="text-[9px] font-bold text-slate-400">{Math.min(index, projects.length - 1) + 1} / {projects.length}</p>
+            </div>
+            <button onClick={() => move(1)} className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50"><ChevronRight className="w-3.5 h-3.5" /></button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              className="flex-1 border border-slate-200 rounded-xl px-3 py-2 text-xs"
+              placeholder="주소 수정 후 재검색"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleRetry(); }}
+            />
+            <button onClick={handleRetry} disabled={isSearching} className="px-3 rounded-xl bg-slate-900 text-white text-[10px] font-black flex items-center gap-1.5 disabled:opacity-50">
+              {isSearching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />} 재검색
+            </button>
+          </div>
+          {searchFailed && <p className="text-[10px] font-bold text-red-500">검색 결과가 없습니다. 지도를 클릭해 직접 지정하세요.</p>}
+
+          <div className={`rounded-xl px-3 py-2.5 text-[10px] font-bold flex items-center gap-2 ${pickedPoint ? 'bg-emerald-50 text-emerald-700 border border-emerald-100' : 'bg-slate-50 text-slate-500 border border-slate-100'}`}>
+            <MousePointerClick className="w-3.5 h-3.5 shrink-0" />
+            {pickedPoint ? `${pickedPoint.lat.toFixed(6)}, ${pickedPoint.lon.toFixed(6)} (마커를 끌어 조정 가능)` : '지도를 클릭해 위치를 지정하세요.'}
+          </div>
+
+          <button
+            disabled={!pickedPoint}
+            onClick={() => pickedPoint && onSave(current, pickedPoint, address.trim() && address.trim() !== current.address ? address.trim() : undefined)}
+            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-black py-3 rounded-xl text-[10px] uppercase tracking-widest flex items-center justify-center gap-1.5 disabled:opacity-40"
+          >
+            <CheckCircle2 className="w-3.5 h-3.5" /> 좌표 저장
+          </button>
+        </div>
+      ) : (
+        <p className="text-[11px] font-bold text-emerald-600 text-center py-4">모든 현장의 좌표가 지정되었습니다.</p>
+      )}
+    </div>
+  );
+};
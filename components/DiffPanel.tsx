@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { X, GitCompare, Download, Map as MapIcon, SearchX } from 'lucide-react';
+import { SnapshotMeta } from '../types';
+import { CHANGE_LABELS, ChangeType, DatasetDiff } from '../services/datasetDiff';
+import { formatDateTime } from '../utils/format';
+
+const TYPE_STYLES: Record<ChangeType, string> = {
+  project_added: 'text-emerald-600 bg-emerald-50 border-emerald-100',
+  project_removed: 'text-red-600 bg-red-50 border-red-100',
+  progress: 'text-indigo-600 bg-indigo-50 border-indigo-100',
+  product_added: 'text-emerald-600 bg-emerald-50 border-emerald-100',
+  product_removed: 'text-red-600 bg-red-50 border-red-100',
+  product_changed: 'text-amber-600 bg-amber-50 border-amber-200',
+};
+
+const Delta = ({ value, suffix = '' }: { value: number; suffix?: string }) =>
+  value === 0 ? <span className="text-slate-300">-</span>
+    : <span className={value > 0 ? 'text-emerald-600' : 'text-red-500'}>{value > 0 ? '+' : ''}{value.toLocaleString()}{suffix}</span>;
+
+// 두 스냅샷 간 변경 로그
+export const DiffPanel = ({ snapshots, baseId, activeName, diff, amountUnit, onChangeBase, onExport, onShowOnMap, onSelectProject, onClose }: {
+  snapshots: SnapshotMeta[];
+  baseId: string | null;
+  activeName: string;
+  diff: DatasetDiff | null;
+  amountUnit: string;
+  onChangeBase: (id: string) => void;
+  onExport: () => void;
+  onShowOnMap: () => void;
+  onSelectProject: (name: string) => void;
+  onClose: () => void;
+}) => {
+  const [typeFilter, setTypeFilter] = useState<ChangeType | 'all'>('all');
+  const log = diff ? (typeFilter === 'all' ? diff.log : diff.log.filter(e => e.type === typeFilter)) : [];
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><GitCompare className="w-5 h-5 text-indigo-500" /> 데이터셋 비교</h2>
+            <div className="flex items-center gap-2 mt-2 text-[11px] font-bold text-slate-500">
+              <select className="border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-bold text-slate-700 bg-white" value={baseId || ''} onChange={(e) => onChangeBase(e.target.value)}>
+                <option value="" disabled>기준 스냅샷 선택</option>
+                {snapshots.map(s => <option key={s.id} value={s.id}>{s.name} ({formatDateTime(s.importedAt)})</option>)}
+              </select>
+              <span>→</span>
+              <span className="text-slate-700">{activeName} (현재)</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        {diff ? (
+          <>
+            <div className="px-8 pt-6 grid grid-cols-4 gap-4 shrink-0">
+              {[
+                { label: '신규 현장', val: diff.counts.added, color: 'text-emerald-600' },
+                { label: '삭제 현장', val: diff.counts.removed, color: 'text-red-500' },
+                { label: '변경 현장', val: diff.counts.changed, color: 'text-amber-600' },
+                { label: '변경 없음', val: diff.counts.unchanged, color: 'text-slate-400' },
+              ].map(k => (
+                <div key={k.label} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{k.label}</p>
+                  <p className={`text-2xl font-black ${k.color}`}>{k.val.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+            <div className="px-8 pt-4 flex items-center gap-2 flex-wrap shrink-0">
+              <button onClick={() => setTypeFilter('all')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${typeFilter === 'all' ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-500'}`}>전체 ({diff.log.length})</button>
+              {(Object.keys(CHANGE_LABELS) as ChangeType[]).map(t => {
+                const count = diff.log.filter(e => e.type === t).length;
+                return count > 0 && (
+                  <button key={t} onClick={() => setTypeFilter(t)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${typeFilter === t ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-500'}`}>{CHANGE_LABELS[t]} ({count})</button>
+                );
+              })}
+            </div>
+            <div className="flex-1 overflow-auto custom-scrollbar mx-8 my-4 border border-slate-100 rounded-xl">
+              {log.length > 0 ? (
+                <table className="w-full text-left border-separate border-spacing-0">
+                  <thead className="sticky top-0 bg-white">
+                    <tr>
+                      {['현장명', '유형', '제품', '이전 → 이후', '스펙량 증감', '수량 증감'].map(h => (
+                        <th key={h} className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {log.map((e, i) => (
+                      <tr key={i} className="hover:bg-slate-50 cursor-pointer" onClick={() => onSelectProject(e.project)}>
+                        <td className="py-2.5 px-4 text-[11px] font-black text-slate-700">{e.project}</td>
+                        <td className="py-2.5 px-4"><span className={`text-[9px] font-black px-1.5 py-0.5 rounded border ${TYPE_STYLES[e.type]}`}>{CHANGE_LABELS[e.type]}</span></td>
+                        <td className="py-2.5 px-4 text-[11px] text-slate-500">{e.product || '-'}</td>
+                        <td className="py-2.5 px-4 text-[11px] text-slate-500">
+                          {e.type === 'progress' ? `${e.before} → ${e.after}` : e.type.startsWith('project') ? (e.before || e.after) : `${e.amountBefore.toLocaleString()}${amountUnit} → ${e.amountAfter.toLocaleString()}${amountUnit}`}
+                        </td>
+                        <td className="py-2.5 px-4 text-[11px] font-mono font-bold"><Delta value={e.amountAfter - e.amountBefore} suffix={amountUnit} /></td>
+                        <td className="py-2.5 px-4 text-[11px] font-mono font-bold"><Delta value={e.quantityAfter - e.quantityBefore} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center gap-3 py-16">
+                  <SearchX className="w-10 h-10 text-slate-200" />
+                  <p className="text-sm font-bold text-slate-400">변경 사항이 없습니다.</p>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-sm font-bold text-slate-400">비교할 기준 스냅샷을 선택하세요.</div>
+        )}
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex items-center justify-end gap-3 shrink-0">
+          <button disabled={!diff} onClick={onExport} className="px-5 py-3 rounded-xl text-xs font-black text-slate-600 bg-white border border-slate-200 flex items-center gap-2 disabled:opacity-40"><Download className="w-4 h-4" /> 변경 로그 내보내기</button>
+          <button disabled={!diff} onClick={onShowOnMap} className="bg-slate-900 hover:bg-black text-white px-6 py-3 rounded-xl text-xs font-black flex items-center gap-2 shadow-lg disabled:opacity-40"><MapIcon className="w-4 h-4" /> 지도에서 보기</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, FileText, MapPinned, Globe, Printer, NotebookPen } from 'lucide-react';
+import { ExcelRow, GroupedProject } from '../types';
+import { exportWorkbook, exportRowsCsv, exportProjectsCsv, exportGeoJson, exportKml } from '../services/exporters';
+
+// 현재 필터 결과 내보내기 드롭다운
+export const ExportMenu = ({ rows, projects, baseName, amountUnit, onPrintReport, onWriteBack }: {
+  rows: ExcelRow[];
+  projects: GroupedProject[];
+  baseName: string;
+  amountUnit: string;
+  // 인쇄용 보고서 (브라우저 인쇄로 PDF 저장)
+  onPrintReport?: () => void;
+  // 원본 통합 문서를 골라 현장 메모를 병합해 내려받는다 (필터와 무관)
+  onWriteBack?: (file: File) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const mappedCount = projects.filter(p => p.latitude && p.longitude).length;
+
+  const items = [
+    { label: 'Excel (원본·집계·순위)', icon: FileSpreadsheet, color: 'text-emerald-500', run: () => exportWorkbook(baseName, rows, projects, amountUnit) },
+    { label: 'CSV (원본 행)', icon: FileText, color: 'text-slate-500', run: () => exportRowsCsv(baseName, rows) },
+    { label: 'CSV (프로젝트 집계)', icon: FileText, color: 'text-slate-500', run: () => exportProjectsCsv(baseName, projects, amountUnit) },
+    { label: `GeoJSON (현장 ${mappedCount}곳)`, icon: MapPinned, color: 'text-indigo-500', run: () => exportGeoJson(baseName, projects, amountUnit) },
+    { label: `KML (현장 ${mappedCount}곳)`, icon: Globe, color: 'text-indigo-500', run: () => exportKml(baseName, projects, amountUnit) },
+    ...(onPrintReport ? [{ label: '인쇄용 보고서 (PDF)', icon: Printer, color: 'text-rose-500', run: onPrintReport }] : []),
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        disabled={rows.length === 0}
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 text-slate-600 font-black text-xs bg-white px-4 py-2.5 rounded-xl border border-slate-200 shadow-sm hover:bg-slate-50 transition-all disabled:opacity-40"
+      >
+        <Download className="w-4 h-4" /> 내보내기
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[3000]" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[3001] p-2">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-3 py-2">현재 필터 · {rows.length.toLocaleString()}행</p>
+            {items.map(item => (
+              <button
+                key={item.label}
+                onClick={() => { item.run(); setOpen(false); }}
+                className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 text-[11px] font-black text-slate-700"
+              >
+                <item.icon className={`w-4 h-4 ${item.color}`} /> {item.label}
+              </button>
+            ))}
+            {onWriteBack && (
+              <label className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 text-[11px] font-black text-slate-700 cursor-pointer border-t border-slate-100 mt-1">
+                <NotebookPen className="w-4 h-4 text-amber-500" /> 원본 Excel + 현장 메모 병합
+                <input
+                  type="file"
+                  accept=".xlsx, .xls"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onWriteBack(file);
+                    setOpen(false);
+                  }}
+                />
+              </label>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Search, ChevronDown, X, Link2, CheckCircle2, RotateCcw } from 'lucide-react';
+import { FACET_LABELS, FacetKey, Facets } from '../services/filterState';
+
+const FacetSelect = ({ label, options, selected, onChange }: {
+  label: string;
+  options: { value: string; count: number }[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [term, setTerm] = useState('');
+  const visible = options.filter(o => o.value.toLowerCase().includes(term.toLowerCase())).slice(0, 200);
+  const toggle = (v: string) => onChange(selected.includes(v) ? selected.filter(s => s !== v) : [...selected, v]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`flex items-center gap-1.5 px-3 py-2 rounded-xl border text-[10px] font-black transition-all ${selected.length ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+      >
+        {label}{selected.length > 0 && ` (${selected.length})`} <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[3000]" onClick={() => setOpen(false)} />
+          <div className="absolute left-0 mt-2 w-64 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[3001] p-2">
+            <input autoFocus className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-[11px] mb-2" placeholder={`${label} 검색`} value={term} onChange={(e) => setTerm(e.target.value)} />
+            <div className="max-h-64 overflow-auto custom-scrollbar">
+              {visible.map(o => (
+                <label key={o.value} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 cursor-pointer text-[11px] font-bold text-slate-600">
+                  <input type="checkbox" checked={selected.includes(o.value)} onChange={() => toggle(o.value)} />
+                  <span className="flex-1 truncate">{o.value}</span>
+                  <span className="text-[9px] text-slate-400">{o.count}</span>
+                </label>
+              ))}
+              {visible.length === 0 && <p className="text-[10px] text-slate-400 text-center py-3">No Data Available</p>}
+            </div>
+            {selected.length > 0 && (
+              <button onClick={() => onChange([])} className="w-full mt-2 text-[10px] font-black text-slate-500 hover:bg-slate-50 rounded-lg py-1.5">선택 해제</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// 검색어 / 다중 선택 필터 / 스펙량 범위 / 공유 링크
+export const FilterBar = ({ query, onQueryChange, facets, facetOptions, onFacetsChange, amountMin, amountMax, amountCeiling, amountUnit, onAmountChange, hasActiveFilters, onReset }: {
+  query: string;
+  onQueryChange: (q: string) => void;
+  facets: Facets;
+  facetOptions: Record<FacetKey, { value: string; count: number }[]>;
+  onFacetsChange: (facets: Facets) => void;
+  amountMin: number | null;
+  amountMax: number | null;
+  amountCeiling: number;
+  amountUnit: string;
+  onAmountChange: (min: number | null, max: number | null) => void;
+  hasActiveFilters: boolean;
+  onReset: () => void;
+}) => {
+  const [copied, setCopied] = useState(false);
+  const step = Math.max(Math.round(amountCeiling / 200), 1);
+  const lo = amountMin ?? 0;
+  const hi = amountMax ?? amountCeiling;
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="flex items-center gap-3 shrink-0 flex-wrap">
+      <div className="flex items-center gap-2 bg-white border border-slate-200 rounded-xl px-3 py-2 shadow-sm w-72">
+        <Search className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+        <input
+          className="flex-1 text-[11px] font-bold text-slate-700 focus:outline-none bg-transparent"
+          placeholder="현장명, 주소, 설계사, 시공사, 제품 검색"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+        />
+        {query && <button onClick={() => onQueryChange('')} className="text-slate-300 hover:text-slate-600"><X className="w-3.5 h-3.5" /></button>}
+      </div>
+
+      {(Object.keys(FACET_LABELS) as FacetKey[]).map(k => (
+        <React.Fragment key={k}>
+          <FacetSelect label={FACET_LABELS[k]} options={facetOptions[k]} selected={facets[k]} onChange={(values) => onFacetsChange({ ...facets, [k]: values })} />
+        </React.Fragment>
+      ))}
+
+      <div className="flex items-center gap-2 bg-white border border-slate-200 rounded-xl px-3 py-1.5 shadow-sm">
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">현장 스펙량</span>
+        <input
+          type="range" min={0} max={amountCeiling} step={step} value={lo} className="w-20 accent-indigo-600"
+          onChange={(e) => { const v = Math.min(Number(e.target.value), hi); onAmountChange(v > 0 ? v : null, amountMax); }}
+        />
+        <input
+          type="range" min={0} max={amountCeiling} step={step} value={hi} className="w-20 accent-indigo-600"
+          onChange={(e) => { const v = Math.max(Number(e.target.value), lo); onAmountChange(amountMin, v < amountCeiling ? v : null); }}
+        />
+        <span className="text-[10px] font-bold text-slate-600 whitespace-nowrap w-28">{lo.toLocaleString()} ~ {hi.toLocaleString()}{amountUnit}</span>
+      </div>
+
+      <div className="ml-auto flex items-center gap-2">
+        {hasActiveFilters && (
+          <button onClick={onReset} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black text-slate-500 hover:bg-white"><RotateCcw className="w-3 h-3" /> 필터 초기화</button>
+        )}
+        <button onClick={copyLink} className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-600 hover:bg-slate-50 shadow-sm">
+          {copied ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" /> : <Link2 className="w-3.5 h-3.5" />} {copied ? '복사됨' : '링크 복사'}
+        </button>
+      </div>
+    </div>
+  );
+};
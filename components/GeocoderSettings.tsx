@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { X, MapPinned, Database, Trash2, UploadCloud } from 'lucide-react';
+import {
+  GeocoderConfig, GeocoderProviderId, PROVIDER_LABELS,
+  loadGeocoderConfig, saveGeocoderConfig, loadOfflineTable, saveOfflineTable, parseOfflineTable,
+  countCachedGeo, clearGeoCache
+} from '../services/geocoding';
+
+// 지오코딩 프로바이더/캐시 설정 모달
+export const GeocoderSettings = ({ onClose }: { onClose: () => void }) => {
+  const [config, setConfig] = useState<GeocoderConfig | null>(null);
+  const [offlineCount, setOfflineCount] = useState(0);
+  const [cacheCount, setCacheCount] = useState(0);
+
+  useEffect(() => {
+    (async () => {
+      setConfig(await loadGeocoderConfig());
+      setOfflineCount(Object.keys(await loadOfflineTable()).length);
+      setCacheCount(await countCachedGeo());
+    })();
+  }, []);
+
+  if (!config) return null;
+
+  const policy = config.policies[config.providerId];
+  const updatePolicy = (patch: Partial<typeof policy>) =>
+    setConfig({ ...config, policies: { ...config.policies, [config.providerId]: { ...policy, ...patch } } });
+
+  const handleOfflineCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const table = parseOfflineTable(await file.text());
+    await saveOfflineTable(table);
+    setOfflineCount(Object.keys(table).length);
+  };
+
+  const handleSave = async () => {
+    await saveGeocoderConfig(config);
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><MapPinned className="w-5 h-5 text-indigo-500" /> 지오코딩 설정</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-8 space-y-6">
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">프로바이더</p>
+            <div className="space-y-2">
+              {(Object.keys(PROVIDER_LABELS) as GeocoderProviderId[]).map(id => (
+                <label key={id} className={`flex items-center gap-3 px-4 py-3 rounded-xl border cursor-pointer text-xs font-bold ${config.providerId === id ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+                  <input type="radio" checked={config.providerId === id} onChange={() => setConfig({ ...config, providerId: id })} />
+                  {PROVIDER_LABELS[id]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {config.providerId === 'selfHosted' && (
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">엔드포인트 URL ({'{address}'} 치환)</p>
+              <input className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono" value={config.selfHostedUrl} onChange={(e) => setConfig({ ...config, selfHostedUrl: e.target.value })} />
+            </div>
+          )}
+
+          {config.providerId === 'offline' && (
+            <div className="flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl px-4 py-3">
+              <span className="text-xs font-bold text-slate-600">등록된 좌표 {offlineCount.toLocaleString()}건</span>
+              <label className="cursor-pointer bg-slate-900 hover:bg-black text-white px-3 py-1.5 rounded-lg text-[10px] font-black flex items-center gap-1.5">
+                <UploadCloud className="w-3.5 h-3.5" /> CSV 불러오기
+                <input type="file" accept=".csv" className="hidden" onChange={handleOfflineCsv} />
+              </label>
+            </div>
+          )}
+
+          {config.providerId !== 'offline' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">요청 간격 (ms)</p>
+                <input type="number" min={0} className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs" value={policy.rateLimitMs} onChange={(e) => updatePolicy({ rateLimitMs: Number(e.target.value) })} />
+              </div>
+              <div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">재시도 횟수</p>
+                <input type="number" min={0} className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs" value={policy.maxRetries} onChange={(e) => updatePolicy({ maxRetries: Number(e.target.value) })} />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl px-4 py-3">
+            <span className="text-xs font-bold text-slate-600 flex items-center gap-2"><Database className="w-3.5 h-3.5 text-slate-400" /> 주소 캐시 {cacheCount.toLocaleString()}건</span>
+            <button
+              onClick={async () => { if (confirm('저장된 주소 좌표 캐시를 모두 삭제하시겠습니까?')) { await clearGeoCache(); setCacheCount(0); } }}
+              className="text-[10px] font-black text-red-500 hover:bg-red-50 px-3 py-1.5 rounded-lg flex items-center gap-1.5"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> 캐시 비우기
+            </button>
+          </div>
+        </div>
+        <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-[2rem]">
+          <button onClick={handleSave} className="w-full bg-slate-900 text-white font-black py-4 rounded-2xl hover:bg-black transition-all shadow-xl text-xs uppercase tracking-widest">저장</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,93 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+
+export interface HeatPoint {
+  lat: number;
+  lon: number;
+  weight: number;
+}
+
+export const HEAT_GRADIENT: [number, string][] = [[0.4, '#3b82f6'], [0.6, '#22d3ee'], [0.7, '#84cc16'], [0.8, '#facc15'], [1, '#ef4444']];
+
+const createBrush = (radius: number, blur: number) => {
+  const brush = document.createElement('canvas');
+  const r = radius + blur;
+  brush.width = brush.height = r * 2;
+  const ctx = brush.getContext('2d')!;
+  // 그림자만 캔버스 안에 남도록 원 자체는 화면 밖에 그린다.
+  ctx.shadowOffsetX = ctx.shadowOffsetY = r * 2;
+  ctx.shadowBlur = blur;
+  ctx.shadowColor = 'black';
+  ctx.beginPath();
+  ctx.arc(-r, -r, radius, 0, Math.PI * 2, true);
+  ctx.closePath();
+  ctx.fill();
+  return brush;
+};
+
+const createPalette = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 0, 256);
+  HEAT_GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1, 256);
+  return ctx.getImageData(0, 0, 1, 256).data;
+};
+
+// 스펙량 가중 히트맵 (캔버스 오버레이)
+export const HeatLayer = ({ points, radius = 25, blur = 18 }: { points: HeatPoint[]; radius?: number; blur?: number }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-layer') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+    const brush = createBrush(radius, blur);
+    const palette = createPalette();
+    const maxWeight = Math.max(...points.map(p => p.weight), 1);
+
+    const draw = () => {
+      const size = map.getSize();
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+      canvas.width = size.x;
+      canvas.height = size.y;
+      canvas.style.display = '';
+      const ctx = canvas.getContext('2d')!;
+      const r = radius + blur;
+      points.forEach(p => {
+        const pt = map.latLngToContainerPoint([p.lat, p.lon]);
+        if (pt.x < -r || pt.y < -r || pt.x > size.x + r || pt.y > size.y + r) return;
+        ctx.globalAlpha = Math.min(Math.max(p.weight / maxWeight, 0.08), 1);
+        ctx.drawImage(brush, pt.x - r, pt.y - r);
+      });
+      if (size.x === 0 || size.y === 0) return;
+      const image = ctx.getImageData(0, 0, size.x, size.y);
+      const px = image.data;
+      for (let i = 0; i < px.length; i += 4) {
+        const j = px[i + 3] * 4;
+        if (!j) continue;
+        px[i] = palette[j];
+        px[i + 1] = palette[j + 1];
+        px[i + 2] = palette[j + 2];
+        px[i + 3] = Math.min(px[i + 3] * 1.6, 220);
+      }
+      ctx.putImageData(image, 0, 0);
+    };
+    const hide = () => { canvas.style.display = 'none'; };
+
+    map.on('moveend zoomend resize', draw);
+    map.on('zoomstart', hide);
+    draw();
+    return () => {
+      map.off('moveend zoomend resize', draw);
+      map.off('zoomstart', hide);
+      canvas.remove();
+    };
+  }, [map, points, radius, blur]);
+
+  return null;
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FileSearch, AlertCircle, CheckCircle2, Save, Trash2, Download, ArrowRight, FileSpreadsheet } from 'lucide-react';
+import { ExcelRow } from '../types';
+import {
+  FIELD_DEFS, ISSUE_LABELS, BLOCKING_ISSUES, DEFAULT_DEDUPE_KEY, ColumnMapping, IssueKind, ImportSource, MappingProfile, MappedField,
+  extractHeaders, detectMapping, mergeSources, listMappingProfiles, saveMappingProfile, deleteMappingProfile, isProfileApplicable
+} from '../services/importMapping';
+import { downloadText, toCsv } from '../utils/download';
+
+// 파일별 첫 시트만 기본 선택
+const defaultSelection = (sources: ImportSource[]) =>
+  new Set(sources.map((s, i) => (sources.findIndex(o => o.file === s.file) === i ? i : -1)).filter(i => i >= 0));
+
+// 가져오기 전 시트 선택, 컬럼 매핑 확인 및 행 단위 검증 리포트
+export const ImportPreview = ({ sources, onCancel, onConfirm }: {
+  sources: ImportSource[];
+  onCancel: () => void;
+  onConfirm: (rows: ExcelRow[], name: string) => void;
+}) => {
+  const [selected, setSelected] = useState<Set<number>>(() => defaultSelection(sources));
+  const selectedSources = useMemo(() => sources.filter((_, i) => selected.has(i)), [sources, selected]);
+  const headers = useMemo(() => extractHeaders(selectedSources.flatMap(s => s.json)), [selectedSources]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => detectMapping(headers));
+  const [dedupeKey, setDedupeKey] = useState<MappedField[]>(DEFAULT_DEDUPE_KEY);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [profileName, setProfileName] = useState('');
+  const [excludeInvalid, setExcludeInvalid] = useState(false);
+  const [issueFilter, setIssueFilter] = useState<IssueKind | 'all'>('all');
+
+  useEffect(() => {
+    listMappingProfiles().then(setProfiles);
+  }, []);
+
+  // 시트 선택이 바뀌어 새 헤더가 생기면 비어 있는 필드만 자동 감지로 채운다.
+  useEffect(() => {
+    const detected = detectMapping(headers);
+    setMapping(m => ({ ...detected, ...Object.fromEntries(Object.entries(m).filter(([, v]) => v && headers.includes(v))) }));
+  }, [headers]);
+
+  const { rows, issues, invalidIds } = useMemo(() => mergeSources(selectedSources, mapping, dedupeKey), [selectedSources, mapping, dedupeKey]);
+  const files: string[] = Array.from(new Set(selectedSources.map(s => s.file)));
+  const datasetName = files.length > 1 ? `${files[0]} 외 ${files.length - 1}개` : files[0] || '';
+
+  const toggleSource = (i: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(i)) next.delete(i); else next.add(i);
+    return next;
+  });
+
+  const toggleDedupeField = (field: MappedField) =>
+    setDedupeKey(k => (k.includes(field) ? k.filter(f => f !== field) : [...k, field]));
+
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<IssueKind, number>> = {};
+    issues.forEach(i => { counts[i.kind] = (counts[i.kind] || 0) + 1; });
+    return counts;
+  }, [issues]);
+
+  const visibleIssues = issueFilter === 'all' ? issues : issues.filter(i => i.kind === issueFilter);
+  const importRows = excludeInvalid ? rows.filter(r => !invalidIds.has(r.id)) : rows;
+
+  const setField = (field: MappedField, header: string) => setMapping(m => ({ ...m, [field]: header || undefined }));
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    setProfiles(await saveMappingProfile(profileName.trim(), mapping, dedupeKey));
+  };
+
+  const exportReport = () => {
+    downloadText(`import_report_${Date.now()}.csv`, toCsv([
+      ['source', 'row', 'project_name', 'issue', 'field', 'raw', 'message'],
+      ...issues.map(i => [i.source || '', i.rowNumber, i.projectName || '', ISSUE_LABELS[i.kind], i.field || '', i.raw || '', i.message])
+    ]), 'text/csv');
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onCancel} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><FileSearch className="w-5 h-5 text-indigo-500" /> 가져오기 미리보기</h2>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">파일 {files.length}개 · 시트 {selectedSources.length}개 · 원본 {selectedSources.reduce((n, s) => n + s.json.length, 0).toLocaleString()}행</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* 매핑 */}
+          <div className="w-[380px] border-r border-slate-100 p-6 overflow-auto custom-scrollbar shrink-0">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">시트 선택</p>
+            <div className="space-y-1 mb-8">
+              {sources.map((src, i) => (
+                <label key={i} className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer text-[11px] font-bold ${selected.has(i) ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-50'}`}>
+                  <input type="checkbox" checked={selected.has(i)} onChange={() => toggleSource(i)} />
+                  <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-500 shrink-0" />
+                  <span className="truncate flex-1">{src.file} / {src.sheet}</span>
+                  <span className="text-[9px] text-slate-400 shrink-0">{src.json.length.toLocaleString()}행</span>
+                </label>
+              ))}
+            </div>
+
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">컬럼 매핑</p>
+            <div className="space-y-2">
+              {FIELD_DEFS.map(def => (
+                <div key={def.field} className="flex items-center gap-3">
+                  <span className={`w-20 text-[11px] font-black ${mapping[def.field] ? 'text-slate-700' : 'text-amber-600'}`}>{def.label}</span>
+                  <select
+                    className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-700 bg-white"
+                    value={mapping[def.field] || ''}
+                    onChange={(e) => setField(def.field, e.target.value)}
+                  >
+                    <option value="">(매핑 안 함)</option>
+                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-8 mb-3">중복 제거 키 (시트/파일 간, 나중 항목 우선)</p>
+            <div className="flex flex-wrap gap-1.5">
+              {FIELD_DEFS.map(def => (
+                <button
+                  key={def.field}
+                  onClick={() => toggleDedupeField(def.field)}
+                  className={`px-2 py-1 rounded-lg text-[10px] font-black border ${dedupeKey.includes(def.field) ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-400 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {def.label}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-8 mb-3">매핑 프로필</p>
+            <div className="flex gap-2 mb-3">
+              <input className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5 text-[11px]" placeholder="프로필 이름" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+              <button onClick={handleSaveProfile} className="px-3 rounded-lg bg-slate-900 text-white text-[10px] font-black flex items-center gap-1"><Save className="w-3 h-3" /> 저장</button>
+            </div>
+            <div className="space-y-1">
+              {profiles.map(p => {
+                const applicable = isProfileApplicable(p, headers);
+                return (
+                  <div key={p.name} className="flex items-center gap-2 group">
+                    <button
+                      disabled={!applicable}
+                      onClick={() => { setMapping(p.mapping); if (p.dedupeKey) setDedupeKey(p.dedupeKey); setProfileName(p.name); }}
+                      className="flex-1 text-left text-[11px] font-bold text-slate-600 px-2 py-1.5 rounded-lg hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-transparent"
+                      title={applicable ? '' : '이 파일에 없는 헤더가 포함된 프로필입니다.'}
+                    >
+                      {p.name}
+                    </button>
+                    <button onClick={async () => setProfiles(await deleteMappingProfile(p.name))} className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"><Trash2 className="w-3 h-3" /></button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 검증 결과 */}
+          <div className="flex-1 p-6 flex flex-col min-w-0">
+            <div className="flex items-center gap-2 flex-wrap mb-4">
+              <button onClick={() => setIssueFilter('all')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${issueFilter === 'all' ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-500'}`}>전체 문제 ({issues.length})</button>
+              {(Object.keys(ISSUE_LABELS) as IssueKind[]).filter(k => issueCounts[k]).map(k => (
+                <button key={k} onClick={() => setIssueFilter(k)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${issueFilter === k ? 'bg-amber-600 text-white' : 'bg-amber-50 text-amber-700'}`}>
+                  {ISSUE_LABELS[k]} ({issueCounts[k]})
+                </button>
+              ))}
+              {issues.length > 0 && (
+                <button onClick={exportReport} className="ml-auto px-3 py-1.5 rounded-lg text-[10px] font-black text-slate-500 hover:bg-slate-100 flex items-center gap-1"><Download className="w-3 h-3" /> 리포트 저장</button>
+              )}
+            </div>
+            <div className="flex-1 overflow-auto custom-scrollbar border border-slate-100 rounded-xl">
+              {visibleIssues.length > 0 ? (
+                <table className="w-full text-left border-separate border-spacing-0">
+                  <thead className="sticky top-0 bg-white">
+                    <tr>
+                      <th className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">출처</th>
+                      <th className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">행</th>
+                      <th className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">현장명</th>
+                      <th className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">유형</th>
+                      <th className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">내용</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleIssues.slice(0, 500).map((i, idx) => (
+                      <tr key={idx} className="hover:bg-slate-50">
+                        <td className="py-2.5 px-4 text-[10px] text-slate-400 max-w-[160px] truncate">{i.source || '-'}</td>
+                        <td className="py-2.5 px-4 text-[11px] font-mono text-slate-500">{i.rowNumber}</td>
+                        <td className="py-2.5 px-4 text-[11px] font-bold text-slate-700">{i.projectName || '-'}</td>
+                        <td className="py-2.5 px-4">
+                          <span className={`text-[9px] font-black px-1.5 py-0.5 rounded border ${BLOCKING_ISSUES.includes(i.kind) ? 'text-red-600 bg-red-50 border-red-100' : 'text-amber-600 bg-amber-50 border-amber-200'}`}>{ISSUE_LABELS[i.kind]}</span>
+                        </td>
+                        <td className="py-2.5 px-4 text-[11px] text-slate-500">{i.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center gap-3 py-16">
+                  <CheckCircle2 className="w-10 h-10 text-emerald-300" />
+                  <p className="text-sm font-bold text-slate-400">발견된 문제가 없습니다.</p>
+                </div>
+              )}
+              {visibleIssues.length > 500 && <p className="text-[10px] text-slate-400 text-center py-3">외 {(visibleIssues.length - 500).toLocaleString()}건 (리포트 저장으로 전체 확인)</p>}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex items-center gap-4 shrink-0">
+          {!mapping.project_name && (
+            <span className="text-[11px] font-bold text-red-500 flex items-center gap-1.5"><AlertCircle className="w-4 h-4" /> 현장명 컬럼을 매핑해야 합니다.</span>
+          )}
+          <label className="flex items-center gap-2 text-[11px] font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={excludeInvalid} onChange={(e) => setExcludeInvalid(e.target.checked)} />
+            오류 행 제외 ({invalidIds.size.toLocaleString()}행)
+          </label>
+          <span className="ml-auto text-[11px] font-bold text-slate-500">가져올 행 {importRows.length.toLocaleString()}개</span>
+          <button onClick={onCancel} className="px-5 py-3 rounded-xl text-xs font-black text-slate-500 hover:bg-white">취소</button>
+          <button
+            disabled={!mapping.project_name || importRows.length === 0}
+            onClick={() => onConfirm(importRows, datasetName)}
+            className="bg-slate-900 hover:bg-black text-white px-6 py-3 rounded-xl text-xs font-black flex items-center gap-2 shadow-lg disabled:opacity-40"
+          >
+            가져오기 <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
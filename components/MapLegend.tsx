@@ -0,0 +1,61 @@
+import React from 'react';
+import { LegendItem, CHOROPLETH_RAMP, formatTonnage } from '../services/mapStyling';
+import { HEAT_GRADIENT } from './HeatLayer';
+
+// 마커 스타일 / 히트맵 / 지역 단계 구분도 범례
+export const MapLegend = ({ title, items, sizeRange, showHeat, choropleth }: {
+  title?: string;
+  items?: LegendItem[];
+  sizeRange?: { max: number; sizeOf: (amount: number) => number; unit: string };
+  showHeat?: boolean;
+  choropleth?: { title: string; max: number; suffix: string };
+}) => {
+  if (!items?.length && !sizeRange && !showHeat && !choropleth) return null;
+  return (
+    <div className="absolute bottom-5 right-5 z-[1001] bg-white/95 backdrop-blur border border-slate-200 rounded-2xl p-4 shadow-xl max-w-[220px] space-y-3">
+      {items && items.length > 0 && (
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">{title}</p>
+          <div className="space-y-1">
+            {items.map(item => (
+              <div key={item.label} className="flex items-center gap-2 text-[10px] font-bold text-slate-600">
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: item.color }} />
+                <span className="truncate">{item.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {sizeRange && (
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">총 스펙량</p>
+          <div className="flex items-end gap-3">
+            {[0.1, 0.5, 1].map(f => {
+              const s = sizeRange.sizeOf(sizeRange.max * f);
+              return (
+                <div key={f} className="flex flex-col items-center gap-1">
+                  <span className="rounded-full bg-indigo-500/80 border-2 border-white shadow" style={{ width: s, height: s }} />
+                  <span className="text-[9px] font-bold text-slate-500">{formatTonnage(sizeRange.max * f)}{sizeRange.unit}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {showHeat && (
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">스펙량 밀도</p>
+          <div className="h-2 rounded-full" style={{ background: `linear-gradient(to right, ${HEAT_GRADIENT.map(([s, c]) => `${c} ${s * 100}%`).join(', ')})` }} />
+          <div className="flex justify-between text-[9px] font-bold text-slate-400 mt-1"><span>낮음</span><span>높음</span></div>
+        </div>
+      )}
+      {choropleth && (
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">{choropleth.title}</p>
+          <div className="h-2 rounded-full" style={{ background: `linear-gradient(to right, ${CHOROPLETH_RAMP.join(', ')})` }} />
+          <div className="flex justify-between text-[9px] font-bold text-slate-400 mt-1"><span>0</span><span>{formatTonnage(choropleth.max)}{choropleth.suffix}</span></div>
+        </div>
+      )}
+    </div>
+  );
+};
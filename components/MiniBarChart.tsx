@@ -0,0 +1,73 @@
+import React from 'react';
+import { delta, formatDelta } from '../services/timePeriods';
+
+// --- 트렌드 차트 컴포넌트 ---
+// compare: 전년 동기 값 (같은 순서), 회색 막대로 겹쳐 그리고 증감률을 표시
+// lines: 막대와 별도 축으로 겹쳐 그리는 꺾은선 (예: 누적 실적 / 누적 목표). null 인 점은 건너뛴다.
+export interface ChartLine {
+  label: string;
+  values: (number | null)[];
+  color: string;
+  dashed?: boolean;
+}
+
+export const MiniBarChart = ({ data, color, title, labelSuffix = "", compare, lines }: { data: { label: string, value: number }[], color: string, title: string, labelSuffix?: string, compare?: number[], lines?: ChartLine[] }) => {
+  const maxValue = Math.max(...data.map(d => d.value), ...(compare || []), 1);
+  const lineMax = Math.max(...(lines || []).flatMap(l => l.values.filter((v): v is number => v !== null)), 1);
+  const pointsOf = (values: (number | null)[]) => values
+    .map((v, i) => (v === null ? null : `${((i + 0.5) / data.length) * 100},${100 - (v / lineMax) * 100}`))
+    .filter(Boolean)
+    .join(' ');
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-slate-100 flex flex-col h-full min-h-[170px] shadow-sm overflow-visible">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</h4>
+        <div className="flex items-center gap-2">
+          {compare && <span className="text-[8px] font-black text-slate-300">■ 전년 동기</span>}
+          {lines?.map(l => (
+            <span key={l.label} className="text-[8px] font-black" style={{ color: l.color }}>{l.dashed ? '┅' : '━'} {l.label}</span>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 flex items-end gap-1.5 pb-2 pt-10 relative">
+        {data.map((d, i) => {
+          const barHeight = (d.value / maxValue) * 100;
+          const prev = compare ? compare[i] || 0 : null;
+          const change = prev !== null ? delta(d.value, prev) : null;
+          return (
+            <div key={i} className="flex-1 flex flex-col items-center group relative h-full justify-end" title={change ? `${d.label}: ${d.value.toLocaleString()}${labelSuffix} / 전년 ${prev!.toLocaleString()}${labelSuffix} · ${formatDelta(change, labelSuffix)}` : undefined}>
+              <div 
+                className="absolute text-[9px] font-black text-slate-700 whitespace-nowrap px-1 rounded-md bg-white/90 transition-all duration-300 pointer-events-none z-10 border border-slate-100/50 shadow-sm text-center leading-tight"
+                style={{ bottom: `calc(${Math.max(barHeight, prev !== null ? (prev / maxValue) * 100 : 0)}% + 6px)` }}
+              >
+                {d.value > 0 ? `${d.value.toLocaleString()}${labelSuffix}` : ""}
+                {change && change.pct !== null && (
+                  <span className={`block text-[8px] ${change.abs >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>{change.pct > 0 ? '+' : ''}{change.pct.toFixed(0)}%</span>
+                )}
+              </div>
+              
+              <div className="w-full relative flex items-end" style={{ height: '100%' }}>
+                {prev !== null && (
+                  <div className="absolute inset-x-0 bottom-0 rounded-t-sm bg-slate-200 transition-all duration-500" style={{ height: `${(prev / maxValue) * 100}%` }} />
+                )}
+                <div 
+                  className={`relative rounded-t-sm transition-all duration-500 hover:brightness-90 cursor-default shadow-sm border-x border-t border-white/20 ${prev !== null ? 'w-2/3 mx-auto' : 'w-full'}`}
+                  style={{ height: `${barHeight}%`, backgroundColor: color }}
+                >
+                </div>
+              </div>
+              <span className="text-[8px] font-bold text-slate-400 mt-1.5 truncate w-full text-center leading-tight">{d.label}</span>
+            </div>
+          );
+        })}
+        {lines && lines.length > 0 && data.length > 0 && (
+          <svg className="absolute left-0 top-10 w-full h-[calc(100%-4.125rem)] pointer-events-none z-20 overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+            {lines.map(l => (
+              <polyline key={l.label} points={pointsOf(l.values)} fill="none" stroke={l.color} strokeWidth={2} strokeDasharray={l.dashed ? '4 3' : undefined} vectorEffect="non-scaling-stroke" strokeLinejoin="round" />
+            ))}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { PeriodMode, PeriodSelection, Granularity, PERIOD_MODE_LABELS, GRANULARITY_LABELS, formatYm } from '../services/timePeriods';
+
+const SELECT_CLASS = "bg-transparent text-xs font-black focus:outline-none text-slate-700 cursor-pointer px-3 py-1.5";
+
+export const PeriodPicker = ({ selection, years, months, yearMonths, onChange }: {
+  selection: PeriodSelection;
+  years: number[];
+  months: number[];
+  // 데이터에 존재하는 연-월 (정렬됨), 기간 모드의 선택지
+  yearMonths: number[];
+  onChange: (patch: Partial<PeriodSelection>) => void;
+}) => {
+  const changeMode = (mode: PeriodMode) => {
+    if (mode === 'range') {
+      onChange({ mode, from: selection.from ?? yearMonths[0] ?? null, to: selection.to ?? yearMonths[yearMonths.length - 1] ?? null });
+    } else {
+      onChange({ mode, sub: 0 });
+    }
+  };
+
+  return (
+    <>
+      <select className={SELECT_CLASS} value={selection.mode} onChange={(e) => changeMode(e.target.value as PeriodMode)}>
+        {(Object.keys(PERIOD_MODE_LABELS) as PeriodMode[]).map(m => <option key={m} value={m}>{PERIOD_MODE_LABELS[m]}</option>)}
+      </select>
+      {selection.mode === 'range' ? (
+        <>
+          <select className={`${SELECT_CLASS} border-l border-slate-200`} value={selection.from ?? ''} onChange={(e) => onChange({ from: e.target.value === '' ? null : Number(e.target.value) })}>
+            <option value="">처음부터</option>
+            {yearMonths.map(ym => <option key={ym} value={ym}>{formatYm(ym)}</option>)}
+          </select>
+          <span className="text-[10px] font-black text-slate-400">~</span>
+          <select className={SELECT_CLASS} value={selection.to ?? ''} onChange={(e) => onChange({ to: e.target.value === '' ? null : Number(e.target.value) })}>
+            <option value="">끝까지</option>
+            {yearMonths.map(ym => <option key={ym} value={ym}>{formatYm(ym)}</option>)}
+          </select>
+        </>
+      ) : (
+        <>
+          <select className={`${SELECT_CLASS} border-l border-slate-200`} value={selection.year} onChange={(e) => onChange({ year: Number(e.target.value) })}>
+            <option value={0}>연도 전체</option>
+            {years.map(y => <option key={y} value={y}>{y}년</option>)}
+          </select>
+          {selection.mode === 'month' && (
+            <select className={`${SELECT_CLASS} border-l border-slate-200`} value={selection.month} onChange={(e) => onChange({ month: Number(e.target.value) })}>
+              <option value={0}>월 전체</option>
+              {months.map(m => <option key={m} value={m}>{m}월</option>)}
+            </select>
+          )}
+          {selection.mode === 'quarter' && (
+            <select className={`${SELECT_CLASS} border-l border-slate-200`} value={selection.sub} onChange={(e) => onChange({ sub: Number(e.target.value) })}>
+              <option value={0}>분기 전체</option>
+              {[1, 2, 3, 4].map(q => <option key={q} value={q}>{q}분기</option>)}
+            </select>
+          )}
+          {selection.mode === 'half' && (
+            <select className={`${SELECT_CLASS} border-l border-slate-200`} value={selection.sub} onChange={(e) => onChange({ sub: Number(e.target.value) })}>
+              <option value={0}>반기 전체</option>
+              <option value={1}>상반기</option>
+              <option value={2}>하반기</option>
+            </select>
+          )}
+        </>
+      )}
+    </>
+  );
+};
+
+export const TrendOptions = ({ granularity, compare, canCompare, onGranularityChange, onCompareChange }: {
+  granularity: Granularity;
+  compare: boolean;
+  canCompare: boolean;
+  onGranularityChange: (g: Granularity) => void;
+  onCompareChange: (on: boolean) => void;
+}) => (
+  <div className="flex items-center gap-2 bg-slate-100 p-1 rounded-xl border border-slate-200 shadow-inner">
+    <select className={SELECT_CLASS} value={granularity} onChange={(e) => onGranularityChange(e.target.value as Granularity)} title="추이 차트 묶음 단위">
+      {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>)}
+    </select>
+    <button
+      onClick={() => onCompareChange(!compare)}
+      title={canCompare ? '전년 동기와 비교' : '연도 또는 시작·종료가 지정된 기간에서 비교할 수 있습니다'}
+      className={`px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${compare ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-white'} ${compare && !canCompare ? 'opacity-50' : ''}`}
+    >
+      전년 비교
+    </button>
+  </div>
+);
@@ -0,0 +1,237 @@
+import React, { useState, useMemo } from 'react';
+import { X, Package, AlertTriangle, SearchX } from 'lucide-react';
+import { ExcelRow } from '../types';
+import { Granularity, YmWindow, GRANULARITY_LABELS } from '../services/timePeriods';
+import { PALETTE, OTHER_COLOR } from '../services/mapStyling';
+import { UnitConfig, DEFAULT_UNIT_CONFIG, RATIO_FLAG_LABELS, productTotals, productMix, productSeries, ratioOutliers, unitsFor } from '../services/productAnalytics';
+import { MiniBarChart } from './MiniBarChart';
+
+type Tab = 'overview' | 'mix' | 'trend' | 'outliers' | 'units';
+
+const TAB_LABELS: Record<Tab, string> = {
+  overview: '제품 순위',
+  mix: '업체별 구성',
+  trend: '제품 추이',
+  outliers: '단위당 이상치',
+  units: '단위 설정',
+};
+
+const RankList = ({ title, items, color }: { title: string; items: { label: string; value: number; unit: string }[]; color: string }) => {
+  const max = Math.max(...items.map(i => i.value), 1);
+  return (
+    <div className="bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">{title}</h3>
+      <div className="space-y-3">
+        {items.map((item, i) => (
+          <div key={item.label}>
+            <div className="flex justify-between text-[11px] mb-1 font-bold">
+              <span className="text-slate-700 truncate mr-2">{i + 1}. {item.label}</span>
+              <span className="shrink-0" style={{ color }}>{item.value.toLocaleString()} {item.unit}</span>
+            </div>
+            <div className="h-1.5 bg-slate-50 rounded-full overflow-hidden border border-slate-100">
+              <div className="h-full rounded-full" style={{ width: `${(item.value / max) * 100}%`, backgroundColor: color }} />
+            </div>
+          </div>
+        ))}
+        {items.length === 0 && <p className="text-[10px] text-slate-400 text-center py-6">No Data Available</p>}
+      </div>
+    </div>
+  );
+};
+
+// 제품별 순위 / 업체별 제품 구성 / 제품 추이 / 단위당 스펙량 이상치
+export const ProductAnalytics = ({ rows, trendRows, trendWindow, granularity, unitConfig, onSaveUnits, onSelectProject, onClose }: {
+  rows: ExcelRow[];
+  // 추이는 기간 필터 이전 데이터로 표시 구간 전체를 그린다
+  trendRows: ExcelRow[];
+  trendWindow: YmWindow | null;
+  granularity: Granularity;
+  unitConfig: UnitConfig;
+  onSaveUnits: (config: UnitConfig) => void;
+  onSelectProject: (name: string) => void;
+  onClose: () => void;
+}) => {
+  const [tab, setTab] = useState<Tab>('overview');
+  const [mixBy, setMixBy] = useState<'designer' | 'constructor'>('constructor');
+  const [trendProduct, setTrendProduct] = useState<string | null>(null);
+  const [draft, setDraft] = useState<UnitConfig>(unitConfig);
+
+  const totals = useMemo(() => productTotals(rows), [rows]);
+  const topProducts = totals.slice(0, PALETTE.length).map(t => t.product);
+  const colorOf = (product: string) => PALETTE[topProducts.indexOf(product)] || OTHER_COLOR;
+  const mix = useMemo(() => productMix(rows, mixBy, topProducts), [rows, mixBy, totals]);
+  const outliers = useMemo(() => ratioOutliers(rows, unitConfig.ratioTolerance), [rows, unitConfig.ratioTolerance]);
+
+  const activeProduct = trendProduct && totals.some(t => t.product === trendProduct) ? trendProduct : totals[0]?.product;
+  const series = useMemo(
+    () => (activeProduct && trendWindow ? productSeries(trendRows, activeProduct, trendWindow, granularity) : []),
+    [trendRows, activeProduct, trendWindow, granularity]
+  );
+
+  // 수량 단위가 서로 다른 제품은 합산 순위에서 단위를 함께 보여준다.
+  const byAmount = totals.slice(0, 10).map(t => ({ label: t.product, value: t.amount, unit: unitsFor(t.product, unitConfig).amountUnit }));
+  const byQuantity = [...totals].sort((a, b) => b.quantity - a.quantity).slice(0, 10)
+    .map(t => ({ label: t.product, value: t.quantity, unit: unitsFor(t.product, unitConfig).quantityUnit }));
+
+  const setProductUnit = (product: string, key: 'amountUnit' | 'quantityUnit', value: string) => {
+    setDraft(d => ({ ...d, products: { ...d.products, [product]: { ...d.products[product], [key]: value || undefined } } }));
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><Package className="w-5 h-5 text-indigo-500" /> 제품 분석</h2>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">현재 필터 기준 {totals.length}개 제품 · {rows.length.toLocaleString()}개 행</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-8 pt-5 flex gap-2 shrink-0">
+          {(Object.keys(TAB_LABELS) as Tab[]).map(t => (
+            <button key={t} onClick={() => setTab(t)} className={`px-4 py-2 rounded-xl text-[10px] font-black transition-all ${tab === t ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+              {TAB_LABELS[t]}{t === 'outliers' && outliers.length > 0 && ` (${outliers.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto p-8 custom-scrollbar">
+          {tab === 'overview' && (
+            <div className="grid grid-cols-2 gap-6">
+              <RankList title="스펙량 상위 제품" items={byAmount} color="#6366f1" />
+              <RankList title="수량 상위 제품" items={byQuantity} color="#10b981" />
+            </div>
+          )}
+
+          {tab === 'mix' && (
+            <div className="space-y-5">
+              <div className="flex items-center justify-between">
+                <div className="flex bg-slate-100 border border-slate-200 rounded-xl p-1">
+                  <button onClick={() => setMixBy('constructor')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${mixBy === 'constructor' ? 'bg-slate-800 text-white' : 'text-slate-500'}`}>시공사</button>
+                  <button onClick={() => setMixBy('designer')} className={`px-3 py-1.5 rounded-lg text-[10px] font-black ${mixBy === 'designer' ? 'bg-slate-800 text-white' : 'text-slate-500'}`}>설계사</button>
+                </div>
+                <div className="flex flex-wrap gap-3 justify-end">
+                  {[...topProducts.filter(p => p !== '기타'), '기타'].map(p => (
+                    <span key={p} className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500">
+                      <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: colorOf(p) }} /> {p}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {mix.map(m => (
+                <div key={m.name}>
+                  <div className="flex justify-between text-[11px] font-bold mb-1.5">
+                    <span className="text-slate-700">{m.name}</span>
+                    <span className="text-slate-400">{m.total.toLocaleString()} {unitConfig.amountUnit}</span>
+                  </div>
+                  <div className="flex h-5 rounded-lg overflow-hidden border border-slate-100">
+                    {m.parts.map(part => (
+                      <div
+                        key={part.product}
+                        title={`${part.product}: ${part.amount.toLocaleString()} (${((part.amount / (m.total || 1)) * 100).toFixed(1)}%)`}
+                        style={{ width: `${(part.amount / (m.total || 1)) * 100}%`, backgroundColor: colorOf(part.product) }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {mix.length === 0 && <p className="text-[10px] text-slate-400 text-center py-6">No Data Available</p>}
+            </div>
+          )}
+
+          {tab === 'trend' && (
+            <div className="space-y-4">
+              <select className="border border-slate-200 rounded-lg px-2 py-1.5 text-[11px] font-bold text-slate-700 bg-white" value={activeProduct || ''} onChange={(e) => setTrendProduct(e.target.value)}>
+                {totals.map(t => <option key={t.product} value={t.product}>{t.product}</option>)}
+              </select>
+              <div className="h-72">
+                <MiniBarChart
+                  title={`${activeProduct || '-'} ${GRANULARITY_LABELS[granularity]} 스펙량`}
+                  data={series}
+                  color={activeProduct ? colorOf(activeProduct) : OTHER_COLOR}
+                  labelSuffix={activeProduct ? unitsFor(activeProduct, unitConfig).amountUnit : ''}
+                />
+              </div>
+            </div>
+          )}
+
+          {tab === 'outliers' && (
+            outliers.length > 0 ? (
+              <table className="w-full text-left border-separate border-spacing-0">
+                <thead className="sticky top-0 bg-white">
+                  <tr>
+                    {['구분', '현장명', '제품명', '수량', '스펙량', '단위당', '제품 중앙값'].map(h => (
+                      <th key={h} className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {outliers.map(o => {
+                    const units = unitsFor(o.row.product_name, unitConfig);
+                    return (
+                      <tr key={o.row.id} className="hover:bg-slate-50 cursor-pointer" onClick={() => onSelectProject(o.row.project_name)}>
+                        <td className="py-2.5 px-4"><span className="text-[9px] font-black px-1.5 py-0.5 rounded border text-amber-600 bg-amber-50 border-amber-200 flex items-center gap-1 w-fit"><AlertTriangle className="w-3 h-3" /> {RATIO_FLAG_LABELS[o.flag]}</span></td>
+                        <td className="py-2.5 px-4 text-xs font-black text-slate-700">{o.row.project_name}</td>
+                        <td className="py-2.5 px-4 text-xs text-slate-500">{o.row.product_name}</td>
+                        <td className="py-2.5 px-4 text-xs font-mono text-slate-600">{o.row.quantity.toLocaleString()} {units.quantityUnit}</td>
+                        <td className="py-2.5 px-4 text-xs font-mono text-slate-600">{o.row.spec_amount.toLocaleString()} {units.amountUnit}</td>
+                        <td className="py-2.5 px-4 text-xs font-mono font-bold text-indigo-600">{o.ratio !== null ? o.ratio.toFixed(3) : '-'}</td>
+                        <td className="py-2.5 px-4 text-xs font-mono text-slate-400">{o.median !== null ? o.median.toFixed(3) : '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-20">
+                <SearchX className="w-10 h-10 text-slate-200" />
+                <p className="text-sm font-bold text-slate-400">의심 행이 없습니다.</p>
+              </div>
+            )
+          )}
+
+          {tab === 'units' && (
+            <div className="space-y-6 max-w-3xl">
+              <div className="grid grid-cols-3 gap-4">
+                <label className="text-[10px] font-black text-slate-500">기본 스펙량 단위
+                  <input className="mt-1 w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs" value={draft.amountUnit} onChange={(e) => setDraft({ ...draft, amountUnit: e.target.value })} />
+                </label>
+                <label className="text-[10px] font-black text-slate-500">기본 수량 단위
+                  <input className="mt-1 w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs" value={draft.quantityUnit} onChange={(e) => setDraft({ ...draft, quantityUnit: e.target.value })} />
+                </label>
+                <label className="text-[10px] font-black text-slate-500">이상치 허용 배수
+                  <input type="number" min={1.5} step={0.5} className="mt-1 w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs" value={draft.ratioTolerance} onChange={(e) => setDraft({ ...draft, ratioTolerance: Math.max(1.1, Number(e.target.value) || 1.1) })} />
+                </label>
+              </div>
+              <table className="w-full text-left">
+                <thead>
+                  <tr>
+                    {['제품명', '스펙량 단위', '수량 단위'].map(h => <th key={h} className="py-2 px-2 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">{h}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {totals.map(t => (
+                    <tr key={t.product}>
+                      <td className="py-1.5 px-2 text-xs font-bold text-slate-700">{t.product}</td>
+                      <td className="py-1.5 px-2"><input className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs" placeholder={draft.amountUnit} value={draft.products[t.product]?.amountUnit || ''} onChange={(e) => setProductUnit(t.product, 'amountUnit', e.target.value)} /></td>
+                      <td className="py-1.5 px-2"><input className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs" placeholder={draft.quantityUnit} value={draft.products[t.product]?.quantityUnit || ''} onChange={(e) => setProductUnit(t.product, 'quantityUnit', e.target.value)} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {tab === 'units' && (
+          <div className="p-6 border-t border-slate-100 bg-slate-50 flex justify-end gap-2 shrink-0">
+            <button onClick={() => setDraft(unitConfig)} className="px-4 py-2.5 rounded-xl text-[11px] font-black text-slate-500 hover:bg-slate-100">되돌리기</button>
+            <button onClick={() => onSaveUnits({ ...draft, amountUnit: draft.amountUnit.trim() || DEFAULT_UNIT_CONFIG.amountUnit, quantityUnit: draft.quantityUnit.trim() || DEFAULT_UNIT_CONFIG.quantityUnit })} className="px-5 py-2.5 rounded-xl text-[11px] font-black text-white bg-slate-900 hover:bg-black">단위 저장</button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
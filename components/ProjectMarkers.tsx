@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, Popup, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { GroupedProject } from '../types';
+import { clusterProjects } from '../services/clustering';
+import { sizeScale } from '../services/mapStyling';
+import { defaultIcon, dotIcon, clusterIcon, editedBadgeIcon } from './mapIcons';
+
+// 이 줌 이상에서는 클러스터를 풀어 개별 마커로 보여준다.
+const CLUSTER_MAX_ZOOM = 16;
+
+// 현장 마커 (줌 기반 클러스터링 + 값 인코딩 스타일)
+export const ProjectMarkers = ({ projects, clustered, iconStyle, colorOf, amountUnit, draggable, isEdited, onSelect, onHover, onDragEnd }: {
+  projects: GroupedProject[];
+  clustered: boolean;
+  iconStyle: 'default' | 'size' | 'color';
+  colorOf: (p: GroupedProject) => string;
+  amountUnit: string;
+  draggable: boolean;
+  // 메모/보정이 있는 현장은 배지를 붙인다
+  isEdited?: (p: GroupedProject) => boolean;
+  onSelect: (p: GroupedProject) => void;
+  onHover: (p: GroupedProject | null) => void;
+  onDragEnd: (p: GroupedProject, lat: number, lon: number) => void;
+}) => {
+  const [zoom, setZoom] = useState<number | null>(null);
+  const map = useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  const currentZoom = zoom ?? map.getZoom();
+
+  const mapped = useMemo(() => projects.filter(p => p.latitude && p.longitude), [projects]);
+  const maxAmount = useMemo(() => Math.max(...mapped.map(p => p.totalAmount), 1), [mapped]);
+  const sizeOf = useMemo(() => sizeScale(maxAmount), [maxAmount]);
+  const clusterSizeOf = useMemo(() => sizeScale(mapped.reduce((s, p) => s + p.totalAmount, 0), 34, 72), [mapped]);
+
+  const clusters = useMemo(() => {
+    if (!clustered || draggable || currentZoom > CLUSTER_MAX_ZOOM) return null;
+    return clusterProjects(mapped, (lat, lon) => map.project([lat, lon], currentZoom));
+  }, [mapped, clustered, draggable, currentZoom, map]);
+
+  const iconOf = (p: GroupedProject) => {
+    if (iconStyle === 'size') return dotIcon(colorOf(p), Math.round(sizeOf(p.totalAmount)));
+    if (iconStyle === 'color') return dotIcon(colorOf(p), 18);
+    return defaultIcon;
+  };
+
+  // 마커 종류별 오른쪽 위 모서리 (마커 기준점에서의 거리)
+  const badgeOffset = (p: GroupedProject): [number, number] => {
+    if (iconStyle === 'default') return [10, -36];
+    const half = (iconStyle === 'size' ? Math.round(sizeOf(p.totalAmount)) : 18) / 2;
+    return [half, -half];
+  };
+
+  const renderMarker = (p: GroupedProject) => (
+    <React.Fragment key={p.name}>
+      <Marker
+        position={[p.latitude!, p.longitude!]}
+        icon={iconOf(p)}
+        draggable={draggable}
+        eventHandlers={{
+          click: () => { if (!draggable) onSelect(p); },
+          dragend: (e) => { const ll = e.target.getLatLng(); onDragEnd(p, ll.lat, ll.lng); },
+          mouseover: () => onHover(p),
+          mouseout: () => onHover(null)
+        }}
+      />
+      {isEdited?.(p) && !draggable && (
+        <Marker position={[p.latitude!, p.longitude!]} icon={editedBadgeIcon(...badgeOffset(p))} interactive={false} zIndexOffset={1000} />
+      )}
+    </React.Fragment>
+  );
+
+  if (!clusters) return <>{mapped.map(renderMarker)}</>;
+
+  return (
+    <>
+      {clusters.map(c => {
+        if (c.members.length === 1) return renderMarker(c.members[0]);
+        const bounds = L.latLngBounds(c.members.map(p => [p.latitude!, p.longitude!]));
+        // 같은 좌표에 겹친 현장은 더 확대해도 풀리지 않으므로 목록 팝업으로 보여준다.
+        const isStacked = bounds.getNorthEast().equals(bounds.getSouthWest());
+        return (
+          <Marker
+            key={`cluster-${c.id}`}
+            position={[c.lat, c.lon]}
+            icon={clusterIcon(c.members.length, c.totalAmount, Math.round(clusterSizeOf(c.totalAmount)), amountUnit)}
+            eventHandlers={isStacked ? {} : { click: () => map.fitBounds(bounds, { padding: [60, 60] }) }}
+          >
+            {isStacked && (
+              <Popup>
+                <div className="space-y-1 max-h-48 overflow-auto">
+                  {c.members.map(p => (
+                    <button key={p.name} onClick={() => onSelect(p)} className="block w-full text-left text-[11px] font-bold text-slate-700 hover:text-indigo-600">
+                      {p.name} <span className="text-slate-400">{p.totalAmount.toLocaleString()}{amountUnit}</span>
+                    </button>
+                  ))}
+                </div>
+              </Popup>
+            )}
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { NotebookPen, RotateCcw, Loader2, History } from 'lucide-react';
+import { ProjectNote, NoteDraft, NoteField, EMPTY_NOTE_DRAFT, NOTE_FIELD_LABELS } from '../services/projectNotes';
+import { formatDateTime } from '../utils/format';
+
+const draftOf = (note?: ProjectNote): NoteDraft =>
+  note ? { progress: note.progress, note: note.note, nextAction: note.nextAction, owner: note.owner } : EMPTY_NOTE_DRAFT;
+
+// 진행현황 탭의 진행내용 보정 / 메모 / 다음 조치 입력과 수정 이력
+export const ProjectNoteEditor = ({ projectName, note, originalProgress, onSave }: {
+  projectName: string;
+  note?: ProjectNote;
+  // 보정 전 원본 진행내용 (가장 최근 행)
+  originalProgress: string;
+  onSave: (draft: NoteDraft) => Promise<void>;
+}) => {
+  const [draft, setDraft] = useState<NoteDraft>(draftOf(note));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => { setDraft(draftOf(note)); }, [projectName, note?.updatedAt]);
+
+  const update = (field: NoteField, value: string) => setDraft({ ...draft, [field]: value });
+  const dirty = (Object.keys(draft) as NoteField[]).some(f => draft[f].trim() !== draftOf(note)[f]);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-6 bg-amber-50/40 rounded-2xl border border-amber-100 space-y-4">
+        <p className="text-[9px] font-black text-slate-400 uppercase flex items-center gap-1.5"><NotebookPen className="w-3 h-3 text-amber-500" /> 현장 메모 / 진행내용 보정</p>
+        <div>
+          <div className="flex items-center justify-between mb-1.5">
+            <p className="text-[10px] font-black text-slate-500">보정 진행내용</p>
+            {draft.progress && (
+              <button onClick={() => update('progress', '')} className="text-[9px] font-black text-slate-400 hover:text-slate-700 flex items-center gap-1"><RotateCcw className="w-3 h-3" /> 원본으로</button>
+            )}
+          </div>
+          <input className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold bg-white" placeholder={originalProgress || '진행내용'} value={draft.progress} onChange={(e) => update('progress', e.target.value)} />
+          <p className="text-[9px] font-bold text-slate-400 mt-1">원본: {originalProgress || '-'}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-[10px] font-black text-slate-500 mb-1.5">다음 조치일</p>
+            <input type="date" className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold bg-white" value={draft.nextAction} onChange={(e) => update('nextAction', e.target.value)} />
+          </div>
+          <div>
+            <p className="text-[10px] font-black text-slate-500 mb-1.5">담당자</p>
+            <input className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold bg-white" value={draft.owner} onChange={(e) => update('owner', e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <p className="text-[10px] font-black text-slate-500 mb-1.5">메모</p>
+          <textarea rows={3} className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold bg-white resize-none" value={draft.note} onChange={(e) => update('note', e.target.value)} />
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {dirty && <button onClick={() => setDraft(draftOf(note))} className="px-3 py-2 rounded-xl text-[10px] font-black text-slate-500 hover:bg-white">취소</button>}
+          <button onClick={save} disabled={!dirty || isSaving} className="px-4 py-2 rounded-xl text-[10px] font-black text-white bg-slate-900 hover:bg-black disabled:opacity-40 flex items-center gap-1.5">
+            {isSaving && <Loader2 className="w-3 h-3 animate-spin" />} 저장
+          </button>
+        </div>
+      </div>
+
+      {note && note.history.length > 0 && (
+        <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+          <p className="text-[9px] font-black text-slate-400 uppercase mb-3 flex items-center gap-1.5"><History className="w-3 h-3" /> 수정 이력</p>
+          <div className="space-y-2 max-h-56 overflow-auto custom-scrollbar">
+            {note.history.slice().reverse().map((h, i) => (
+              <div key={i} className="text-[10px] font-bold text-slate-600">
+                <span className="text-slate-400 mr-2">{formatDateTime(h.at)}</span>
+                {NOTE_FIELD_LABELS[h.field]}: <span className="text-slate-400 line-through">{h.from || '없음'}</span> → {h.to || '삭제'}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ChevronDown, ChevronRight, ArrowUp, ArrowDown, Columns3, SearchX, PencilLine } from 'lucide-react';
+import { ExcelRow, GroupedProject } from '../types';
+import { groupProjects } from '../services/aggregation';
+import { TABLE_COLUMNS, ColumnDef, ColumnId, CellValue, SortState, DEFAULT_COLUMNS, compareCells, loadTableColumns, saveTableColumns } from '../services/tableColumns';
+
+// 고정 행 높이 기반 가상 스크롤: 보이는 구간 + 여유분만 렌더링
+const ROW_HEIGHT = 44;
+const OVERSCAN = 12;
+
+type TableItem =
+  | { kind: 'row'; key: string; row: ExcelRow }
+  | { kind: 'project'; key: string; project: GroupedProject; rows: ExcelRow[] }
+  | { kind: 'spec'; key: string; spec: GroupedProject['specs'][number] };
+
+const formatCell = (value: CellValue) => {
+  if (value === null || value === '') return '-';
+  return typeof value === 'number' ? value.toLocaleString() : value;
+};
+
+const CoordBadge = ({ mapped }: { mapped: boolean }) => mapped ? (
+  <span className="text-[8px] font-black text-emerald-500 bg-emerald-50 px-1.5 py-0.5 rounded border border-emerald-100 uppercase tracking-tighter">MAPPED</span>
+) : (
+  <span className="text-[8px] font-black text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded border border-amber-200 uppercase tracking-tighter">MISSING COORDS</span>
+);
+
+const renderCell = (col: ColumnDef, value: CellValue) => {
+  if (col.id === 'coords') return <CoordBadge mapped={value === 'MAPPED'} />;
+  if (col.id === 'spec_amount') return <span className="font-mono font-bold text-indigo-600">{formatCell(value)}</span>;
+  return formatCell(value);
+};
+
+export const ProjectTable = ({ rows, amountUnit, editedProjects, onSelectProject }: {
+  rows: ExcelRow[];
+  amountUnit: string;
+  // 메모/보정이 있는 현장명
+  editedProjects?: Set<string>;
+  onSelectProject: (name: string) => void;
+}) => {
+  const [mode, setMode] = useState<'row' | 'project'>('project');
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [visibleIds, setVisibleIds] = useState<ColumnId[]>(DEFAULT_COLUMNS);
+  const [isChooserOpen, setIsChooserOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadTableColumns().then(setVisibleIds).catch(err => console.error("Table column load error", err));
+  }, []);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewportHeight(el.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // 필터 등으로 행이 바뀌면 이전 위치가 목록 끝을 넘을 수 있으므로 맨 위로 되돌린다.
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [rows]);
+
+  const columns = TABLE_COLUMNS.filter(c => visibleIds.includes(c.id));
+
+  const toggleColumn = (id: ColumnId) => {
+    const next = visibleIds.includes(id) ? visibleIds.filter(v => v !== id) : [...visibleIds, id];
+    if (next.length === 0) return;
+    setVisibleIds(next);
+    saveTableColumns(next).catch(err => console.error("Table column save error", err));
+  };
+
+  // 헤더 클릭: 오름차순 → 내림차순 → 정렬 해제
+  const toggleSort = (id: ColumnId) => {
+    setSort(prev => {
+      if (!prev || prev.column !== id) return { column: id, dir: 'asc' };
+      return prev.dir === 'asc' ? { column: id, dir: 'desc' } : null;
+    });
+  };
+
+  const projectGroups = useMemo(() => {
+    if (mode !== 'project') return [];
+    const rowsByProject = new Map<string, ExcelRow[]>();
+    rows.forEach(r => {
+      const list = rowsByProject.get(r.project_name);
+      if (list) list.push(r); else rowsByProject.set(r.project_name, [r]);
+    });
+    return groupProjects(rows).map(project => ({ project, rows: rowsByProject.get(project.name) || [] }));
+  }, [rows, mode]);
+
+  const items = useMemo<TableItem[]>(() => {
+    const col = sort ? TABLE_COLUMNS.find(c => c.id === sort.column) : null;
+    if (mode === 'row') {
+      const sorted = col ? [...rows].sort((a, b) => compareCells(col.row(a), col.row(b), sort!.dir)) : rows;
+      return sorted.map((row, i) => ({ kind: 'row', key: row.id || String(i), row }));
+    }
+    const sorted = col
+      ? [...projectGroups].sort((a, b) => compareCells(col.project(a.project, a.rows), col.project(b.project, b.rows), sort!.dir))
+      : projectGroups;
+    const list: TableItem[] = [];
+    sorted.forEach(g => {
+      list.push({ kind: 'project', key: g.project.name, project: g.project, rows: g.rows });
+      if (expanded.has(g.project.name)) {
+        g.project.specs.forEach((spec, i) => list.push({ kind: 'spec', key: `${g.project.name}::${i}`, spec }));
+      }
+    });
+    return list;
+  }, [rows, projectGroups, mode, sort, expanded]);
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleItems = items.slice(start, end);
+  const colSpan = columns.length + (mode === 'project' ? 1 : 0);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 px-6 pb-6 pt-20">
+      <div className="flex items-center justify-between mb-3 shrink-0">
+        <p className="text-[10px] font-black text-slate-400">
+          {mode === 'project' ? `${projectGroups.length.toLocaleString()}개 현장` : `${rows.length.toLocaleString()}개 행`}
+        </p>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 border border-slate-200 rounded-xl p-1">
+            <button onClick={() => setMode('project')} className={`px-3 py-1.5 rounded-lg text-[9px] font-black transition-all ${mode === 'project' ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-white'}`}>현장별</button>
+            <button onClick={() => setMode('row')} className={`px-3 py-1.5 rounded-lg text-[9px] font-black transition-all ${mode === 'row' ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-white'}`}>행별</button>
+          </div>
+          <div className="relative">
+            <button onClick={() => setIsChooserOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-slate-200 bg-white text-[10px] font-black text-slate-500 hover:bg-slate-50">
+              <Columns3 className="w-3.5 h-3.5" /> 컬럼 ({columns.length})
+            </button>
+            {isChooserOpen && (
+              <>
+                <div className="fixed inset-0 z-[3000]" onClick={() => setIsChooserOpen(false)} />
+                <div className="absolute right-0 mt-2 w-48 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[3001] p-2 max-h-80 overflow-auto custom-scrollbar">
+                  {TABLE_COLUMNS.map(c => (
+                    <label key={c.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 cursor-pointer text-[11px] font-bold text-slate-600">
+                      <input type="checkbox" checked={visibleIds.includes(c.id)} onChange={() => toggleColumn(c.id)} />
+                      {c.label}
+                    </label>
+                  ))}
+                  <button onClick={() => { setVisibleIds(DEFAULT_COLUMNS); saveTableColumns(DEFAULT_COLUMNS); }} className="w-full mt-1 text-[10px] font-black text-slate-500 hover:bg-slate-50 rounded-lg py-1.5">기본값</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar" onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+        <table className="w-full text-left border-separate border-spacing-0">
+          <thead className="sticky top-0 bg-white z-20">
+            <tr>
+              {mode === 'project' && <th className="w-8 border-b border-slate-100 bg-white" />}
+              {columns.map(c => (
+                <th
+                  key={c.id}
+                  onClick={() => toggleSort(c.id)}
+                  className={`py-4 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100 bg-white cursor-pointer select-none hover:text-slate-600 whitespace-nowrap ${c.numeric || c.id === 'coords' ? 'text-center' : ''}`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {c.label}
+                    {sort?.column === c.id && (sort.dir === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {items.length > 0 ? (
+              <>
+                {start > 0 && <tr style={{ height: start * ROW_HEIGHT }}><td colSpan={colSpan} /></tr>}
+                {visibleItems.map(item => {
+                  if (item.kind === 'spec') {
+                    return (
+                      <tr key={item.key} style={{ height: ROW_HEIGHT }} className="bg-slate-50/60">
+                        <td />
+                        <td colSpan={columns.length} className="px-4 text-[11px] text-slate-500 border-b border-slate-100/60">
+                          <span className="font-bold text-slate-600">{item.spec.product}</span>
+                          <span className="mx-2 text-slate-300">·</span>수량 {item.spec.quantity.toLocaleString()}
+                          <span className="mx-2 text-slate-300">·</span><span className="font-mono font-bold text-indigo-600">{item.spec.amount.toLocaleString()}{amountUnit}</span>
+                          {item.spec.source && <span className="ml-2 text-[9px] text-slate-400">{item.spec.source}</span>}
+                        </td>
+                      </tr>
+                    );
+                  }
+                  const name = item.kind === 'row' ? item.row.project_name : item.project.name;
+                  const mapped = item.kind === 'row' ? !!(item.row.latitude && item.row.longitude) : !!(item.project.latitude && item.project.longitude);
+                  return (
+                    <tr key={item.key} style={{ height: ROW_HEIGHT }} className={`hover:bg-slate-50 group cursor-pointer ${!mapped ? 'bg-amber-50/20' : ''}`} onClick={() => onSelectProject(name)}>
+                      {item.kind === 'project' && (
+                        <td className="pl-3 border-b border-slate-50" onClick={(e) => { e.stopPropagation(); toggleExpanded(name); }}>
+                          {expanded.has(name) ? <ChevronDown className="w-3.5 h-3.5 text-slate-400" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-400" />}
+                        </td>
+                      )}
+                      {columns.map(c => {
+                        const value = item.kind === 'row' ? c.row(item.row) : c.project(item.project, item.rows);
+                        return (
+                          <td key={c.id} className={`px-4 text-xs border-b border-slate-50 whitespace-nowrap truncate max-w-[260px] ${c.id === 'project_name' ? 'font-black text-slate-700' : 'text-slate-500'} ${c.numeric || c.id === 'coords' ? 'text-center' : ''}`}>
+                            {c.id === 'project_name' && editedProjects?.has(name) && <PencilLine className="inline w-3 h-3 mr-1.5 -mt-0.5 text-amber-500" />}
+                            {renderCell(c, value)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                {end < items.length && <tr style={{ height: (items.length - end) * ROW_HEIGHT }}><td colSpan={colSpan} /></tr>}
+              </>
+            ) : (
+              <tr>
+                <td colSpan={colSpan} className="py-20 text-center">
+                  <div className="flex flex-col items-center gap-3">
+                    <SearchX className="w-10 h-10 text-slate-200" />
+                    <p className="text-sm font-bold text-slate-400">데이터가 없습니다.</p>
+                  </div>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
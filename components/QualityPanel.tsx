@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { X, ShieldAlert, Download, SearchX } from 'lucide-react';
+import { QUALITY_RULES, QUALITY_RULE_MAP, QualityConfig, QualityReport, QualityRuleId, QualitySeverity, flaggedIdsFor } from '../services/dataQuality';
+
+const SEVERITY_STYLES: Record<QualitySeverity, string> = {
+  error: 'text-red-600 bg-red-50 border-red-100',
+  warning: 'text-amber-600 bg-amber-50 border-amber-200',
+};
+
+const SEVERITY_LABELS: Record<QualitySeverity, string> = { error: '오류', warning: '경고' };
+
+// 표는 규칙별 상위 N건만 그린다 (전체는 CSV 로 내보낸다).
+const MAX_ROWS = 500;
+
+// 데이터 품질 규칙 결과와 규칙별 상세
+export const QualityPanel = ({ report, config, onChangeConfig, onExport, onSelectProject, onClose }: {
+  report: QualityReport;
+  config: QualityConfig;
+  onChangeConfig: (config: QualityConfig) => void;
+  onExport: () => void;
+  onSelectProject: (name: string) => void;
+  onClose: () => void;
+}) => {
+  const [ruleFilter, setRuleFilter] = useState<QualityRuleId | 'all'>('all');
+  const issues = ruleFilter === 'all' ? report.issues : report.byRule[ruleFilter];
+  const errorRows = new Set(report.issues.filter(i => QUALITY_RULE_MAP[i.rule].severity === 'error').map(i => i.rowId)).size;
+  const excludableRows = flaggedIdsFor(report, config.excludeRules).size;
+
+  const toggleRule = (id: QualityRuleId) => {
+    const disabled = config.disabled.includes(id) ? config.disabled.filter(d => d !== id) : [...config.disabled, id];
+    onChangeConfig({ ...config, disabled });
+    if (ruleFilter === id) setRuleFilter('all');
+  };
+
+  const toggleExcludeRule = (id: QualityRuleId) => {
+    const excludeRules = config.excludeRules.includes(id) ? config.excludeRules.filter(d => d !== id) : [...config.excludeRules, id];
+    onChangeConfig({ ...config, excludeRules });
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed inset-10 bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><ShieldAlert className="w-5 h-5 text-amber-500" /> 데이터 품질</h2>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">불러온 데이터를 규칙별로 검사한 결과입니다. 행은 바뀌지 않습니다.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-8 pt-6 grid grid-cols-4 gap-4 shrink-0">
+          {[
+            { label: '검사한 행', val: report.checkedRows, color: 'text-slate-700' },
+            { label: '표시된 행', val: report.flaggedIds.size, color: 'text-amber-600' },
+            { label: '오류 행', val: errorRows, color: 'text-red-500' },
+            { label: '발견 건수', val: report.issues.length, color: 'text-slate-400' },
+          ].map(k => (
+            <div key={k.label} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{k.label}</p>
+              <p className={`text-2xl font-black ${k.color}`}>{k.val.toLocaleString()}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0 px-8 py-4">
+          <div className="w-72 shrink-0 overflow-auto custom-scrollbar space-y-1.5">
+            <button onClick={() => setRuleFilter('all')} className={`w-full flex items-center justify-between px-3 py-2.5 rounded-xl text-[11px] font-black ${ruleFilter === 'all' ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}>
+              전체 <span>{report.issues.length.toLocaleString()}</span>
+            </button>
+            {QUALITY_RULES.map(rule => {
+              const enabled = !config.disabled.includes(rule.id);
+              const count = report.byRule[rule.id].length;
+              return (
+                <div key={rule.id} className={`rounded-xl border ${ruleFilter === rule.id ? 'border-slate-800' : 'border-slate-100'} ${enabled ? '' : 'opacity-50'}`} title={rule.description}>
+                  <button disabled={!enabled} onClick={() => setRuleFilter(rule.id)} className="w-full flex items-center gap-2 px-3 pt-2.5 pb-1 text-left">
+                    <span className={`text-[8px] font-black px-1.5 py-0.5 rounded border ${SEVERITY_STYLES[rule.severity]}`}>{SEVERITY_LABELS[rule.severity]}</span>
+                    <span className="text-[11px] font-black text-slate-700 flex-1 truncate">{rule.label}</span>
+                    <span className={`text-[11px] font-black ${count > 0 ? 'text-slate-800' : 'text-slate-300'}`}>{count.toLocaleString()}</span>
+                  </button>
+                  <div className="flex items-center gap-4 px-3 pb-2 text-[9px] font-bold text-slate-400">
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" checked={enabled} onChange={() => toggleRule(rule.id)} /> 검사
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="checkbox" disabled={!enabled} checked={config.excludeRules.includes(rule.id)} onChange={() => toggleExcludeRule(rule.id)} /> 집계 제외 대상
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 overflow-auto custom-scrollbar border border-slate-100 rounded-xl">
+            {issues.length > 0 ? (
+              <table className="w-full text-left border-separate border-spacing-0">
+                <thead className="sticky top-0 bg-white">
+                  <tr>
+                    {['현장명', '규칙', '내용'].map(h => (
+                      <th key={h} className="py-3 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.slice(0, MAX_ROWS).map((issue, i) => (
+                    <tr key={`${issue.rule}-${issue.rowId}-${i}`} className="hover:bg-slate-50 cursor-pointer" onClick={() => onSelectProject(issue.projectName)}>
+                      <td className="py-2.5 px-4 text-[11px] font-black text-slate-700">{issue.projectName}</td>
+                      <td className="py-2.5 px-4"><span className={`text-[9px] font-black px-1.5 py-0.5 rounded border whitespace-nowrap ${SEVERITY_STYLES[QUALITY_RULE_MAP[issue.rule].severity]}`}>{QUALITY_RULE_MAP[issue.rule].label}</span></td>
+                      <td className="py-2.5 px-4 text-[11px] text-slate-500">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center gap-3 py-16">
+                <SearchX className="w-10 h-10 text-slate-200" />
+                <p className="text-sm font-bold text-slate-400">발견된 문제가 없습니다.</p>
+              </div>
+            )}
+            {issues.length > MAX_ROWS && (
+              <p className="text-[10px] font-bold text-slate-400 text-center py-3">상위 {MAX_ROWS.toLocaleString()}건만 표시합니다. 전체는 CSV 로 내보내세요.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex items-center justify-between gap-3 shrink-0">
+          <label className="flex items-center gap-2 text-xs font-black text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={config.excludeFlagged} onChange={(e) => onChangeConfig({ ...config, excludeFlagged: e.target.checked })} />
+            '집계 제외 대상' 규칙에 걸린 행 {excludableRows.toLocaleString()}건을 KPI·차트·지도 집계에서 제외
+          </label>
+          <button disabled={report.issues.length === 0} onClick={onExport} className="px-5 py-3 rounded-xl text-xs font-black text-slate-600 bg-white border border-slate-200 flex items-center gap-2 disabled:opacity-40"><Download className="w-4 h-4" /> 결과 내보내기</button>
+        </div>
+      </div>
+    </>
+  );
+};
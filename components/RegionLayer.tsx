@@ -0,0 +1,89 @@
+import React, { useMemo, useEffect, useRef } from 'react';
+import { GeoJSON, CircleMarker, Tooltip } from 'react-leaflet';
+import { RegionBoundaries, RegionLevel, RegionTotal, regionKey, regionLabel } from '../services/regions';
+import { sequentialColor } from '../services/mapStyling';
+
+export type RegionMetric = 'amount' | 'sites';
+
+export const REGION_METRIC_LABELS: Record<RegionMetric, string> = {
+  amount: '스펙량',
+  sites: '현장 수',
+};
+
+const describe = (t: RegionTotal | undefined, name: string, amountUnit: string) =>
+  `${name} · ${t ? `${Math.round(t.amount).toLocaleString()}${amountUnit} · ${t.sites}개 현장` : '데이터 없음'}`;
+
+// 지역별 단계 구분도. 경계 파일이 없으면 지역 현장 중심에 원으로 대신 표시한다.
+export const RegionLayer = ({ level, metric, totals, boundaries, amountUnit, onSelect }: {
+  level: RegionLevel;
+  metric: RegionMetric;
+  totals: RegionTotal[];
+  boundaries: RegionBoundaries | null;
+  amountUnit: string;
+  onSelect: (name: string) => void;
+}) => {
+  const byKey = useMemo(() => new Map(totals.map(t => [regionKey(t.name), t])), [totals]);
+  const max = Math.max(...totals.map(t => t[metric]), 1);
+  const features = boundaries ? boundaries[level] : [];
+  const layerRef = useRef<any>(null);
+  // 툴팁/클릭 핸들러는 레이어 생성 시 한 번 묶이므로 최신 집계를 ref 로 읽는다.
+  const byKeyRef = useRef(byKey);
+  byKeyRef.current = byKey;
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+  const amountUnitRef = useRef(amountUnit);
+  amountUnitRef.current = amountUnit;
+
+  const styleOf = (feature: any) => {
+    const t = byKey.get(feature.properties.regionKey);
+    return {
+      color: '#ffffff',
+      weight: 1,
+      fillColor: t ? sequentialColor(t[metric] / max) : '#f1f5f9',
+      fillOpacity: t ? 0.7 : 0.3,
+    };
+  };
+
+  useEffect(() => {
+    layerRef.current?.setStyle(styleOf);
+  }, [byKey, metric, max]);
+
+  const collection = useMemo(() => ({
+    type: 'FeatureCollection',
+    features: features.map(f => ({ ...f.feature, properties: { ...f.feature.properties, regionKey: f.key, regionLabel: regionLabel(f) } })),
+  }), [features]);
+
+  if (features.length > 0) {
+    return (
+      <GeoJSON
+        key={level}
+        ref={layerRef}
+        data={collection}
+        style={styleOf}
+        onEachFeature={(feature: any, layer: any) => {
+          const current = () => byKeyRef.current.get(feature.properties.regionKey);
+          layer.bindTooltip(() => describe(current(), feature.properties.regionLabel, amountUnitRef.current), { sticky: true });
+          layer.on('click', () => { const t = current(); if (t) onSelectRef.current(t.name); });
+        }}
+      />
+    );
+  }
+
+  return (
+    <>
+      {totals.filter(t => t.center && t.name !== '미확인').map(t => (
+        <CircleMarker
+          key={`region-${t.name}`}
+          center={[t.center!.lat, t.center!.lon]}
+          radius={10 + 30 * Math.sqrt(t[metric] / max)}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: sequentialColor(t[metric] / max), fillOpacity: 0.6 }}
+          eventHandlers={{ click: () => onSelect(t.name) }}
+        >
+          <Tooltip direction="top">
+            <span className="text-[10px] font-black">{describe(t, t.name, amountUnit)}</span>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+};
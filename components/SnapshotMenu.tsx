@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { History, Trash2, ChevronDown, CheckCircle2 } from 'lucide-react';
+import { SnapshotMeta } from '../types';
+import { formatDateTime } from '../utils/format';
+
+// 저장된 스냅샷 전환/삭제 드롭다운
+export const SnapshotMenu = ({ snapshots, activeId, onSelect, onDelete }: {
+  snapshots: SnapshotMeta[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const active = snapshots.find(s => s.id === activeId);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 text-slate-600 font-black text-[10px] bg-white px-3 py-2 rounded-xl border border-slate-200 shadow-sm hover:bg-slate-50 transition-all max-w-[220px]"
+      >
+        <History className="w-3.5 h-3.5 text-indigo-500 shrink-0" />
+        <span className="truncate">{active ? active.name : '저장된 데이터 없음'}</span>
+        <ChevronDown className="w-3 h-3 text-slate-400 shrink-0" />
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[3000]" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[3001] p-2 max-h-96 overflow-auto custom-scrollbar">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-3 py-2">저장된 스냅샷 ({snapshots.length})</p>
+            {snapshots.length > 0 ? snapshots.map(s => (
+              <div
+                key={s.id}
+                onClick={() => { onSelect(s.id); setOpen(false); }}
+                className={`flex items-center gap-3 px-3 py-2.5 rounded-xl cursor-pointer group ${s.id === activeId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-[11px] font-black text-slate-700 truncate flex items-center gap-1.5">
+                    {s.id === activeId && <CheckCircle2 className="w-3 h-3 text-indigo-500 shrink-0" />}
+                    {s.name}
+                  </p>
+                  <p className="text-[9px] font-bold text-slate-400">{formatDateTime(s.importedAt)} · {s.rowCount.toLocaleString()}행</p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); if (confirm(`'${s.name}' 스냅샷을 삭제하시겠습니까?`)) onDelete(s.id); }}
+                  className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )) : <div className="text-[10px] text-slate-400 text-center py-4">No Data Available</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
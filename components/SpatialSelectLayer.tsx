@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Circle, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { GeoPoint } from '../services/geocoding';
+import { SpatialSelection, SpatialTool, distanceKm } from '../services/spatialSelection';
+
+const SELECTION_STYLE = { color: '#0ea5e9', weight: 2, fillColor: '#0ea5e9', fillOpacity: 0.08 };
+const DRAFT_STYLE = { color: '#0ea5e9', weight: 2, dashArray: '6 6', fillOpacity: 0.04 };
+// 올가미 궤적은 화면에서 이 거리(px) 이상 움직일 때만 점을 추가한다.
+const LASSO_MIN_STEP_PX = 4;
+
+type Draft =
+  | { kind: 'lasso'; points: GeoPoint[]; last: { x: number; y: number } }
+  | { kind: 'radius'; center: GeoPoint; radiusKm: number };
+
+const toLatLng = (p: GeoPoint): [number, number] => [p.lat, p.lon];
+
+// 지도 위 드래그로 올가미(다각형) 또는 반경(중심에서 끌기) 영역을 그린다. 도구가 켜져 있는 동안 지도 이동은 막는다.
+export const SpatialSelectLayer = ({ tool, selection, onChange }: {
+  tool: SpatialTool | null;
+  selection: SpatialSelection | null;
+  onChange: (selection: SpatialSelection | null) => void;
+}) => {
+  const map = useMap();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    if (!tool) return;
+    const container = map.getContainer();
+    map.dragging.disable();
+    container.style.cursor = 'crosshair';
+    return () => {
+      map.dragging.enable();
+      container.style.cursor = '';
+      setDraft(null);
+    };
+  }, [tool, map]);
+
+  useMapEvents({
+    mousedown: (e: any) => {
+      if (!tool) return;
+      const point = { lat: e.latlng.lat, lon: e.latlng.lng };
+      setDraft(tool === 'lasso'
+        ? { kind: 'lasso', points: [point], last: { x: e.containerPoint.x, y: e.containerPoint.y } }
+        : { kind: 'radius', center: point, radiusKm: 0 });
+    },
+    mousemove: (e: any) => {
+      if (!draft) return;
+      const point = { lat: e.latlng.lat, lon: e.latlng.lng };
+      if (draft.kind === 'radius') {
+        setDraft({ ...draft, radiusKm: distanceKm(draft.center, point) });
+        return;
+      }
+      const { x, y } = e.containerPoint;
+      if (Math.hypot(x - draft.last.x, y - draft.last.y) < LASSO_MIN_STEP_PX) return;
+      setDraft({ ...draft, points: [...draft.points, point], last: { x, y } });
+    },
+    mouseup: () => {
+      if (!draft) return;
+      if (draft.kind === 'lasso' && draft.points.length >= 3) onChange({ kind: 'lasso', polygon: draft.points });
+      if (draft.kind === 'radius' && draft.radiusKm > 0) onChange({ kind: 'radius', center: draft.center, radiusKm: draft.radiusKm });
+      setDraft(null);
+    },
+  });
+
+  return (
+    <>
+      {selection && !draft && (selection.kind === 'radius'
+        ? <Circle center={toLatLng(selection.center)} radius={selection.radiusKm * 1000} pathOptions={SELECTION_STYLE} interactive={false} />
+        : <Polygon positions={selection.polygon.map(toLatLng)} pathOptions={SELECTION_STYLE} interactive={false} />)}
+      {draft?.kind === 'lasso' && <Polyline positions={draft.points.map(toLatLng)} pathOptions={DRAFT_STYLE} interactive={false} />}
+      {draft?.kind === 'radius' && draft.radiusKm > 0 && (
+        <Circle center={toLatLng(draft.center)} radius={draft.radiusKm * 1000} pathOptions={DRAFT_STYLE} interactive={false} />
+      )}
+    </>
+  );
+};
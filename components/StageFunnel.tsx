@@ -0,0 +1,45 @@
+import React from 'react';
+import { Filter, Settings } from 'lucide-react';
+import { FunnelStep, UNCLASSIFIED } from '../services/pipelineStages';
+
+// 파이프라인 단계별 현장 수 / 톤수 퍼널
+export const StageFunnel = ({ steps, selected, amountUnit, onSelect, onOpenSettings }: {
+  steps: FunnelStep[];
+  selected: string | null;
+  amountUnit: string;
+  onSelect: (id: string | null) => void;
+  onOpenSettings: () => void;
+}) => {
+  const maxSites = Math.max(...steps.map(s => s.sites), 1);
+  const unclassified = steps.find(s => s.id === UNCLASSIFIED);
+  return (
+    <div className="bg-white rounded-2xl p-5 border border-slate-100 flex flex-col shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Filter className="w-3.5 h-3.5 text-sky-500" /> 단계별 퍼널
+        </h3>
+        <button onClick={onOpenSettings} title="단계 분류 규칙" className="p-1 rounded-lg text-slate-300 hover:text-slate-700 hover:bg-slate-50"><Settings className="w-3.5 h-3.5" /></button>
+      </div>
+      <div className="space-y-1.5">
+        {steps.filter(s => s.id !== UNCLASSIFIED).map(s => (
+          <button
+            key={s.id}
+            onClick={() => onSelect(selected === s.id ? null : s.id)}
+            className={`w-full flex items-center gap-2 group rounded-lg px-1 py-0.5 ${selected === s.id ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+          >
+            <span className="w-12 text-[10px] font-black text-slate-600 text-left shrink-0">{s.label}</span>
+            <div className="flex-1 h-4 flex justify-center">
+              <div className="h-full rounded transition-all duration-500" style={{ width: `${Math.max((s.sites / maxSites) * 100, s.sites ? 4 : 0)}%`, backgroundColor: s.color, opacity: selected && selected !== s.id ? 0.3 : 0.85 }} />
+            </div>
+            <span className="w-20 text-right text-[9px] font-bold text-slate-500 shrink-0">{s.sites}곳 · {s.tonnage.toLocaleString()}{amountUnit}</span>
+          </button>
+        ))}
+      </div>
+      {unclassified && unclassified.sites > 0 && (
+        <button onClick={onOpenSettings} className="mt-3 text-[10px] font-black text-amber-600 bg-amber-50 border border-amber-200 rounded-lg px-3 py-1.5 hover:bg-amber-100">
+          미분류 {unclassified.sites}곳 분류하기
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { X, Filter, RotateCcw } from 'lucide-react';
+import { StageConfig, DEFAULT_STAGE_CONFIG, UNCLASSIFIED, classifyProgress } from '../services/pipelineStages';
+
+// 단계 키워드 규칙 편집 및 미분류 진행내용 수동 분류
+export const StageSettings = ({ config, progressTexts, onSave, onClose }: {
+  config: StageConfig;
+  progressTexts: { text: string; rows: number }[];
+  onSave: (config: StageConfig) => void;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<StageConfig>(config);
+  const [keywordInputs, setKeywordInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(config.stages.map(s => [s.id, s.keywords.join(', ')])));
+
+  // 입력 중인 키워드를 반영한 설정
+  const effective = useMemo<StageConfig>(() => ({
+    ...draft,
+    stages: draft.stages.map(s => ({ ...s, keywords: (keywordInputs[s.id] || '').split(',').map(k => k.trim()).filter(Boolean) })),
+  }), [draft, keywordInputs]);
+
+  const unclassified = progressTexts.filter(p => classifyProgress(p.text, { ...effective, manual: {} }) === UNCLASSIFIED && p.text.trim() && p.text !== '-');
+
+  const setManual = (text: string, stageId: string) => setDraft(d => {
+    const manual = { ...d.manual };
+    if (stageId) manual[text.trim()] = stageId; else delete manual[text.trim()];
+    return { ...d, manual };
+  });
+
+  const reset = () => {
+    setDraft(DEFAULT_STAGE_CONFIG);
+    setKeywordInputs(Object.fromEntries(DEFAULT_STAGE_CONFIG.stages.map(s => [s.id, s.keywords.join(', ')])));
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-3xl max-h-[85vh] bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><Filter className="w-5 h-5 text-sky-500" /> 진행 단계 분류 규칙</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="flex-1 overflow-auto custom-scrollbar p-8 space-y-8">
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">단계별 키워드 (쉼표 구분 · 뒤쪽 단계가 우선)</p>
+            <div className="space-y-2">
+              {draft.stages.map(s => (
+                <div key={s.id} className="flex items-center gap-3">
+                  <span className="w-20 flex items-center gap-2 text-[11px] font-black text-slate-700"><span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }} />{s.label}</span>
+                  <input
+                    className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-[11px]"
+                    value={keywordInputs[s.id] || ''}
+                    onChange={(e) => setKeywordInputs(k => ({ ...k, [s.id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">규칙에 맞지 않는 진행내용 ({unclassified.length})</p>
+            {unclassified.length > 0 ? (
+              <div className="space-y-1.5">
+                {unclassified.map(p => (
+                  <div key={p.text} className="flex items-center gap-3 bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+                    <span className="flex-1 text-[11px] font-bold text-slate-700 truncate">"{p.text}"</span>
+                    <span className="text-[9px] font-bold text-slate-400 shrink-0">{p.rows}행</span>
+                    <select
+                      className="border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold bg-white"
+                      value={draft.manual[p.text.trim()] || ''}
+                      onChange={(e) => setManual(p.text, e.target.value)}
+                    >
+                      <option value="">미분류</option>
+                      {draft.stages.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            ) : <p className="text-[11px] font-bold text-emerald-600">모든 진행내용이 규칙으로 분류됩니다.</p>}
+          </div>
+        </div>
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex items-center gap-3 shrink-0">
+          <button onClick={reset} className="px-4 py-3 rounded-xl text-xs font-black text-slate-500 hover:bg-white flex items-center gap-2"><RotateCcw className="w-3.5 h-3.5" /> 기본값</button>
+          <button onClick={() => onSave(effective)} className="ml-auto bg-slate-900 hover:bg-black text-white px-8 py-3 rounded-xl text-xs font-black shadow-lg">저장</button>
+        </div>
+      </div>
+    </>
+  );
+};
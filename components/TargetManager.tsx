@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, Target, Trash2, UploadCloud, Download, Plus, Loader2 } from 'lucide-react';
+import { SpecTarget, TargetScope, TARGET_SCOPE_LABELS, parseTargetSources, sortTargets, targetsToCsv } from '../services/targets';
+import { ACCEPTED_EXTENSIONS, readImportFile } from '../services/fileReaders';
+import { downloadText } from '../utils/download';
+
+const targetId = (t: SpecTarget) => `${t.scope}|${t.name}|${t.year}|${t.month}`;
+
+// 같은 대상·연월의 목표는 나중 값으로 바꾼다.
+const mergeTargets = (base: SpecTarget[], added: SpecTarget[]) => {
+  const byId = new Map(base.map(t => [targetId(t), t]));
+  added.forEach(t => byId.set(targetId(t), t));
+  return sortTargets(Array.from(byId.values()));
+};
+
+// 연간/월간 스펙 목표 입력 모달 (현재 데이터셋에 저장)
+export const TargetManager = ({ targets, datasetName, defaultYear, designers, constructors, amountUnit, onSave, onClose }: {
+  targets: SpecTarget[];
+  datasetName: string;
+  defaultYear: number;
+  designers: string[];
+  constructors: string[];
+  amountUnit: string;
+  onSave: (targets: SpecTarget[]) => void;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<SpecTarget[]>(targets);
+  const [form, setForm] = useState<SpecTarget>({ scope: 'total', name: '', year: defaultYear, month: 0, amount: 0 });
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const formInvalid = !form.year || form.amount <= 0 || (form.scope !== 'total' && !form.name.trim());
+
+  const addTarget = () => {
+    if (formInvalid) return;
+    setDraft(mergeTargets(draft, [{ ...form, name: form.scope === 'total' ? '' : form.name.trim() }]));
+    setForm({ ...form, amount: 0 });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const { targets: imported, skipped } = parseTargetSources(await readImportFile(file));
+      setDraft(mergeTargets(draft, imported));
+      setImportMessage(`${imported.length.toLocaleString()}건을 불러왔습니다.${skipped ? ` (읽을 수 없는 행 ${skipped}건 제외)` : ''}`);
+    } catch (err) {
+      setImportMessage(`'${file.name}' 파일을 읽을 수 없습니다. ${err instanceof Error ? err.message : ''}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const names = form.scope === 'designer' ? designers : form.scope === 'constructor' ? constructors : [];
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[4000] animate-in fade-in" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-2xl max-h-[90vh] bg-white rounded-[2rem] shadow-2xl z-[4001] flex flex-col">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black text-slate-800 tracking-tight flex items-center gap-2"><Target className="w-5 h-5 text-emerald-500" /> 스펙 목표</h2>
+            <p className="text-[10px] font-bold text-slate-400 mt-1">데이터셋: {datasetName}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar">
+          <div className="flex items-center justify-between bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 gap-3">
+            <span className="text-[10px] font-bold text-slate-500">열: 연도, 월(비우면 연간), 구분(전체/설계사/시공사), 업체명, 목표</span>
+            <div className="flex items-center gap-1.5 shrink-0">
+              <button onClick={() => downloadText(`spec_targets_${Date.now()}.csv`, targetsToCsv(draft), 'text/csv')} className="px-3 py-1.5 rounded-lg text-[10px] font-black text-slate-600 hover:bg-white flex items-center gap-1.5">
+                <Download className="w-3.5 h-3.5" /> {draft.length > 0 ? 'CSV' : '양식'}
+              </button>
+              <label className="cursor-pointer bg-slate-900 hover:bg-black text-white px-3 py-1.5 rounded-lg text-[10px] font-black flex items-center gap-1.5">
+                {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <UploadCloud className="w-3.5 h-3.5" />} 불러오기
+                <input type="file" accept={ACCEPTED_EXTENSIONS} className="hidden" disabled={isImporting} onChange={handleImport} />
+              </label>
+            </div>
+          </div>
+          {importMessage && <p className="text-[10px] font-bold text-slate-500 -mt-3">{importMessage}</p>}
+
+          <div className="grid grid-cols-[80px_80px_90px_1fr_110px_auto] gap-2 items-end">
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">연도</p>
+              <input type="number" className="w-full border border-slate-200 rounded-xl px-2 py-2 text-xs" value={form.year || ''} onChange={(e) => setForm({ ...form, year: Number(e.target.value) })} />
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">월</p>
+              <select className="w-full border border-slate-200 rounded-xl px-2 py-2 text-xs" value={form.month} onChange={(e) => setForm({ ...form, month: Number(e.target.value) })}>
+                <option value={0}>연간</option>
+                {Array.from({ length: 12 }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}월</option>)}
+              </select>
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">구분</p>
+              <select className="w-full border border-slate-200 rounded-xl px-2 py-2 text-xs" value={form.scope} onChange={(e) => setForm({ ...form, scope: e.target.value as TargetScope, name: '' })}>
+                {(Object.keys(TARGET_SCOPE_LABELS) as TargetScope[]).map(s => <option key={s} value={s}>{TARGET_SCOPE_LABELS[s]}</option>)}
+              </select>
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">업체명</p>
+              <input list="target-names" disabled={form.scope === 'total'} className="w-full border border-slate-200 rounded-xl px-2 py-2 text-xs disabled:bg-slate-50" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              <datalist id="target-names">{names.map(n => <option key={n} value={n} />)}</datalist>
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">목표 ({amountUnit})</p>
+              <input type="number" min={0} className="w-full border border-slate-200 rounded-xl px-2 py-2 text-xs" value={form.amount || ''} onChange={(e) => setForm({ ...form, amount: Number(e.target.value) })} onKeyDown={(e) => { if (e.key === 'Enter') addTarget(); }} />
+            </div>
+            <button onClick={addTarget} disabled={formInvalid} className="p-2 rounded-xl bg-slate-900 text-white hover:bg-black disabled:opacity-40"><Plus className="w-4 h-4" /></button>
+          </div>
+
+          <div className="border border-slate-100 rounded-2xl overflow-hidden">
+            {draft.length === 0 ? (
+              <p className="text-[10px] text-slate-400 text-center py-8">등록된 목표가 없습니다.</p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <tbody>
+                  {draft.map(t => (
+                    <tr key={targetId(t)} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                      <td className="px-4 py-2 font-bold text-slate-600">{t.year}년 {t.month ? `${t.month}월` : '연간'}</td>
+                      <td className="px-4 py-2 font-bold text-slate-700">{t.scope === 'total' ? '전체' : `${TARGET_SCOPE_LABELS[t.scope]} · ${t.name}`}</td>
+                      <td className="px-4 py-2 text-right font-mono font-bold text-emerald-600">{t.amount.toLocaleString()} {amountUnit}</td>
+                      <td className="px-2 py-2 w-8">
+                        <button onClick={() => setDraft(draft.filter(d => d !== t))} className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          <p className="text-[10px] font-bold text-slate-400">월 목표가 없는 달은 연간 목표에서 월 목표 합을 뺀 나머지를 고르게 나눠 씁니다.</p>
+        </div>
+        <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-[2rem]">
+          <button onClick={() => onSave(draft)} className="w-full bg-slate-900 text-white font-black py-4 rounded-2xl hover:bg-black transition-all shadow-xl text-xs uppercase tracking-widest">저장</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Target, Settings } from 'lucide-react';
+import { TargetTracking as Tracking, TargetKey, targetKeyLabel } from '../services/targets';
+
+const formatPct = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+// 목표 대비 누적 실적 / 경과 목표 대비 / 연말 예상 (월평균 유지 가정)
+export const TargetTracking = ({ tracking, keys, selected, amountUnit, onSelect, onManage }: {
+  tracking: Tracking | null;
+  keys: TargetKey[];
+  selected: TargetKey;
+  amountUnit: string;
+  onSelect: (key: TargetKey) => void;
+  onManage: () => void;
+}) => {
+  const keyId = (k: TargetKey) => `${k.scope}|${k.name}`;
+  const ratio = (value: number) => (tracking && tracking.annualTarget > 0 ? Math.min(value / tracking.annualTarget, 1) * 100 : 0);
+
+  return (
+    <div className="bg-white rounded-2xl p-4 border border-slate-100 shadow-sm shrink-0">
+      <div className="flex items-center gap-2 mb-3">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+          <Target className="w-3.5 h-3.5 text-emerald-500" /> 목표 달성{tracking ? ` · ${tracking.year}년` : ''}
+        </h4>
+        {keys.length > 1 && (
+          <select className="ml-auto max-w-[140px] bg-transparent text-[9px] font-black focus:outline-none text-slate-500 cursor-pointer truncate" value={keyId(selected)} onChange={(e) => onSelect(keys.find(k => keyId(k) === e.target.value)!)}>
+            {keys.map(k => <option key={keyId(k)} value={keyId(k)}>{targetKeyLabel(k)}</option>)}
+          </select>
+        )}
+        <button onClick={onManage} title="목표 설정" className={`${keys.length > 1 ? '' : 'ml-auto'} p-1 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-50`}><Settings className="w-3.5 h-3.5" /></button>
+      </div>
+      {!tracking ? (
+        <button onClick={onManage} className="w-full text-[10px] font-bold text-slate-400 hover:text-slate-600 text-center py-2">
+          {keys.length === 0 ? '목표를 등록하면 달성률과 연말 예상을 보여줍니다.' : `${targetKeyLabel(selected)} 목표가 이 연도에 없습니다.`}
+        </button>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-2">
+            <span className="text-2xl font-black text-slate-800">{formatPct(tracking.achievementPct)}</span>
+            <span className="text-[10px] font-bold text-slate-400 truncate">{Math.round(tracking.ytdActual).toLocaleString()} / {Math.round(tracking.annualTarget).toLocaleString()} {amountUnit}</span>
+          </div>
+          <div className="relative h-2 bg-slate-100 rounded-full mt-2 mb-3">
+            <div className="absolute inset-y-0 left-0 bg-emerald-500 rounded-full" style={{ width: `${ratio(tracking.ytdActual)}%` }} />
+            <div className="absolute inset-y-0 left-0 border-r-2 border-dashed border-slate-300" style={{ width: `${ratio(tracking.forecast)}%` }} title="연말 예상" />
+            <div className="absolute -top-1 -bottom-1 w-0.5 bg-slate-700" style={{ left: `${ratio(tracking.ytdTarget)}%` }} title={`${tracking.asOfMonth}월까지 목표`} />
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-[10px] font-bold">
+            <div className="text-slate-500">
+              {tracking.asOfMonth ? `${tracking.asOfMonth}월까지 목표 대비` : '실적 없음'}
+              <span className={`block text-xs font-black ${tracking.ytdPct !== null && tracking.ytdPct >= 100 ? 'text-emerald-600' : 'text-amber-600'}`}>{formatPct(tracking.ytdPct)}</span>
+            </div>
+            <div className="text-slate-500">
+              연말 예상 (현 추세)
+              <span className={`block text-xs font-black ${tracking.forecastPct !== null && tracking.forecastPct >= 100 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                {Math.round(tracking.forecast).toLocaleString()}{amountUnit} · {formatPct(tracking.forecastPct)}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Loader2, Pause, Play, X, MapPinned, CheckCircle2, AlertCircle } from 'lucide-react';
+import { GeocodeProgress } from '../services/geocoding';
+import { formatDuration } from '../utils/format';
+
+// 화면을 가리지 않는 작업 진행 표시 (파일 읽기 / 백그라운드 지오코딩)
+export const TaskProgress = ({ reading, geocode, onPause, onResume, onCancel, onDismiss }: {
+  reading: string | null;
+  geocode: GeocodeProgress | null;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}) => {
+  if (!reading && !geocode) return null;
+  const finished = geocode && (geocode.status === 'done' || geocode.status === 'cancelled' || geocode.status === 'error');
+  const percent = geocode && geocode.total > 0 ? Math.round((geocode.done / geocode.total) * 100) : 0;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[1900] w-[420px] bg-white/95 backdrop-blur-xl border border-slate-200 rounded-2xl shadow-2xl p-4 animate-in slide-in-from-bottom-2">
+      {reading && (
+        <p className="text-[11px] font-black text-slate-700 flex items-center gap-2"><Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" /> {reading}</p>
+      )}
+      {geocode && (
+        <div className={reading ? 'mt-3 pt-3 border-t border-slate-100' : ''}>
+          <div className="flex items-center gap-2">
+            {geocode.status === 'done' ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />
+              : geocode.status === 'error' ? <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+              : geocode.status === 'cancelled' ? <AlertCircle className="w-3.5 h-3.5 text-slate-400" />
+              : <MapPinned className={`w-3.5 h-3.5 text-indigo-500 ${geocode.status === 'running' ? 'animate-pulse' : ''}`} />}
+            <p className="text-[11px] font-black text-slate-700 flex-1">
+              {geocode.status === 'done' ? '주소 변환 완료' : geocode.status === 'error' ? '주소 변환 중단됨' : geocode.status === 'cancelled' ? '주소 변환 취소됨' : geocode.status === 'paused' ? '주소 변환 일시정지' : '주소를 지도 좌표로 변환 중'}
+              <span className="text-slate-400 font-bold ml-1.5">{geocode.done.toLocaleString()} / {geocode.total.toLocaleString()}</span>
+            </p>
+            {!finished && (geocode.status === 'paused'
+              ? <button onClick={onResume} title="재개" className="p-1.5 rounded-lg text-slate-500 hover:text-slate-800 hover:bg-slate-100"><Play className="w-3.5 h-3.5" /></button>
+              : <button onClick={onPause} title="일시정지" className="p-1.5 rounded-lg text-slate-500 hover:text-slate-800 hover:bg-slate-100"><Pause className="w-3.5 h-3.5" /></button>)}
+            <button onClick={finished ? onDismiss : onCancel} title={finished ? '닫기' : '취소 (변환된 좌표는 유지)'} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50"><X className="w-3.5 h-3.5" /></button>
+          </div>
+          {geocode.error && <p className="text-[10px] font-bold text-red-500 mt-1.5 break-all">{geocode.error} (변환된 좌표는 유지됩니다)</p>}
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-2.5">
+            <div className={`h-full rounded-full transition-all duration-500 ${geocode.status === 'error' ? 'bg-red-400' : geocode.status === 'paused' ? 'bg-amber-400' : 'bg-indigo-600'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <div className="flex justify-between text-[9px] font-bold text-slate-400 mt-1.5">
+            <span>
+              캐시 {geocode.fromCache.toLocaleString()}건
+              {geocode.failed > 0 && <span className="text-red-500 ml-2">실패 {geocode.failed.toLocaleString()}건</span>}
+            </span>
+            {!finished && <span>{geocode.status === 'paused' ? '대기 중' : geocode.etaMs === null ? '남은 시간 계산 중' : `약 ${formatDuration(geocode.etaMs)} 남음`}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import L from 'leaflet';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+import { formatTonnage } from '../services/mapStyling';
+
+// --- 지도 아이콘 ---
+export const defaultIcon = L.icon({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+});
+
+export const pickedIcon = L.icon({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  className: 'hue-rotate-180',
+});
+
+export const dotIcon = (color: string, size: number) => L.divIcon({
+  className: '',
+  iconSize: [size, size],
+  iconAnchor: [size / 2, size / 2],
+  html: `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:${color};opacity:0.85;border:2px solid #fff;box-shadow:0 1px 4px rgba(15,23,42,0.35)"></div>`,
+});
+
+export const clusterIcon = (count: number, totalAmount: number, size: number, amountUnit: string) => L.divIcon({
+  className: '',
+  iconSize: [size, size],
+  iconAnchor: [size / 2, size / 2],
+  html: `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:rgba(15,23,42,0.85);border:3px solid rgba(99,102,241,0.6);color:#fff;display:flex;flex-direction:column;align-items:center;justify-content:center;line-height:1.1;box-shadow:0 2px 8px rgba(15,23,42,0.35)">`
+    + `<span style="font-size:11px;font-weight:900">${formatTonnage(totalAmount)}${amountUnit}</span>`
+    + `<span style="font-size:8px;font-weight:700;color:#a5b4fc">${count}곳</span></div>`,
+});
+
+// 메모/진행내용을 수정한 현장 표시 (마커 오른쪽 위에 겹쳐 그린다)
+export const editedBadgeIcon = (offsetX: number, offsetY: number) => L.divIcon({
+  className: '',
+  iconSize: [14, 14],
+  iconAnchor: [7 - offsetX, 7 - offsetY],
+  html: '<div style="width:14px;height:14px;border-radius:9999px;background:#f59e0b;border:2px solid #fff;box-shadow:0 1px 3px rgba(15,23,42,0.4);color:#fff;font-size:8px;font-weight:900;line-height:10px;text-align:center">✎</div>',
+});
@@ -1,6 +1,12 @@
-
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import 'leaflet/dist/leaflet.css';
+import '@fontsource/inter/300.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/600.css';
+import '@fontsource/inter/700.css';
+import './index.css';
 import { 
   BarChart3, 
   MapPin, 
@@ -15,7 +21,6 @@ import {
   Trophy,
   Database,
   List,
-  SearchX,
   Table as TableIcon,
   Map as MapIcon,
   CheckCircle2,
@@ -27,7 +32,6 @@ import {
   Zap,
   HelpCircle,
   FileSearch,
-  Activity,
   Layers,
   Search,
   Palette,
@@ -36,48 +40,74 @@ import {
   MapPinOff,
   Filter,
   Hammer,
-  ClipboardList
+  ClipboardList,
+  Settings,
+  GitCompare,
+  Package,
+  BookMarked,
+  Handshake,
+  Lasso,
+  CircleDot,
+  Navigation,
+  Printer,
+  PencilLine,
+  ShieldAlert
 } from 'lucide-react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, Tooltip } from 'react-leaflet';
-import L from 'leaflet';
-import * as XLSX from 'xlsx';
-
-// --- Types ---
-interface ExcelRow {
-  id: string;
-  project_name: string;
-  year: number;
-  month: number;
-  progress: string;
-  address: string;
-  latitude: number | null;
-  longitude: number | null;
-  designer: string;
-  constructor: string;
-  product_name: string;
-  quantity: number;
-  spec_amount: number;
-  isGeocoded?: boolean;
-}
-
-interface GroupedProject {
-  name: string;
-  address: string;
-  latitude: number | null;
-  longitude: number | null;
-  designer: string;
-  constructor: string;
-  progress: string;
-  specs: { product: string; quantity: number; amount: number }[];
-  totalAmount: number;
-}
-
-const defaultIcon = L.icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-});
+import { MapContainer, Marker, CircleMarker, Popup, useMap, useMapEvents, Tooltip } from 'react-leaflet';
+import { ExcelRow, GroupedProject, SnapshotMeta } from './types';
+import { listSnapshots, saveSnapshot, loadSnapshot, deleteSnapshot, getActiveSnapshotId, setActiveSnapshotId, updateSnapshotRows } from './services/snapshotStore';
+import { SnapshotMenu } from './components/SnapshotMenu';
+import { formatDateTime } from './utils/format';
+import { GeoPoint, GeocodeQueue, GeocodeProgress, loadGeocoderConfig, createProvider, createGeocodeQueue, applyGeocodeResults } from './services/geocoding';
+import { GeocoderSettings } from './components/GeocoderSettings';
+import { listOverrides, putOverride, applyOverrides, overridesToCsv } from './services/coordOverrides';
+import { CoordFixer } from './components/CoordFixer';
+import { downloadText } from './utils/download';
+import { ImportPreview } from './components/ImportPreview';
+import { ImportSource } from './services/importMapping';
+import { ACCEPTED_EXTENSIONS, readImportFile } from './services/fileReaders';
+import { ExportMenu } from './components/ExportMenu';
+import { groupProjects } from './services/aggregation';
+import { diffDatasets, changeLogToCsv, ProjectDiffStatus } from './services/datasetDiff';
+import { DiffPanel } from './components/DiffPanel';
+import { pickedIcon } from './components/mapIcons';
+import { ProjectMarkers } from './components/ProjectMarkers';
+import { HeatLayer } from './components/HeatLayer';
+import { MapLegend } from './components/MapLegend';
+import { MarkerStyle, MARKER_STYLE_LABELS, OTHER_COLOR, buildColorScale, sizeScale } from './services/mapStyling';
+import { StageConfig, PipelineHealth, DEFAULT_STAGE_CONFIG, UNCLASSIFIED, buildStageIndex, buildFunnel, classifyProgress, pipelineHealth, loadStageConfig, saveStageConfig } from './services/pipelineStages';
+import { StageFunnel } from './components/StageFunnel';
+import { FilterState, Facets, FacetKey, FACET_LABELS, EMPTY_FACETS, decodeFilterState, encodeFilterState, matchesFacets, matchesQuery, filterByProjectAmount, facetOptions } from './services/filterState';
+import { FilterBar } from './components/FilterBar';
+import { StageSettings } from './components/StageSettings';
+import { PeriodSelection, PeriodMode, Granularity, GRANULARITY_LABELS, periodMatcher, previousYearSelection, describePeriod, periodFileTag, trendWindow, selectionWindow, shiftWindow, toYm, fromYm } from './services/timePeriods';
+import { PeriodPicker, TrendOptions } from './components/PeriodPicker';
+import { ProjectTable } from './components/ProjectTable';
+import { MiniBarChart } from './components/MiniBarChart';
+import { ProductAnalytics } from './components/ProductAnalytics';
+import { UnitConfig, DEFAULT_UNIT_CONFIG, loadUnitConfig, saveUnitConfig, unitsFor } from './services/productAnalytics';
+import { CompanyAlias, companyName, listAliases, putAlias, deleteAlias, applyAliases, buildAliasResolver, aliasesToCsv } from './services/companyAliases';
+import { CompanyAliasManager } from './components/CompanyAliasManager';
+import { CollaborationPanel } from './components/CollaborationPanel';
+import { RegionBoundaries, RegionLevel, REGION_LEVEL_LABELS, REGION_BOUNDARY_FILES, assignRegions, loadRegionBoundaries, hasBoundaries, regionTotals } from './services/regions';
+import { RegionLayer, RegionMetric, REGION_METRIC_LABELS } from './components/RegionLayer';
+import { SpatialSelection, SpatialTool, SPATIAL_TOOL_LABELS, NEARBY_RADIUS_OPTIONS, selectionMatcher, describeSelection, nearbyProjects, formatKm } from './services/spatialSelection';
+import { SpatialSelectLayer } from './components/SpatialSelectLayer';
+import { summarize, summaryDeltas, buildTrends } from './services/engine';
+import { TaskProgress } from './components/TaskProgress';
+import { HISTORY_CHANGE_LABELS, buildProjectHistory, latestRow } from './services/projectHistory';
+import { openPrintWindow, buildDashboardReport, buildProjectSheet, siteMapSvg } from './services/printReport';
+import { rankBy } from './services/exporters';
+import { BasemapConfig, MbtilesSource, DEFAULT_BASEMAP_CONFIG, loadBasemapConfig, saveBasemapConfig, openMbtiles, loadMbtilesFile, saveMbtilesFile, deleteMbtilesFile } from './services/basemap';
+import { BasemapLayer } from './components/BasemapLayer';
+import { ProjectNote, NoteDraft, listNotes, putNote, applyProgressEdits, hasNoteContent, exportWriteBack } from './services/projectNotes';
+import { ProjectNoteEditor } from './components/ProjectNoteEditor';
+import { SpecTarget, TargetKey, TOTAL_TARGET, loadTargets, saveTargets, targetKeys, scopeMatcher, windowTarget, buildTargetTracking, cumulativeSeries, targetKeyLabel } from './services/targets';
+import { TargetTracking } from './components/TargetTracking';
+import { TargetManager } from './components/TargetManager';
+import { QualityConfig, DEFAULT_QUALITY_CONFIG, loadQualityConfig, saveQualityConfig, runQualityChecks, flaggedIdsFor, excludedRowIds, qualityIssuesToCsv } from './services/dataQuality';
+import { QualityPanel } from './components/QualityPanel';
+import { BasemapSettings } from './components/BasemapSettings';
 
 // 지도 중심 이동 컴포넌트
 const ChangeView = ({ center, zoom }: { center: [number, number], zoom?: number }) => {
@@ -88,102 +118,263 @@ const ChangeView = ({ center, zoom }: { center: [number, number], zoom?: number
   return null;
 };
 
-// --- 유틸리티 함수 ---
-const normalizeKey = (key: string) => key.toString().toLowerCase().replace(/[^a-z0-9가-힣]/g, '');
-
-const getVal = (row: any, aliases: string[]) => {
-  const rowKeys = Object.keys(row);
-  const normalizedAliases = aliases.map(normalizeKey);
-  
-  const foundKey = rowKeys.find(k => {
-    const nk = normalizeKey(k);
-    return normalizedAliases.includes(nk);
-  });
-  
-  return foundKey ? row[foundKey] : undefined;
+const DIFF_COLORS: Record<ProjectDiffStatus, string> = {
+  added: '#10b981',
+  removed: '#ef4444',
+  changed: '#f59e0b',
 };
 
-const parseNum = (val: any): number => {
-  if (val === undefined || val === null || val === '') return 0;
-  if (typeof val === 'number') return val;
-  const cleaned = String(val).replace(/[^0-9.]/g, '');
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
+const HEALTH_STYLES: Record<PipelineHealth, { card: string; badge: string; label: string }> = {
+  good: { card: 'border-emerald-200', badge: 'bg-emerald-50 text-emerald-600 border-emerald-100', label: '양호' },
+  warn: { card: 'border-amber-300', badge: 'bg-amber-50 text-amber-600 border-amber-200', label: '주의' },
+  risk: { card: 'border-red-300', badge: 'bg-red-50 text-red-600 border-red-200', label: '위험' },
+  none: { card: 'border-slate-100', badge: '', label: '' },
 };
 
-const geocodeAddress = async (address: string): Promise<{lat: number, lon: number} | null> => {
-  try {
-    const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1`, {
-      headers: {
-        'Accept-Language': 'ko-KR,ko;q=0.9,en-US;q=0.8,en;q=0.7'
-      }
-    });
-    if (!response.ok) return null;
-    const data = await response.json();
-    if (data && data.length > 0) {
-      return { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon) };
-    }
-  } catch (e) {
-    console.error("Geocoding error:", address, e);
-  }
+// 좌표 보정 모드에서 지도 클릭 위치 전달
+const MapClickCapture = ({ onClick }: { onClick: (point: GeoPoint) => void }) => {
+  useMapEvents({ click: (e) => onClick({ lat: e.latlng.lat, lon: e.latlng.lng }) });
   return null;
 };
 
-// --- 트렌드 차트 컴포넌트 ---
-const MiniBarChart = ({ data, color, title, labelSuffix = "" }: { data: { label: string, value: number }[], color: string, title: string, labelSuffix?: string }) => {
-  const maxValue = Math.max(...data.map(d => d.value), 1);
-  return (
-    <div className="bg-white rounded-2xl p-4 border border-slate-100 flex flex-col h-full min-h-[170px] shadow-sm overflow-visible">
-      <div className="flex items-center justify-between mb-1">
-        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</h4>
-      </div>
-      <div className="flex-1 flex items-end gap-1.5 pb-2 pt-10 relative">
-        {data.map((d, i) => {
-          const barHeight = (d.value / maxValue) * 100;
-          return (
-            <div key={i} className="flex-1 flex flex-col items-center group relative h-full justify-end">
-              <div 
-                className="absolute text-[9px] font-black text-slate-700 whitespace-nowrap px-1 rounded-md bg-white/90 transition-all duration-300 pointer-events-none z-10 border border-slate-100/50 shadow-sm"
-                style={{ bottom: `calc(${barHeight}% + 6px)` }}
-              >
-                {d.value > 0 ? `${d.value.toLocaleString()}${labelSuffix}` : ""}
-              </div>
-              
-              <div 
-                className={`w-full rounded-t-sm transition-all duration-500 hover:brightness-90 cursor-default shadow-sm border-x border-t border-white/20`}
-                style={{ height: `${barHeight}%`, backgroundColor: color }}
-              >
-              </div>
-              <span className="text-[8px] font-bold text-slate-400 mt-1.5 truncate w-full text-center leading-tight">{d.label}</span>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
-};
-
 const App = () => {
-  const [data, setData] = useState<ExcelRow[]>([]);
-  const [selectedYear, setSelectedYear] = useState<number>(0);
-  const [selectedMonth, setSelectedMonth] = useState<number>(0);
+  const [loadedData, setData] = useState<ExcelRow[]>([]);
+  // 공유 링크로 열린 경우 URL 의 필터 상태로 시작
+  const [initialFilters] = useState<FilterState>(() => decodeFilterState(window.location.search));
+  const [selectedYear, setSelectedYear] = useState<number>(initialFilters.year);
+  const [selectedMonth, setSelectedMonth] = useState<number>(initialFilters.month);
+  const [periodMode, setPeriodMode] = useState<PeriodMode>(initialFilters.periodMode);
+  const [periodSub, setPeriodSub] = useState<number>(initialFilters.periodSub);
+  const [rangeFrom, setRangeFrom] = useState<number | null>(initialFilters.rangeFrom);
+  const [rangeTo, setRangeTo] = useState<number | null>(initialFilters.rangeTo);
+  const [granularity, setGranularity] = useState<Granularity>(initialFilters.granularity);
+  const [compareYoY, setCompareYoY] = useState(initialFilters.compare);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [selectedProject, setSelectedProject] = useState<GroupedProject | null>(null);
   const [hoveredProject, setHoveredProject] = useState<GroupedProject | null>(null);
-  const [activeTab, setActiveTab] = useState<'progress' | 'info' | 'spec'>('progress');
+  const [activeTab, setActiveTab] = useState<'progress' | 'timeline' | 'info' | 'spec'>('progress');
   const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
   const [listStatusFilter, setListStatusFilter] = useState<'all' | 'mapped' | 'missing'>('all');
-  const [baselineDate, setBaselineDate] = useState<string>("");
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [activeSnapshotId, setActiveSnapshotIdState] = useState<string | null>(null);
+
+  const [readingStatus, setReadingStatus] = useState<string | null>(null);
+  const [geocodeProgress, setGeocodeProgress] = useState<GeocodeProgress | null>(null);
+  // 진행 중인 백그라운드 지오코딩 (결과를 반영할 스냅샷과 함께)
+  const geocodeJobRef = useRef<{ queue: GeocodeQueue; snapshotId: string | null } | null>(null);
+  const [isGeocoderSettingsOpen, setIsGeocoderSettingsOpen] = useState(false);
+  const [isFixMode, setIsFixMode] = useState(false);
+  const [pickedPoint, setPickedPoint] = useState<GeoPoint | null>(null);
+  const [fixFocus, setFixFocus] = useState<[number, number] | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportSource[] | null>(null);
+  const [isDiffPanelOpen, setIsDiffPanelOpen] = useState(false);
+  const [diffBaseId, setDiffBaseId] = useState<string | null>(null);
+  const [diffBaseRows, setDiffBaseRows] = useState<ExcelRow[] | null>(null);
+  const [clusterEnabled, setClusterEnabled] = useState(true);
+  const [markerStyle, setMarkerStyle] = useState<MarkerStyle>('default');
+  const [showHeat, setShowHeat] = useState(false);
+  const [stageConfig, setStageConfig] = useState<StageConfig>(DEFAULT_STAGE_CONFIG);
+  const [selectedStage, setSelectedStage] = useState<string | null>(initialFilters.stage);
+  const [searchQuery, setSearchQuery] = useState(initialFilters.query);
+  const [facets, setFacets] = useState<Facets>(initialFilters.facets);
+  const [amountMin, setAmountMin] = useState<number | null>(initialFilters.amountMin);
+  const [amountMax, setAmountMax] = useState<number | null>(initialFilters.amountMax);
+  const [pendingProject, setPendingProject] = useState<string | null>(initialFilters.project);
+  const [isStageSettingsOpen, setIsStageSettingsOpen] = useState(false);
+  const [unitConfig, setUnitConfig] = useState<UnitConfig>(DEFAULT_UNIT_CONFIG);
+  const [isProductAnalyticsOpen, setIsProductAnalyticsOpen] = useState(false);
+  const [aliases, setAliases] = useState<CompanyAlias[]>([]);
+  const [notes, setNotes] = useState<ProjectNote[]>([]);
+  const [targets, setTargets] = useState<SpecTarget[]>([]);
+  const [targetKey, setTargetKey] = useState<TargetKey>(TOTAL_TARGET);
+  const [isTargetManagerOpen, setIsTargetManagerOpen] = useState(false);
+  const [qualityConfig, setQualityConfig] = useState<QualityConfig>(DEFAULT_QUALITY_CONFIG);
+  const [isQualityPanelOpen, setIsQualityPanelOpen] = useState(false);
+  const [isAliasManagerOpen, setIsAliasManagerOpen] = useState(false);
+  const [isCollaborationOpen, setIsCollaborationOpen] = useState(false);
+  const [regionBoundaries, setRegionBoundaries] = useState<RegionBoundaries | null>(null);
+  const [regionLayer, setRegionLayer] = useState<RegionLevel | null>(null);
+  const [regionMetric, setRegionMetric] = useState<RegionMetric>('amount');
+  const [regionRankLevel, setRegionRankLevel] = useState<RegionLevel>('sido');
+  const [spatialTool, setSpatialTool] = useState<SpatialTool | null>(null);
+  const [spatialSelection, setSpatialSelection] = useState<SpatialSelection | null>(initialFilters.spatial);
+  const [nearbyRadiusKm, setNearbyRadiusKm] = useState(5);
+  const [basemapConfig, setBasemapConfig] = useState<BasemapConfig>(DEFAULT_BASEMAP_CONFIG);
+  const [mbtilesSource, setMbtilesSource] = useState<MbtilesSource | null>(null);
+  const [isBasemapSettingsOpen, setIsBasemapSettingsOpen] = useState(false);
 
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [loadingStatus, setLoadingStatus] = useState("");
-  const [progress, setProgress] = useState(0);
+  // 불러온 행에 행정구역(시/도, 시/군/구)을 붙여 이후 필터/집계에서 일반 필드처럼 쓴다.
+  // 진행내용 보정도 여기서만 덮어쓰고 저장된 행(loadedData)에는 넣지 않는다.
+  const data = useMemo(() => applyProgressEdits(assignRegions(loadedData, regionBoundaries), notes), [loadedData, regionBoundaries, notes]);
+
+  // --- 데이터 품질 ---
+  // 데이터가 바뀔 때마다(가져오기, 스냅샷 전환, 보정) 규칙을 다시 검사한다.
+  const qualityReport = useMemo(() => runQualityChecks(data, qualityConfig.disabled, unitConfig.amountUnit), [data, qualityConfig.disabled, unitConfig.amountUnit]);
+  // 집계용 데이터: 제외를 켜면 제외 대상 규칙(기본: 오류 등급)에 걸린 행이 KPI·차트·지도·목표 실적에서 모두 빠진다.
+  const qualityExcludable = useMemo(() => flaggedIdsFor(qualityReport, qualityConfig.excludeRules), [qualityReport, qualityConfig.excludeRules]);
+  const kpiData = useMemo(() => {
+    const excluded = excludedRowIds(qualityReport, qualityConfig);
+    return excluded.size > 0 ? data.filter(d => !excluded.has(d.id)) : data;
+  }, [data, qualityReport, qualityConfig.excludeFlagged, qualityConfig.excludeRules]);
 
   useEffect(() => {
-    const now = new Date();
-    const formatted = `${now.getFullYear()}.${String(now.getMonth() + 1).padStart(2, '0')}.${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-    setBaselineDate(formatted);
-  }, [data]);
+    loadStageConfig().then(setStageConfig).catch(err => console.error("Stage config load error", err));
+    loadUnitConfig().then(setUnitConfig).catch(err => console.error("Unit config load error", err));
+    listAliases().then(setAliases).catch(err => console.error("Company alias load error", err));
+    listNotes().then(setNotes).catch(err => console.error("Project note load error", err));
+    loadRegionBoundaries().then(setRegionBoundaries).catch(err => console.error("Region boundary load error", err));
+    loadBasemapConfig().then(setBasemapConfig).catch(err => console.error("Basemap config load error", err));
+    loadQualityConfig().then(setQualityConfig).catch(err => console.error("Quality config load error", err));
+  }, []);
+
+  // MBTiles 배경지도는 해당 소스를 고를 때만 연다 (파일 전체를 메모리에 올리므로).
+  useEffect(() => {
+    if (basemapConfig.source !== 'mbtiles' || mbtilesSource) return;
+    let cancelled = false;
+    (async () => {
+      const stored = await loadMbtilesFile();
+      if (!stored) return;
+      const source = await openMbtiles(stored.name, stored.blob);
+      if (cancelled) source.close(); else setMbtilesSource(source);
+    })().catch(err => console.error("MBTiles open error", err));
+    return () => { cancelled = true; };
+  }, [basemapConfig.source, mbtilesSource]);
+
+  useEffect(() => () => mbtilesSource?.close(), [mbtilesSource]);
+
+  const saveBasemap = async (config: BasemapConfig) => {
+    await saveBasemapConfig(config);
+    setBasemapConfig(config);
+    setIsBasemapSettingsOpen(false);
+  };
+
+  const importMbtiles = async (file: File): Promise<string | null> => {
+    try {
+      const source = await openMbtiles(file.name, file);
+      await saveMbtilesFile(file);
+      setMbtilesSource(source);
+      return null;
+    } catch (err) {
+      console.error("MBTiles import error", err);
+      return err instanceof Error ? err.message : 'MBTiles 파일을 열 수 없습니다.';
+    }
+  };
+
+  const removeMbtiles = async () => {
+    await deleteMbtilesFile();
+    setMbtilesSource(null);
+  };
+
+  // 시작 시 마지막으로 사용한 스냅샷 복원
+  useEffect(() => {
+    (async () => {
+      try {
+        const list = await listSnapshots();
+        setSnapshots(list);
+        const savedId = await getActiveSnapshotId();
+        const target = list.find(s => s.id === savedId) || list[0];
+        if (target) await activateSnapshot(target.id, false);
+      } catch (err) {
+        console.error("Snapshot restore error", err);
+      }
+    })();
+  }, []);
+
+  const activeSnapshot = useMemo(() => snapshots.find(s => s.id === activeSnapshotId) || null, [snapshots, activeSnapshotId]);
+
+  // 스펙 목표는 데이터셋별로 저장된다.
+  useEffect(() => {
+    if (!activeSnapshotId) {
+      setTargets([]);
+      return;
+    }
+    loadTargets(activeSnapshotId).then(setTargets).catch(err => console.error("Target load error", err));
+  }, [activeSnapshotId]);
+  const baselineDate = activeSnapshot ? formatDateTime(activeSnapshot.importedAt) : "";
+
+  const resetFilters = () => {
+    setPeriodMode('month');
+    setSelectedYear(0);
+    setSelectedMonth(0);
+    setPeriodSub(0);
+    setRangeFrom(null);
+    setRangeTo(null);
+    setCompareYoY(false);
+    setSelectedStage(null);
+    setSearchQuery('');
+    setFacets(EMPTY_FACETS);
+    setAmountMin(null);
+    setAmountMax(null);
+    setSpatialSelection(null);
+  };
+
+  const activateSnapshot = async (id: string, reset = true) => {
+    const snap = await loadSnapshot(id);
+    if (!snap) return;
+    cancelGeocoding();
+    clearDiff();
+    setData(snap.rows);
+    if (reset) {
+      resetFilters();
+      setSelectedProject(null);
+      setIsPanelOpen(false);
+    }
+    setActiveSnapshotIdState(id);
+    await setActiveSnapshotId(id);
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    if (id === geocodeJobRef.current?.snapshotId) cancelGeocoding();
+    await deleteSnapshot(id);
+    const list = await listSnapshots();
+    setSnapshots(list);
+    if (id !== activeSnapshotId) return;
+    if (list[0]) {
+      await activateSnapshot(list[0].id);
+    } else {
+      setData([]);
+      setActiveSnapshotIdState(null);
+      await setActiveSnapshotId(null);
+    }
+  };
+
+  // --- 데이터셋 비교 ---
+  const diff = useMemo(() => (diffBaseRows ? diffDatasets(diffBaseRows, data) : null), [diffBaseRows, data]);
+
+  const changeDiffBase = async (id: string) => {
+    const snap = await loadSnapshot(id);
+    setDiffBaseId(snap ? id : null);
+    setDiffBaseRows(snap ? snap.rows : null);
+  };
+
+  const clearDiff = () => {
+    setDiffBaseId(null);
+    setDiffBaseRows(null);
+  };
+
+  const exportChangeLog = () => {
+    if (!diff) return;
+    const baseName = snapshots.find(s => s.id === diffBaseId)?.name || 'base';
+    downloadText(`change_log_${baseName.replace(/\.[^.]+$/, '')}_vs_${(activeSnapshot?.name || 'current').replace(/\.[^.]+$/, '')}.csv`, changeLogToCsv(diff.log), 'text/csv');
+  };
+
+  const commitData = async (rows: ExcelRow[], name: string): Promise<string | null> => {
+    clearDiff();
+    setData(rows);
+    resetFilters();
+    try {
+      const meta = await saveSnapshot(name, rows);
+      // 새로 올린 데이터셋도 직전 데이터셋의 목표를 이어받는다 (이후 데이터셋별로 따로 수정).
+      if (targets.length > 0) await saveTargets(meta.id, targets);
+      setSnapshots(await listSnapshots());
+      setActiveSnapshotIdState(meta.id);
+      await setActiveSnapshotId(meta.id);
+      return meta.id;
+    } catch (err) {
+      console.error("Snapshot save error", err);
+      return null;
+    }
+  };
 
   const stats = useMemo(() => {
     const years = Array.from(new Set(data.map(d => d.year))).sort((a: number, b: number) => a - b);
@@ -195,13 +386,150 @@ const App = () => {
     return Array.from(new Set(relevantData.map(d => d.month))).sort((a: number, b: number) => a - b);
   }, [data, selectedYear]);
 
+  const yearMonths = useMemo(() => Array.from(new Set(
+    data.filter(d => d.year && d.month >= 1 && d.month <= 12).map(d => toYm(d.year, d.month))
+  )).sort((a: number, b: number) => a - b), [data]);
+
+  // --- 기간 선택 (월/분기/반기/기간) ---
+  const periodSelection = useMemo<PeriodSelection>(() => ({
+    mode: periodMode, year: selectedYear, month: selectedMonth, sub: periodSub, from: rangeFrom, to: rangeTo,
+  }), [periodMode, selectedYear, selectedMonth, periodSub, rangeFrom, rangeTo]);
+
+  const changePeriod = (patch: Partial<PeriodSelection>) => {
+    if (patch.mode !== undefined) setPeriodMode(patch.mode);
+    if (patch.year !== undefined) setSelectedYear(patch.year);
+    if (patch.month !== undefined) setSelectedMonth(patch.month);
+    if (patch.sub !== undefined) setPeriodSub(patch.sub);
+    if (patch.from !== undefined) setRangeFrom(patch.from);
+    if (patch.to !== undefined) setRangeTo(patch.to);
+  };
+
+  const periodData = useMemo(() => kpiData.filter(periodMatcher(periodSelection)), [kpiData, periodSelection]);
+
+  const previousSelection = useMemo(() => (compareYoY ? previousYearSelection(periodSelection) : null), [compareYoY, periodSelection]);
+
+  // --- 파이프라인 단계 ---
+  const stageIndex = useMemo(() => buildStageIndex(data, stageConfig), [data, stageConfig]);
+  const stageOf = (progress: string) => stageIndex.get(progress) ?? classifyProgress(progress, stageConfig);
+  const stageDef = (id: string) => stageConfig.stages.find(s => s.id === id);
+
+  // 지도에서 그린 영역 (올가미/반경) - KPI/차트/순위 모두 영역 안 현장으로 집계된다.
+  const inSelection = useMemo(() => selectionMatcher(spatialSelection), [spatialSelection]);
+
+  // 기간/단계를 제외한 조건(검색/다중 필터/지도 영역) - 전년 동기 비교에도 같은 조건을 적용한다.
+  const attributeData = useMemo(() => kpiData.filter(d =>
+    matchesFacets(d, facets)
+    && matchesQuery(d, searchQuery)
+    && inSelection(d)
+  ), [kpiData, facets, searchQuery, inSelection]);
+
+  // 단계 필터는 깔때기/마커 색과 같이 행 하나가 아니라 현장의 최신 진행내용(groupProjects 기준) 단계로 거른다.
+  const projectStageMatcher = (rows: ExcelRow[]) => {
+    if (!selectedStage) return () => true;
+    const names = new Set(groupProjects(rows).filter(p => (stageIndex.get(p.progress) ?? UNCLASSIFIED) === selectedStage).map(p => p.name));
+    return (d: ExcelRow) => names.has(d.project_name);
+  };
+
+  // 선택 기간은 깔때기와 같은 기간 데이터로, 전년 동기는 그 기간의 최신 단계로, 추이는 전체 기간의 최신 단계로 판정한다.
+  const inStage = useMemo(() => projectStageMatcher(periodData), [periodData, selectedStage, stageIndex, stageConfig]);
+  const inPreviousStage = useMemo(
+    () => (previousSelection ? projectStageMatcher(kpiData.filter(periodMatcher(previousSelection))) : null),
+    [kpiData, previousSelection, selectedStage, stageIndex, stageConfig]
+  );
+  const inCurrentStage = useMemo(() => projectStageMatcher(kpiData), [kpiData, selectedStage, stageIndex, stageConfig]);
+
+  const trendData = useMemo(() => (selectedStage ? attributeData.filter(inCurrentStage) : attributeData), [attributeData, selectedStage, inCurrentStage, stageConfig]);
+
   const filteredData = useMemo(() => {
-    return data.filter(d => {
-      const yearMatch = selectedYear === 0 || d.year === selectedYear;
-      const monthMatch = selectedMonth === 0 || d.month === selectedMonth;
-      return yearMatch && monthMatch;
+    const inPeriod = periodMatcher(periodSelection);
+    return filterByProjectAmount(attributeData.filter(d => inPeriod(d) && inStage(d)), amountMin, amountMax);
+  }, [attributeData, periodSelection, inStage, amountMin, amountMax]);
+
+  const previousData = useMemo(() => {
+    if (!previousSelection || !inPreviousStage) return null;
+    const inPeriod = periodMatcher(previousSelection);
+    return filterByProjectAmount(attributeData.filter(d => inPeriod(d) && inPreviousStage(d)), amountMin, amountMax);
+  }, [attributeData, previousSelection, inPreviousStage, amountMin, amountMax]);
+
+  // --- 설계사 × 시공사 협업 ---
+  // 조합 선택이 설계사/시공사 필터로 들어가므로, 매트릭스는 그 두 필터를 뺀 나머지 조건으로 만든다.
+  const pairBaseData = useMemo(() => {
+    if (!isCollaborationOpen) return [];
+    const otherFacets = { ...facets, designer: [], constructor: [] };
+    const inPeriod = periodMatcher(periodSelection);
+    const rows = kpiData.filter(d =>
+      inPeriod(d)
+      && inStage(d)
+      && matchesFacets(d, otherFacets)
+      && matchesQuery(d, searchQuery)
+      && inSelection(d)
+    );
+    return filterByProjectAmount(rows, amountMin, amountMax);
+  }, [isCollaborationOpen, kpiData, periodSelection, inStage, facets, searchQuery, inSelection, amountMin, amountMax]);
+
+  const selectedPair = facets.designer.length === 1 && facets.constructor.length === 1
+    ? { designer: facets.designer[0], constructor: facets.constructor[0] }
+    : null;
+
+  const selectPair = (designer: string, constructor: string) => {
+    setFacets({ ...facets, designer: [designer], constructor: [constructor] });
+    setIsCollaborationOpen(false);
+  };
+
+  // --- 지역 집계 ---
+  const regionLayerTotals = useMemo(() => (regionLayer ? regionTotals(filteredData, regionLayer) : []), [filteredData, regionLayer]);
+  const regionRanking = useMemo(() => regionTotals(filteredData, regionRankLevel), [filteredData, regionRankLevel]);
+
+  const selectRegion = (level: RegionLevel, name: string) => {
+    if (name === '미확인') return;
+    setFacets({ ...facets, [level]: [name] });
+  };
+
+  // --- 검색 / 다중 필터 ---
+  const facetOptionsByKey = useMemo(() => Object.fromEntries(
+    (Object.keys(FACET_LABELS) as FacetKey[]).map(k => [k, facetOptions(periodData, k)])
+  ) as Record<FacetKey, { value: string; count: number }[]>, [periodData]);
+
+  const amountCeiling = useMemo(() => {
+    const totals: Record<string, number> = {};
+    periodData.forEach(d => { totals[d.project_name] = (totals[d.project_name] || 0) + d.spec_amount; });
+    // 현장 수가 많으면 Math.max(...) 전개가 호출 스택을 넘으므로 한 번 훑어 구한다.
+    let max = 1;
+    for (const t of Object.values(totals)) if (t > max) max = t;
+    return Math.ceil(max);
+  }, [periodData]);
+
+  const hasActiveFilters = !!(selectedYear || selectedMonth || periodMode !== 'month' || compareYoY || selectedStage || searchQuery.trim() || amountMin !== null || amountMax !== null
+    || (Object.values(facets) as string[][]).some(v => v.length > 0) || !!spatialSelection);
+
+  // 필터/선택 현장을 URL 에 반영해 링크 공유로 같은 화면을 열 수 있게 한다.
+  useEffect(() => {
+    const qs = encodeFilterState({
+      periodMode, year: selectedYear, month: selectedMonth, periodSub, rangeFrom, rangeTo, granularity, compare: compareYoY, stage: selectedStage, query: searchQuery, facets, amountMin, amountMax, spatial: spatialSelection,
+      project: isPanelOpen && selectedProject ? selectedProject.name : pendingProject,
     });
-  }, [data, selectedYear, selectedMonth]);
+    window.history.replaceState(null, '', qs ? `?${qs}` : window.location.pathname);
+  }, [periodMode, selectedYear, selectedMonth, periodSub, rangeFrom, rangeTo, granularity, compareYoY, selectedStage, searchQuery, facets, amountMin, amountMax, spatialSelection, isPanelOpen, selectedProject, pendingProject]);
+
+  const funnel = useMemo(() => buildFunnel(groupProjects(periodData), p => stageIndex.get(p) ?? UNCLASSIFIED, stageConfig), [periodData, stageIndex, stageConfig]);
+  const health = useMemo(() => pipelineHealth(funnel, stageConfig), [funnel, stageConfig]);
+
+  const progressTexts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    data.forEach(d => { counts[d.progress] = (counts[d.progress] || 0) + 1; });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([text, rows]) => ({ text, rows }));
+  }, [data]);
+
+  const handleSaveStageConfig = async (config: StageConfig) => {
+    setStageConfig(config);
+    setIsStageSettingsOpen(false);
+    await saveStageConfig(config);
+  };
+
+  const handleSaveUnitConfig = async (config: UnitConfig) => {
+    setUnitConfig(config);
+    await saveUnitConfig(config);
+  };
 
   const listData = useMemo(() => {
     if (listStatusFilter === 'all') return filteredData;
@@ -210,149 +538,374 @@ const App = () => {
     return filteredData;
   }, [filteredData, listStatusFilter]);
 
-  const summary = useMemo(() => {
-    const uniqueProjects = new Set(filteredData.map(d => d.project_name));
-    const totalSpec = filteredData.reduce((sum: number, d: ExcelRow) => sum + (Number(d.spec_amount) || 0), 0);
-    const consMap: Record<string, number> = {};
-    const desMap: Record<string, number> = {};
-
-    filteredData.forEach(d => {
-      const c = d.constructor && d.constructor !== '-' ? d.constructor : '기타';
-      const ds = d.designer && d.designer !== '-' ? d.designer : '기타';
-      consMap[c] = (consMap[c] || 0) + (Number(d.spec_amount) || 0);
-      desMap[ds] = (desMap[ds] || 0) + (Number(d.spec_amount) || 0);
-    });
-    
-    const top3Cons = Object.entries(consMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name, amount]) => ({ name, amount }));
-    const top3Des = Object.entries(desMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name, amount]) => ({ name, amount }));
-
-    return { siteCount: uniqueProjects.size, totalSpec, top3Cons, top3Des };
-  }, [filteredData]);
-
-  const trends = useMemo(() => {
-    const yearTrendMap: Record<number, number> = {};
-    data.forEach(d => { yearTrendMap[d.year] = (yearTrendMap[d.year] || 0) + d.spec_amount; });
-    const yearTrend = Object.entries(yearTrendMap).sort((a, b) => Number(a[0]) - Number(b[0])).map(([l, v]) => ({ label: `${l}년`, value: v }));
-
-    const monthTrendMap: Record<number, number> = {};
-    const yr = selectedYear === 0 ? (stats.years[stats.years.length-1] || 0) : selectedYear;
-    data.filter(d => d.year === yr).forEach(d => { monthTrendMap[d.month] = (monthTrendMap[d.month] || 0) + d.spec_amount; });
-    const monthTrend = Array.from({ length: 12 }, (_, i) => ({ label: `${i + 1}월`, value: monthTrendMap[i + 1] || 0 }));
-
-    const dMap: Record<string, number> = {};
-    filteredData.forEach(d => { 
-      const name = d.designer && d.designer !== '-' ? d.designer : '기타';
-      dMap[name] = (dMap[name] || 0) + d.spec_amount; 
+  const summary = useMemo(() => summarize(filteredData), [filteredData]);
+  const previousSummary = useMemo(() => (previousData ? summarize(previousData) : null), [previousData]);
+
+  // KPI 카드의 전년 동기 대비 증감
+  const kpiDeltas = useMemo(() => (previousSummary ? summaryDeltas(summary, previousSummary, unitConfig.amountUnit) : null), [summary, previousSummary, unitConfig.amountUnit]);
+
+  const periodWindow = useMemo(() => trendWindow(periodSelection, kpiData), [periodSelection, kpiData]);
+
+  // 추이 차트도 KPI 와 같은 검색/다중 필터/지도 영역/단계 조건을 따른다.
+  // 단계 필터가 있으면 전년 값은 전년 구간 기준 최신 단계로 다시 판정한 행에서 읽는다.
+  const previousTrendData = useMemo(() => {
+    if (!compareYoY || !selectedStage || !periodWindow) return trendData;
+    const window = shiftWindow(periodWindow, -12);
+    const inWindow = (d: ExcelRow) => { const ym = toYm(d.year, d.month); return ym >= window.from && ym <= window.to; };
+    return attributeData.filter(projectStageMatcher(kpiData.filter(inWindow)));
+  }, [compareYoY, selectedStage, periodWindow, trendData, attributeData, kpiData, stageIndex]);
+
+  const trends = useMemo(
+    () => buildTrends(trendData, summary, previousSummary, periodWindow, granularity, compareYoY, previousTrendData),
+    [trendData, previousTrendData, summary, previousSummary, periodWindow, granularity, compareYoY]
+  );
+
+  const groupedProjects = useMemo(() => groupProjects(filteredData), [filteredData]);
+
+  // --- 스펙 목표 / 달성률 ---
+  // 목표 대상(전체, 설계사, 시공사)의 실적은 다른 필터와 무관하게 전체 데이터에서 집계한다.
+  const availableTargetKeys = useMemo(() => targetKeys(targets), [targets]);
+  const activeTargetKey = availableTargetKeys.find(k => k.scope === targetKey.scope && k.name === targetKey.name) || availableTargetKeys[0] || TOTAL_TARGET;
+  const trackingYear = periodWindow ? fromYm(periodWindow.to).year : 0;
+
+  const targetTracking = useMemo(
+    () => (trackingYear ? buildTargetTracking(kpiData, targets, activeTargetKey, trackingYear) : null),
+    [kpiData, targets, activeTargetKey.scope, activeTargetKey.name, trackingYear]
+  );
+
+  // 선택 기간의 목표 대비 실적 (KPI 카드)
+  const periodTarget = useMemo(() => {
+    const window = selectionWindow(periodSelection);
+    const target = window ? windowTarget(targets, activeTargetKey, window) : null;
+    if (!target) return null;
+    const inScope = scopeMatcher(activeTargetKey);
+    const inPeriod = periodMatcher(periodSelection);
+    const actual = kpiData.reduce((sum, d) => (inScope(d) && inPeriod(d) ? sum + d.spec_amount : sum), 0);
+    return { target, actual, pct: (actual / target) * 100 };
+  }, [kpiData, targets, activeTargetKey.scope, activeTargetKey.name, periodSelection]);
+
+  // 월별 추이가 목표 연도 1~12월을 그릴 때만 누적 선을 겹친다.
+  const targetLines = useMemo(() => {
+    if (!targetTracking || granularity !== 'month' || !periodWindow) return undefined;
+    if (periodWindow.from !== toYm(targetTracking.year, 1) || periodWindow.to !== toYm(targetTracking.year, 12)) return undefined;
+    const series = cumulativeSeries(targetTracking);
+    return [
+      { label: '누적 실적', values: series.actual, color: '#0f172a' },
+      { label: '누적 목표', values: series.target, color: '#f59e0b' },
+      { label: '예상', values: series.forecast, color: '#64748b', dashed: true },
+    ];
+  }, [targetTracking, granularity, periodWindow]);
+
+  const updateQualityConfig = (config: QualityConfig) => {
+    setQualityConfig(config);
+    saveQualityConfig(config).catch(err => console.error("Quality config save error", err));
+  };
+
+  const exportQualityIssues = () => {
+    downloadText(`quality_issues_${Date.now()}.csv`, qualityIssuesToCsv(qualityReport.issues), 'text/csv');
+  };
+
+  // 품질 상세에서는 필터와 무관하게 전체 데이터의 현장을 연다.
+  const openQualityProject = (name: string) => {
+    const project = groupProjects(data.filter(d => d.project_name === name))[0];
+    if (!project) return;
+    setIsQualityPanelOpen(false);
+    setSelectedProject(project);
+    setIsPanelOpen(true);
+  };
+
+  const saveSpecTargets = async (next: SpecTarget[]) => {
+    if (!activeSnapshotId) return;
+    await saveTargets(activeSnapshotId, next);
+    setTargets(next);
+    setIsTargetManagerOpen(false);
+  };
+
+  const companyNames = useMemo(() => {
+    if (!isTargetManagerOpen) return { designers: [], constructors: [] };
+    const names = (key: 'designer' | 'constructor') => Array.from(new Set(data.map(d => d[key]).filter(v => v && v !== '-'))).sort();
+    return { designers: names('designer'), constructors: names('constructor') };
+  }, [data, isTargetManagerOpen]);
+
+  const openProjectByName = (name: string) => {
+    const p = groupedProjects.find(gp => gp.name === name);
+    if (p) {
+      setSelectedProject(p);
+      setIsPanelOpen(true);
+    }
+  };
+
+  // --- 현장 이력 (기간 필터와 무관하게 전체 연-월) ---
+  const projectHistory = useMemo(
+    () => (isPanelOpen && selectedProject ? buildProjectHistory(data.filter(d => d.project_name === selectedProject.name)) : []),
+    [isPanelOpen, selectedProject?.name, data]
+  );
+
+  // --- 현장 메모 / 진행내용 보정 ---
+  const noteByProject = useMemo(() => new Map(notes.map(n => [n.projectName, n])), [notes]);
+  const editedProjects = useMemo(() => new Set(notes.filter(hasNoteContent).map(n => n.projectName)), [notes]);
+
+  const originalProgress = useMemo(
+    () => (isPanelOpen && selectedProject ? latestRow(loadedData.filter(d => d.project_name === selectedProject.name))?.progress || '' : ''),
+    [isPanelOpen, selectedProject?.name, loadedData]
+  );
+
+  const saveProjectNote = async (draft: NoteDraft) => {
+    if (!selectedProject) return;
+    const note = await putNote(selectedProject.name, draft, noteByProject.get(selectedProject.name));
+    setNotes(prev => [note, ...prev.filter(n => n.projectName !== note.projectName)]);
+    setSelectedProject({ ...selectedProject, progress: note.progress || originalProgress });
+  };
+
+  // 원본 통합 문서에 메모 컬럼을 붙여 같은 형식으로 내려받는다.
+  const writeBackWorkbook = async (file: File) => {
+    try {
+      const { sheets, matchedRows } = await exportWriteBack(file, notes);
+      if (sheets === 0) alert(`'${file.name}' 에서 현장명 컬럼을 찾지 못했습니다.`);
+      else if (matchedRows === 0) alert('메모가 있는 현장과 일치하는 행이 없습니다. 메모 컬럼만 추가했습니다.');
+    } catch (err) {
+      console.error("Write-back error", err);
+      alert(`'${file.name}' 파일에 메모를 병합할 수 없습니다.\n${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  // --- 주변 현장 (필터와 무관하게 저장된 좌표 기준) ---
+  const allProjects = useMemo(() => (isPanelOpen ? groupProjects(data) : []), [isPanelOpen, data]);
+  const nearby = useMemo(
+    () => (selectedProject ? nearbyProjects(allProjects, selectedProject, nearbyRadiusKm) : []),
+    [allProjects, selectedProject, nearbyRadiusKm]
+  );
+
+  const selectAroundProject = (project: GroupedProject, radiusKm: number) => {
+    if (!project.latitude || !project.longitude) return;
+    setSpatialSelection({ kind: 'radius', center: { lat: project.latitude, lon: project.longitude }, radiusKm });
+    setIsPanelOpen(false);
+  };
+
+  useEffect(() => {
+    if (!pendingProject || data.length === 0) return;
+    const p = groupedProjects.find(gp => gp.name === pendingProject);
+    if (p) {
+      setSelectedProject(p);
+      setIsPanelOpen(true);
+    }
+    setPendingProject(null);
+  }, [pendingProject, data, groupedProjects]);
+
+  // --- 지도 레이어 ---
+  const markerColorScale = useMemo(() => {
+    if (markerStyle === 'progress') {
+      const legend = [...stageConfig.stages.map(st => ({ label: st.label, color: st.color })), { label: '미분류', color: OTHER_COLOR }];
+      return { colorOf: (p: GroupedProject) => stageDef(stageOf(p.progress))?.color || OTHER_COLOR, legend };
+    }
+    if (markerStyle === 'constructor') return buildColorScale(groupedProjects, p => companyName(p.constructor));
+    return null;
+  }, [groupedProjects, markerStyle, stageIndex, stageConfig]);
+
+  const maxProjectAmount = useMemo(() => Math.max(...groupedProjects.map(p => p.totalAmount), 1), [groupedProjects]);
+
+  const heatPoints = useMemo(() => groupedProjects
+    .filter(p => p.latitude && p.longitude)
+    .map(p => ({ lat: p.latitude!, lon: p.longitude!, weight: p.totalAmount })), [groupedProjects]);
+
+  const exportBaseName = `dc_spec_${periodFileTag(periodSelection)}`;
+
+  // --- 인쇄용 보고서 ---
+  const stageBadge = (p: GroupedProject) => {
+    const st = stageDef(stageOf(p.progress));
+    return st ? { label: st.label, color: st.color } : null;
+  };
+
+  const activeFilterLabels = () => [
+    selectedStage ? `단계: ${selectedStage === UNCLASSIFIED ? '미분류' : stageDef(selectedStage)?.label || selectedStage}` : '',
+    searchQuery.trim() ? `검색: "${searchQuery.trim()}"` : '',
+    ...(Object.keys(FACET_LABELS) as FacetKey[]).filter(k => facets[k].length > 0).map(k => `${FACET_LABELS[k]}: ${facets[k].map(v => (v === '-' ? '기타' : v)).join(', ')}`),
+    amountMin !== null || amountMax !== null ? `현장 스펙량: ${amountMin ?? 0} ~ ${amountMax ?? '∞'}` : '',
+    spatialSelection ? `지도 영역: ${describeSelection(spatialSelection)}` : '',
+  ].filter(Boolean);
+
+  const printDashboardReport = () => {
+    const period = describePeriod(periodSelection);
+    const body = buildDashboardReport({
+      title: `DC Spec 브리핑 · ${period}`,
+      subtitle: `데이터 기준일 ${baselineDate || '-'}${activeSnapshot ? ` (${activeSnapshot.name})` : ''} · 출력 ${formatDateTime(Date.now())}${previousSelection ? ` · 비교: ${describePeriod(previousSelection)}` : ''}`,
+      filters: activeFilterLabels(),
+      kpis: [
+        { label: '스펙 현장 수', value: summary.siteCount.toLocaleString(), unit: '개소', delta: kpiDeltas?.[0] },
+        { label: '총 스펙 집계', value: summary.totalSpec.toLocaleString(), unit: unitConfig.amountUnit, delta: kpiDeltas?.[1] },
+        { label: '리딩 시공사', value: summary.top3Cons[0]?.name || '-', unit: `${(summary.top3Cons[0]?.amount || 0).toLocaleString()}${unitConfig.amountUnit}`, delta: kpiDeltas?.[2] },
+        { label: '리딩 설계사', value: summary.top3Des[0]?.name || '-', unit: `${(summary.top3Des[0]?.amount || 0).toLocaleString()}${unitConfig.amountUnit}`, delta: kpiDeltas?.[3] },
+      ],
+      trends: [
+        { title: '연도별 설계물량 추이', data: trends.yearTrend, compare: trends.yearCompare, color: '#6366f1', suffix: unitConfig.amountUnit },
+        { title: `${GRANULARITY_LABELS[granularity]} 설계물량 추이`, data: trends.periodTrend, compare: trends.periodCompare, color: '#10b981', suffix: unitConfig.amountUnit },
+        { title: '설계사별 설계물량 추이', data: trends.designerTrend, compare: trends.designerCompare, color: '#ec4899', suffix: unitConfig.amountUnit },
+      ],
+      rankings: [
+        { title: '시공사 순위', rows: rankBy(filteredData, 'constructor').slice(0, 10) },
+        { title: '설계사 순위', rows: rankBy(filteredData, 'designer').slice(0, 10) },
+      ],
+      mapSvg: siteMapSvg(groupedProjects, p => stageBadge(p)?.color || OTHER_COLOR, regionBoundaries?.sido),
+      legend: [...stageConfig.stages.map(st => ({ label: st.label, color: st.color })), { label: '미분류', color: OTHER_COLOR }],
+      projects: groupedProjects,
+      stageLabel: stageBadge,
+      amountUnit: unitConfig.amountUnit,
     });
-    const designerTrend = Object.entries(dMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([l, v]) => ({ label: l, value: v }));
-
-    return { yearTrend, monthTrend, designerTrend };
-  }, [data, filteredData, selectedYear, stats.years]);
-
-  const groupedProjects = useMemo(() => {
-    const groups: Record<string, GroupedProject> = {};
-    filteredData.forEach(d => {
-      if (!groups[d.project_name]) {
-        groups[d.project_name] = {
-          name: d.project_name, address: d.address, latitude: d.latitude, longitude: d.longitude,
-          designer: d.designer, constructor: d.constructor, progress: d.progress, specs: [], totalAmount: 0
-        };
-      }
-      groups[d.project_name].specs.push({ product: d.product_name, quantity: d.quantity, amount: d.spec_amount });
-      groups[d.project_name].totalAmount += d.spec_amount;
+    openPrintWindow(`DC Spec 브리핑 · ${period}`, body);
+  };
+
+  const printProjectSheet = (project: GroupedProject) => {
+    const body = buildProjectSheet({
+      project,
+      stage: stageBadge(project),
+      history: buildProjectHistory(data.filter(d => d.project_name === project.name)),
+      amountUnit: unitConfig.amountUnit,
+      unitsOf: (product) => unitsFor(product, unitConfig),
+      generatedAt: formatDateTime(Date.now()),
     });
-    return Object.values(groups);
-  }, [filteredData]);
+    openPrintWindow(`현장 시트 · ${project.name}`, body);
+  };
 
   const projectsWithNoCoords = useMemo(() => {
     return groupedProjects.filter(p => !p.latitude || !p.longitude);
   }, [groupedProjects]);
 
-  const processAndSaveData = async (rawData: ExcelRow[]) => {
-    setIsProcessing(true);
-    setLoadingStatus("데이터 분석 중...");
-    setProgress(5);
+  // 다른 데이터셋으로 바꾸면 진행 중인 변환을 멈춘다 (그때까지의 결과는 원래 스냅샷에 저장된다).
+  const cancelGeocoding = () => {
+    geocodeJobRef.current?.queue.cancel();
+    geocodeJobRef.current = null;
+  };
+
+  // 좌표가 있는 행으로 바로 대시보드를 열고, 주소 변환은 뒤에서 진행하며 결과가 나오는 대로 지도에 반영한다.
+  const processAndSaveData = async (parsedData: ExcelRow[], sourceName: string) => {
+    cancelGeocoding();
+    const rawData = applyAliases(applyOverrides(parsedData, await listOverrides()), await listAliases());
+    const snapshotId = await commitData(rawData, sourceName);
     const rowsToGeocode = rawData.filter(d => (!d.latitude || !d.longitude) && d.address && d.address !== '-' && d.address.length > 5);
-    if (rowsToGeocode.length === 0) {
-      setData(rawData);
-      setProgress(100);
-      setTimeout(() => setIsProcessing(false), 500);
+    if (rowsToGeocode.length === 0) return;
+    const uniqueAddresses = Array.from(new Set(rowsToGeocode.map(d => d.address)));
+    const provider = await createProvider(await loadGeocoderConfig());
+    const job = {
+      snapshotId,
+      queue: createGeocodeQueue(uniqueAddresses, provider, {
+        onProgress: setGeocodeProgress,
+        onResults: (batch) => {
+          if (geocodeJobRef.current === job) setData(prev => applyGeocodeResults(prev, batch));
+        },
+      }),
+    };
+    geocodeJobRef.current = job;
+    let results: Record<string, GeoPoint>;
+    try {
+      results = await job.queue.finished;
+    } catch (err) {
+      // 중단 사유는 큐가 진행 표시에 남긴다. 그때까지 반영된 좌표는 화면에만 유지된다.
+      console.error("Geocode queue error", err);
       return;
+    } finally {
+      if (geocodeJobRef.current === job) geocodeJobRef.current = null;
     }
-    const uniqueAddresses = Array.from(new Set(rowsToGeocode.map(d => d.address)));
-    const geoCache: Record<string, {lat: number, lon: number}> = {};
-    for (let i = 0; i < uniqueAddresses.length; i++) {
-      const addr = uniqueAddresses[i];
-      setLoadingStatus(`주소를 지도 좌표로 변환 중... (${i + 1}/${uniqueAddresses.length})`);
-      setProgress(Math.round((i / uniqueAddresses.length) * 90) + 5);
-      const coords = await geocodeAddress(addr);
-      if (coords) geoCache[addr] = coords;
-      await new Promise(r => setTimeout(r, 1100));
+    if (!snapshotId || Object.keys(results).length === 0) return;
+    try {
+      const snap = await loadSnapshot(snapshotId);
+      if (snap) await updateSnapshotRows(snapshotId, applyGeocodeResults(snap.rows, results));
+    } catch (err) {
+      console.error("Snapshot geocode save error", err);
     }
-    const finalData = rawData.map(d => {
-      if ((!d.latitude || !d.longitude) && geoCache[d.address]) {
-        return { ...d, latitude: geoCache[d.address].lat, longitude: geoCache[d.address].lon };
-      }
-      return d;
+  };
+
+  // 백그라운드 지오코딩이 배치를 계속 반영하므로, 렌더 시점의 loadedData 가 아니라 최신 상태에 변경을 적용하고
+  // 그 결과를 그대로 돌려받아 스냅샷에 저장한다.
+  const updateData = (update: (rows: ExcelRow[]) => ExcelRow[]) => new Promise<ExcelRow[]>(resolve => {
+    setData(prev => {
+      const next = update(prev);
+      resolve(next);
+      return next;
+    });
+  });
+
+  // 수동 보정 좌표 저장: 오버라이드 등록 후 현재 데이터와 활성 스냅샷에 즉시 반영
+  const applyCoordOverride = async (projectName: string, point: GeoPoint, address?: string) => {
+    const override = await putOverride(projectName, point, address);
+    const nextData = await updateData(prev => applyOverrides(prev, [override]));
+    setPickedPoint(null);
+    if (selectedProject?.name === projectName) {
+      setSelectedProject({ ...selectedProject, latitude: point.lat, longitude: point.lon, address: address || selectedProject.address });
+    }
+    if (activeSnapshotId) await updateSnapshotRows(activeSnapshotId, nextData);
+  };
+
+  const exportOverrides = async () => {
+    downloadText(`coord_overrides_${Date.now()}.csv`, overridesToCsv(await listOverrides()), 'text/csv');
+  };
+
+  // --- 업체명 사전 ---
+  const companyCounts = useMemo(() => {
+    if (!isAliasManagerOpen) return [];
+    const counts: Record<string, number> = {};
+    data.forEach(d => {
+      [d.designer, d.constructor].forEach(name => { if (name && name !== '-') counts[name] = (counts[name] || 0) + 1; });
     });
-    setData(finalData);
-    setLoadingStatus("완료되었습니다.");
-    setProgress(100);
-    setTimeout(() => setIsProcessing(false), 800);
-  };
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    setIsProcessing(true);
-    const reader = new FileReader();
-    reader.onload = (evt) => {
+    return Object.entries(counts).map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+  }, [data, isAliasManagerOpen]);
+
+  const addAlias = async (alias: string, canonical: string) => {
+    await putAlias(alias, canonical);
+    setAliases(await listAliases());
+  };
+
+  const removeAlias = async (alias: string) => {
+    await deleteAlias(alias);
+    setAliases(await listAliases());
+  };
+
+  const exportAliases = () => {
+    downloadText(`company_aliases_${Date.now()}.csv`, aliasesToCsv(aliases), 'text/csv');
+  };
+
+  // 이미 불러온 스냅샷에도 사전을 다시 적용해 대표명으로 맞춘다.
+  const applyAliasesToData = async () => {
+    const nextData = await updateData(prev => applyAliases(prev, aliases));
+    const resolve = buildAliasResolver(aliases);
+    if (selectedProject) {
+      setSelectedProject({ ...selectedProject, designer: resolve(selectedProject.designer), constructor: resolve(selectedProject.constructor) });
+    }
+    if (activeSnapshotId) await updateSnapshotRows(activeSnapshotId, nextData);
+  };
+
+  const closeFixMode = () => {
+    setIsFixMode(false);
+    setPickedPoint(null);
+    setFixFocus(null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+    const sources: ImportSource[] = [];
+    for (const [i, file] of files.entries()) {
+      setReadingStatus(`'${file.name}' 읽는 중...${files.length > 1 ? ` (${i + 1}/${files.length})` : ''}`);
       try {
-        const b = evt.target?.result;
-        const wb = XLSX.read(b, { type: 'array' });
-        const json: any[] = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]);
-        const parsed: ExcelRow[] = json.map((row, idx) => ({
-          id: `row-${idx}`,
-          project_name: String(getVal(row, ['project_name', '프로젝트명', '현장명', 'PJT', 'project']) || ''),
-          year: parseNum(getVal(row, ['year', '연도', '년', '년도'])),
-          month: parseNum(getVal(row, ['month', '월'])),
-          progress: String(getVal(row, ['progress', '진행내용', '상태', 'status']) || '-'),
-          address: String(getVal(row, ['address', '주소', '상세주소', 'addr']) || '-'),
-          latitude: parseFloat(String(getVal(row, ['latitude', '위도', 'lat', 'y', 'latitude_val']) || '')) || null,
-          longitude: parseFloat(String(getVal(row, ['longitude', '경도', 'lng', 'long', 'x', 'longitude_val']) || '')) || null,
-          designer: String(getVal(row, ['designer', '설계사', '설계']) || '-'),
-          constructor: String(getVal(row, ['constructor', '건설사', '시공사', '시공']) || '-'),
-          product_name: String(getVal(row, ['product_name', '제품명', '품명']) || '-'),
-          quantity: parseNum(getVal(row, ['quantity', '물량', '수량'])),
-          spec_amount: parseNum(getVal(row, ['spec_amount', '스펙량', '스펙', '합계', 'amount'])),
-        })).filter(r => r.project_name);
-        processAndSaveData(parsed);
+        sources.push(...await readImportFile(file));
       } catch (err) {
-        console.error("Excel processing error", err);
-        setIsProcessing(false);
+        console.error("File read error", file.name, err);
+        alert(`'${file.name}' 파일을 읽을 수 없습니다.\n${err instanceof Error ? err.message : ''}`);
       }
-    };
-    reader.readAsArrayBuffer(file);
+    }
+    setReadingStatus(null);
+    if (sources.length > 0) setPendingImport(sources);
   };
 
   return (
     <div className="min-h-screen flex flex-col h-screen overflow-hidden bg-[#f0f4f8]">
-      {isProcessing && (
-        <div className="fixed inset-0 bg-slate-900/90 backdrop-blur-xl z-[5000] flex flex-col items-center justify-center p-8 animate-in fade-in duration-300">
-          <div className="max-w-lg w-full">
-            <div className="flex justify-center mb-8">
-              <div className="bg-indigo-500/20 p-6 rounded-3xl border border-indigo-500/30">
-                <Activity className="w-12 h-12 text-indigo-400 animate-pulse" />
-              </div>
-            </div>
-            <h2 className="text-3xl font-black text-white text-center mb-4 tracking-tighter">데이터 처리 중</h2>
-            <p className="text-slate-400 text-center mb-12 font-medium">{loadingStatus}</p>
-            <div className="overflow-hidden h-4 mb-4 text-xs flex rounded-full bg-slate-800 border border-slate-700">
-              <div style={{ width: `${progress}%` }} className="flex flex-col text-center whitespace-nowrap text-white justify-center bg-indigo-600 transition-all duration-500 rounded-full"></div>
-            </div>
-          </div>
-        </div>
-      )}
+      <TaskProgress
+        reading={readingStatus}
+        geocode={geocodeProgress}
+        onPause={() => geocodeJobRef.current?.queue.pause()}
+        onResume={() => geocodeJobRef.current?.queue.resume()}
+        onCancel={() => geocodeJobRef.current?.queue.cancel()}
+        onDismiss={() => setGeocodeProgress(null)}
+      />
 
       {/* HEADER */}
       <header className="bg-white border-b border-slate-200 px-8 py-4 flex items-center justify-between z-30 shadow-sm shrink-0">
@@ -363,37 +916,117 @@ const App = () => {
           <h1 className="text-xl font-black text-slate-800 tracking-tight">DC Spec Dashboard <span className="text-indigo-600 ml-1">v1.2</span></h1>
         </div>
         <div className="flex items-center gap-6">
+          <SnapshotMenu snapshots={snapshots} activeId={activeSnapshotId} onSelect={activateSnapshot} onDelete={handleDeleteSnapshot} />
           <div className="flex items-center gap-2 bg-slate-100 p-1 rounded-xl border border-slate-200 shadow-inner">
-            <select className="bg-transparent text-xs font-black focus:outline-none text-slate-700 cursor-pointer px-3 py-1.5" value={selectedYear} onChange={(e) => setSelectedYear(Number(e.target.value))}>
-              <option value={0}>연도 전체</option>
-              {stats.years.map(y => <option key={y} value={y}>{y}년</option>)}
-            </select>
-            <select className="bg-transparent text-xs font-black focus:outline-none text-slate-700 cursor-pointer px-3 py-1.5 border-l border-slate-200" value={selectedMonth} onChange={(e) => setSelectedMonth(Number(e.target.value))}>
-              <option value={0}>월 전체</option>
-              {availableMonths.map(m => <option key={m} value={m}>{m}월</option>)}
+            <PeriodPicker selection={periodSelection} years={stats.years} months={availableMonths} yearMonths={yearMonths} onChange={changePeriod} />
+            <select className="bg-transparent text-xs font-black focus:outline-none text-slate-700 cursor-pointer px-3 py-1.5 border-l border-slate-200" value={selectedStage || ''} onChange={(e) => setSelectedStage(e.target.value || null)}>
+              <option value="">단계 전체</option>
+              {stageConfig.stages.map(st => <option key={st.id} value={st.id}>{st.label}</option>)}
+              <option value={UNCLASSIFIED}>미분류</option>
             </select>
           </div>
+          <TrendOptions
+            granularity={granularity}
+            compare={compareYoY}
+            canCompare={!!previousYearSelection(periodSelection)}
+            onGranularityChange={setGranularity}
+            onCompareChange={setCompareYoY}
+          />
           <div className="flex items-center gap-2 text-slate-400 font-bold text-[10px] bg-white px-3 py-2 rounded-xl border border-slate-100 shadow-sm">
             <Clock className="w-3.5 h-3.5" />
             데이터 기준일: <span className="text-slate-600">{baselineDate || 'YYYY.MM.DD HH:mm'}</span>
           </div>
+          <button
+            onClick={() => setIsDiffPanelOpen(true)}
+            disabled={snapshots.length < 2}
+            title="데이터셋 비교"
+            className={`p-2.5 rounded-xl border shadow-sm transition-all disabled:opacity-40 ${diff ? 'border-indigo-300 bg-indigo-50 text-indigo-600' : 'border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50'}`}
+          >
+            <GitCompare className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsProductAnalyticsOpen(true)}
+            disabled={data.length === 0}
+            title="제품 분석"
+            className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all disabled:opacity-40"
+          >
+            <Package className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsCollaborationOpen(true)}
+            disabled={data.length === 0}
+            title="설계사 × 시공사 협업"
+            className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all disabled:opacity-40"
+          >
+            <Handshake className="w-4 h-4" />
+          </button>
+          <ExportMenu rows={filteredData} projects={groupedProjects} baseName={exportBaseName} amountUnit={unitConfig.amountUnit} onPrintReport={printDashboardReport} onWriteBack={writeBackWorkbook} />
+          <button onClick={() => setIsQualityPanelOpen(true)} disabled={data.length === 0} title="데이터 품질" className="relative p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all disabled:opacity-40">
+            <ShieldAlert className={`w-4 h-4 ${qualityReport.flaggedIds.size > 0 ? 'text-amber-500' : ''}`} />
+            {qualityReport.flaggedIds.size > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center">
+                {qualityReport.flaggedIds.size > 999 ? '999+' : qualityReport.flaggedIds.size}
+              </span>
+            )}
+          </button>
+          <button onClick={() => setIsAliasManagerOpen(true)} title="업체명 사전" className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all">
+            <BookMarked className="w-4 h-4" />
+          </button>
+          <button onClick={() => setIsBasemapSettingsOpen(true)} title="배경지도 설정" className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all">
+            <Layers className="w-4 h-4" />
+          </button>
+          <button onClick={() => setIsGeocoderSettingsOpen(true)} title="지오코딩 설정" className="p-2.5 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-slate-800 hover:bg-slate-50 shadow-sm transition-all">
+            <Settings className="w-4 h-4" />
+          </button>
           <label className="cursor-pointer bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl text-xs font-black flex items-center gap-2 transition-all shadow-lg active:scale-95 group">
             <FileSpreadsheet className="w-4 h-4 text-emerald-400" /> 데이터 업로드
-            <input type="file" accept=".xlsx, .xls" className="hidden" onChange={handleFileUpload} />
+            <input type="file" accept={ACCEPTED_EXTENSIONS} multiple className="hidden" onChange={async (e) => { await handleFileUpload(e); e.target.value = ''; }} />
           </label>
         </div>
       </header>
 
       {/* MAIN BODY */}
       <main className="flex-1 p-8 flex flex-col gap-6 overflow-hidden min-h-0">
+        <FilterBar
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          facets={facets}
+          facetOptions={facetOptionsByKey}
+          onFacetsChange={setFacets}
+          amountMin={amountMin}
+          amountMax={amountMax}
+          amountCeiling={amountCeiling}
+          amountUnit={unitConfig.amountUnit}
+          onAmountChange={(min, max) => { setAmountMin(min); setAmountMax(max); }}
+          hasActiveFilters={hasActiveFilters}
+          onReset={resetFilters}
+        />
+
+        {qualityReport.flaggedIds.size > 0 && (
+          <div className="flex items-center gap-3 bg-amber-50/60 border border-amber-100 rounded-xl px-4 py-2 shrink-0 text-[11px] font-bold text-amber-700">
+            <ShieldAlert className="w-4 h-4 text-amber-500 shrink-0" />
+            <span>품질 규칙에 걸린 행 {qualityReport.flaggedIds.size.toLocaleString()}건 ({qualityReport.issues.length.toLocaleString()}건 발견)</span>
+            <button onClick={() => setIsQualityPanelOpen(true)} className="underline underline-offset-2 hover:text-amber-900">자세히</button>
+            <label className="ml-auto flex items-center gap-2 cursor-pointer text-slate-600">
+              <input type="checkbox" checked={qualityConfig.excludeFlagged} onChange={(e) => updateQualityConfig({ ...qualityConfig, excludeFlagged: e.target.checked })} />
+              제외 대상 {qualityExcludable.size.toLocaleString()}행을 KPI 집계에서 빼기
+            </label>
+          </div>
+        )}
+
         <div className="grid grid-cols-4 gap-6 shrink-0">
           {[
             { label: "스펙 현장 수", val: summary.siteCount, unit: "개소", icon: Building2, color: "text-blue-600", bg: "bg-blue-50" },
-            { label: "총 스펙 집계", val: summary.totalSpec.toLocaleString(), unit: "Ton", icon: HardDrive, color: "text-emerald-600", bg: "bg-emerald-50" },
-            { label: "리딩 시공사", val: summary.top3Cons[0]?.name || "-", unit: `${(summary.top3Cons[0]?.amount || 0).toLocaleString()}T`, icon: Trophy, color: "text-amber-600", bg: "bg-amber-50" },
-            { label: "리딩 설계사", val: summary.top3Des[0]?.name || "-", unit: `${(summary.top3Des[0]?.amount || 0).toLocaleString()}T`, icon: Palette, color: "text-indigo-600", bg: "bg-indigo-50" }
+            { label: "총 스펙 집계", val: summary.totalSpec.toLocaleString(), unit: unitConfig.amountUnit, icon: HardDrive, color: "text-emerald-600", bg: "bg-emerald-50" },
+            { label: "리딩 시공사", val: summary.top3Cons[0]?.name || "-", unit: `${(summary.top3Cons[0]?.amount || 0).toLocaleString()}${unitConfig.amountUnit}`, icon: Trophy, color: "text-amber-600", bg: "bg-amber-50" },
+            { label: "리딩 설계사", val: summary.top3Des[0]?.name || "-", unit: `${(summary.top3Des[0]?.amount || 0).toLocaleString()}${unitConfig.amountUnit}`, icon: Palette, color: "text-indigo-600", bg: "bg-indigo-50" }
           ].map((k, i) => (
-            <div key={i} className="bg-white rounded-[1.5rem] p-6 flex items-center gap-5 shadow-sm border border-slate-100">
+            <div key={i} className={`bg-white rounded-[1.5rem] p-6 flex items-center gap-5 shadow-sm border relative ${HEALTH_STYLES[health.health].card}`}>
+              {i === 0 && health.health !== 'none' && (
+                <span className={`absolute top-3 right-4 text-[8px] font-black px-1.5 py-0.5 rounded-md border ${HEALTH_STYLES[health.health].badge}`}>
+                  파이프라인 {HEALTH_STYLES[health.health].label} · {stageDef(stageConfig.lostStageId)?.label ?? '실주'} {Math.round(health.lostShare * 100)}%
+                </span>
+              )}
               <div className={`${k.bg} p-4 rounded-2xl ${k.color}`}><k.icon className="w-7 h-7" /></div>
               <div className="flex-1 overflow-hidden">
                 <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{k.label}</p>
@@ -401,6 +1034,16 @@ const App = () => {
                   <span className="text-2xl font-black text-slate-800 truncate">{k.val}</span>
                   <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap">{k.unit}</span>
                 </div>
+                {i === 1 && periodTarget && (
+                  <p className="text-[9px] font-black mt-1 truncate text-slate-500 cursor-pointer hover:text-slate-700" onClick={() => setIsTargetManagerOpen(true)} title={`${targetKeyLabel(activeTargetKey)} 목표 ${Math.round(periodTarget.target).toLocaleString()}${unitConfig.amountUnit} / 실적 ${Math.round(periodTarget.actual).toLocaleString()}${unitConfig.amountUnit}`}>
+                    목표 대비 <span className={periodTarget.pct >= 100 ? 'text-emerald-600' : 'text-amber-600'}>{periodTarget.pct.toFixed(1)}%</span> · 목표 {Math.round(periodTarget.target).toLocaleString()}{unitConfig.amountUnit}
+                  </p>
+                )}
+                {kpiDeltas?.[i] && (
+                  <p className={`text-[9px] font-black mt-1 truncate ${kpiDeltas[i]!.startsWith('-') ? 'text-red-500' : 'text-emerald-600'}`} title={`${describePeriod(previousSelection!)} 대비`}>
+                    전년 동기 {kpiDeltas[i]}
+                  </p>
+                )}
               </div>
             </div>
           ))}
@@ -424,25 +1067,128 @@ const App = () => {
             {viewMode === 'map' ? (
               <div className="relative w-full h-full">
                 <MapContainer center={[36.5, 127.5]} zoom={7} className="w-full h-full" zoomControl={false}>
-                  <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
-                  {groupedProjects.filter(p => p.latitude && p.longitude).map((p, i) => (
-                    <Marker 
-                      key={i} 
-                      position={[p.latitude!, p.longitude!]} 
-                      icon={defaultIcon} 
-                      eventHandlers={{ 
-                        click: () => { setSelectedProject(p); setIsPanelOpen(true); },
-                        mouseover: () => setHoveredProject(p),
-                        mouseout: () => setHoveredProject(null)
-                      }}
-                    >
-                    </Marker>
-                  ))}
+                  <BasemapLayer config={basemapConfig} mbtiles={mbtilesSource} />
+                  {regionLayer && (
+                    <RegionLayer
+                      level={regionLayer}
+                      metric={regionMetric}
+                      totals={regionLayerTotals}
+                      boundaries={regionBoundaries}
+                      amountUnit={unitConfig.amountUnit}
+                      onSelect={(name) => selectRegion(regionLayer, name)}
+                    />
+                  )}
+                  {showHeat && <HeatLayer points={heatPoints} />}
+                  <ProjectMarkers
+                    projects={groupedProjects}
+                    clustered={clusterEnabled}
+                    iconStyle={markerStyle === 'default' ? 'default' : markerStyle === 'amount' ? 'size' : 'color'}
+                    colorOf={markerColorScale ? markerColorScale.colorOf : () => '#6366f1'}
+                    amountUnit={unitConfig.amountUnit}
+                    draggable={isFixMode}
+                    isEdited={(p) => editedProjects.has(p.name)}
+                    onSelect={(p) => { setSelectedProject(p); setIsPanelOpen(true); }}
+                    onHover={setHoveredProject}
+                    onDragEnd={(p, lat, lon) => applyCoordOverride(p.name, { lat, lon })}
+                  />
                   {selectedProject?.latitude && selectedProject?.longitude && (
                     <ChangeView center={[selectedProject.latitude, selectedProject.longitude]} zoom={11} />
                   )}
+                  <SpatialSelectLayer
+                    tool={spatialTool}
+                    selection={spatialSelection}
+                    onChange={(selection) => { setSpatialSelection(selection); setSpatialTool(null); }}
+                  />
+                  {isFixMode && <MapClickCapture onClick={setPickedPoint} />}
+                  {isFixMode && pickedPoint && (
+                    <Marker
+                      position={[pickedPoint.lat, pickedPoint.lon]}
+                      icon={pickedIcon}
+                      draggable
+                      eventHandlers={{ dragend: (e) => { const ll = e.target.getLatLng(); setPickedPoint({ lat: ll.lat, lon: ll.lng }); } }}
+                    />
+                  )}
+                  {isFixMode && fixFocus && <ChangeView center={fixFocus} zoom={15} />}
+                  {diff && diff.projects.filter(d => d.project.latitude && d.project.longitude).map(d => (
+                    <CircleMarker
+                      key={`diff-${d.project.name}`}
+                      center={[d.project.latitude!, d.project.longitude!]}
+                      radius={14}
+                      pathOptions={{ color: DIFF_COLORS[d.status], weight: 3, fillColor: DIFF_COLORS[d.status], fillOpacity: 0.25, dashArray: d.status === 'removed' ? '4 4' : undefined }}
+                      eventHandlers={{
+                        click: () => { const p = groupedProjects.find(gp => gp.name === d.project.name); if (p) { setSelectedProject(p); setIsPanelOpen(true); } }
+                      }}
+                    >
+                      <Tooltip direction="top" offset={[0, -12]}>
+                        <span className="text-[10px] font-black">{d.project.name} · {d.status === 'added' ? '신규' : d.status === 'removed' ? '삭제' : `변경 ${d.changes.length}건`} ({d.amountDelta > 0 ? '+' : ''}{d.amountDelta.toLocaleString()}{unitConfig.amountUnit})</span>
+                      </Tooltip>
+                    </CircleMarker>
+                  ))}
                 </MapContainer>
 
+                <div className="absolute top-20 left-5 z-[1001] bg-white/90 backdrop-blur border border-slate-200 rounded-xl p-2 shadow-xl flex flex-col gap-1.5 w-40">
+                  <button onClick={() => setClusterEnabled(v => !v)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black text-left transition-all ${clusterEnabled ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>클러스터 {clusterEnabled ? 'ON' : 'OFF'}</button>
+                  <button onClick={() => setShowHeat(v => !v)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black text-left transition-all ${showHeat ? 'bg-rose-500 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>히트맵 {showHeat ? 'ON' : 'OFF'}</button>
+                  <select className="bg-transparent text-[9px] font-black focus:outline-none text-slate-600 cursor-pointer px-2 py-1.5 border-t border-slate-100" value={markerStyle} onChange={(e) => setMarkerStyle(e.target.value as MarkerStyle)}>
+                    {(Object.keys(MARKER_STYLE_LABELS) as MarkerStyle[]).map(k => <option key={k} value={k}>마커: {MARKER_STYLE_LABELS[k]}</option>)}
+                  </select>
+                  <select className="bg-transparent text-[9px] font-black focus:outline-none text-slate-600 cursor-pointer px-2 py-1.5 border-t border-slate-100" value={regionLayer || ''} onChange={(e) => setRegionLayer((e.target.value || null) as RegionLevel | null)}>
+                    <option value="">지역: 끔</option>
+                    {(Object.keys(REGION_LEVEL_LABELS) as RegionLevel[]).map(k => <option key={k} value={k}>지역: {REGION_LEVEL_LABELS[k]}</option>)}
+                  </select>
+                  {regionLayer && !hasBoundaries(regionBoundaries, regionLayer) && (
+                    <p className="px-2 text-[8px] font-bold text-amber-600 leading-snug" title={`public/regions/${REGION_BOUNDARY_FILES[regionLayer]} 파일을 넣으면 경계로 표시됩니다.`}>
+                      경계 파일 없음 · 현장 평균 위치에 원으로 표시
+                    </p>
+                  )}
+                  {regionLayer && (
+                    <select className="bg-transparent text-[9px] font-black focus:outline-none text-slate-600 cursor-pointer px-2 py-1.5" value={regionMetric} onChange={(e) => setRegionMetric(e.target.value as RegionMetric)}>
+                      {(Object.keys(REGION_METRIC_LABELS) as RegionMetric[]).map(k => <option key={k} value={k}>색상: {REGION_METRIC_LABELS[k]}</option>)}
+                    </select>
+                  )}
+                  <div className="flex gap-1 border-t border-slate-100 pt-1.5">
+                    {(Object.keys(SPATIAL_TOOL_LABELS) as SpatialTool[]).map(t => (
+                      <button
+                        key={t}
+                        onClick={() => setSpatialTool(spatialTool === t ? null : t)}
+                        title={t === 'lasso' ? '드래그해 영역을 그립니다' : '중심에서 드래그해 반경을 정합니다'}
+                        className={`flex-1 px-2 py-1.5 rounded-lg text-[9px] font-black flex items-center justify-center gap-1 transition-all ${spatialTool === t ? 'bg-sky-500 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                      >
+                        {t === 'lasso' ? <Lasso className="w-3 h-3" /> : <CircleDot className="w-3 h-3" />} {SPATIAL_TOOL_LABELS[t]}
+                      </button>
+                    ))}
+                  </div>
+                  {spatialSelection && (
+                    <div className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-sky-50 border border-sky-100 text-[9px] font-black text-sky-700">
+                      <span className="truncate flex-1">{describeSelection(spatialSelection)} · {summary.siteCount}곳</span>
+                      <button onClick={() => setSpatialSelection(null)} title="영역 선택 해제" className="text-sky-400 hover:text-sky-700"><X className="w-3 h-3" /></button>
+                    </div>
+                  )}
+                </div>
+
+                <MapLegend
+                  title={markerStyle === 'progress' ? '진행상태' : '시공사'}
+                  items={markerColorScale?.legend}
+                  sizeRange={markerStyle === 'amount' ? { max: maxProjectAmount, sizeOf: sizeScale(maxProjectAmount), unit: unitConfig.amountUnit } : undefined}
+                  showHeat={showHeat}
+                  choropleth={regionLayer ? {
+                    title: `${REGION_LEVEL_LABELS[regionLayer]}별 ${REGION_METRIC_LABELS[regionMetric]}${hasBoundaries(regionBoundaries, regionLayer) ? '' : ' (경계 데이터 없음)'}`,
+                    max: Math.max(...regionLayerTotals.map(t => t[regionMetric]), 1),
+                    suffix: regionMetric === 'amount' ? unitConfig.amountUnit : '곳',
+                  } : undefined}
+                />
+
+                {diff && (
+                  <div className="absolute top-5 left-1/2 -translate-x-1/2 z-[1001] flex items-center gap-3 bg-white/95 backdrop-blur border border-indigo-200 rounded-xl px-4 py-2 shadow-xl">
+                    <GitCompare className="w-3.5 h-3.5 text-indigo-500" />
+                    <span className="text-[10px] font-black text-slate-600">
+                      비교 모드 · <span className="text-emerald-600">+{diff.counts.added}</span> / <span className="text-red-500">-{diff.counts.removed}</span> / <span className="text-amber-600">~{diff.counts.changed}</span>
+                    </span>
+                    <button onClick={() => setIsDiffPanelOpen(true)} className="text-[10px] font-black text-indigo-600 hover:underline">변경 로그</button>
+                    <button onClick={clearDiff} className="p-1 rounded-lg text-slate-400 hover:text-slate-800 hover:bg-slate-100"><X className="w-3 h-3" /></button>
+                  </div>
+                )}
+
                 {/* HOVER CARD - 진행상황 배지가 제목 옆으로 이동 */}
                 {hoveredProject && (
                   <div className="absolute top-5 right-5 z-[1001] w-72 bg-white/95 backdrop-blur-xl border border-slate-200 rounded-[2rem] shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200 pointer-events-none">
@@ -451,9 +1197,15 @@ const App = () => {
                       <div className="flex flex-col min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
                           <h3 className="text-sm font-black text-slate-800 truncate max-w-[150px] leading-tight">{hoveredProject.name}</h3>
+                          {hoveredProject.asOf?.year ? <span className="text-[8px] font-black text-slate-400 whitespace-nowrap">현재 상태 · {hoveredProject.asOf.year}.{String(hoveredProject.asOf.month).padStart(2, '0')}</span> : null}
                           <span className="px-1.5 py-0.5 rounded-md bg-indigo-50 text-indigo-600 text-[8px] font-black border border-indigo-100 whitespace-nowrap">
                             {hoveredProject.progress}
                           </span>
+                          {stageDef(stageOf(hoveredProject.progress)) && (
+                            <span className="px-1.5 py-0.5 rounded-md text-white text-[8px] font-black whitespace-nowrap" style={{ backgroundColor: stageDef(stageOf(hoveredProject.progress))!.color }}>
+                              {stageDef(stageOf(hoveredProject.progress))!.label}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -469,13 +1221,24 @@ const App = () => {
                       </div>
                       <div className="pt-3 border-t border-slate-100 flex items-center justify-between mt-1">
                         <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">총 스펙량</span>
-                        <span className="text-sm font-black text-slate-900">{hoveredProject.totalAmount.toLocaleString()} <span className="text-[9px] text-slate-400">Ton</span></span>
+                        <span className="text-sm font-black text-slate-900">{hoveredProject.totalAmount.toLocaleString()} <span className="text-[9px] text-slate-400">{unitConfig.amountUnit}</span></span>
                       </div>
                     </div>
                   </div>
                 )}
                 
-                {projectsWithNoCoords.length > 0 && (
+                {isFixMode && (
+                  <CoordFixer
+                    projects={projectsWithNoCoords}
+                    pickedPoint={pickedPoint}
+                    onPick={(point, focus) => { setPickedPoint(point); if (point && focus) setFixFocus([point.lat, point.lon]); }}
+                    onSave={(p, point, address) => applyCoordOverride(p.name, point, address)}
+                    onExport={exportOverrides}
+                    onClose={closeFixMode}
+                  />
+                )}
+
+                {!isFixMode && projectsWithNoCoords.length > 0 && (
                   <div className="absolute bottom-5 left-5 z-[1001] bg-amber-50 border border-amber-200 rounded-2xl p-4 shadow-xl max-w-xs animate-in slide-in-from-bottom-2">
                     <div className="flex items-start gap-3">
                       <div className="bg-amber-100 p-2 rounded-xl text-amber-600"><MapPinOff className="w-4 h-4" /></div>
@@ -484,64 +1247,37 @@ const App = () => {
                         <p className="text-[11px] font-medium text-amber-700 leading-relaxed">
                           주소가 정확하지 않아 <span className="font-black">{projectsWithNoCoords.length}개</span> 현장을 지도에 표시하지 못했습니다.
                         </p>
+                        <button onClick={() => setIsFixMode(true)} className="mt-2 text-[10px] font-black text-white bg-amber-600 hover:bg-amber-700 px-3 py-1.5 rounded-lg flex items-center gap-1.5">
+                          <MapPinned className="w-3 h-3" /> 좌표 보정 시작
+                        </button>
                       </div>
                     </div>
                   </div>
                 )}
               </div>
             ) : (
-              <div className="flex-1 overflow-auto p-6 pt-20 custom-scrollbar">
-                <table className="w-full text-left border-separate border-spacing-0">
-                  <thead className="sticky top-0 bg-white z-20">
-                    <tr>
-                      <th className="py-4 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100 bg-white">현장명</th>
-                      <th className="py-4 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100 bg-white">건설사</th>
-                      <th className="py-4 px-4 text-[9px] font-black text-slate-400 uppercase border-b border-slate-100 bg-white">설계사</th>
-                      <th className="py-4 px-4 text-[9px] font-black text-slate-400 uppercase text-center border-b border-slate-100 bg-white">스펙량</th>
-                      <th className="py-4 px-4 text-[9px] font-black text-slate-400 uppercase text-center border-b border-slate-100 bg-white">좌표 상태</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {listData.length > 0 ? listData.map((d, i) => {
-                      const hasCoords = d.latitude && d.longitude;
-                      return (
-                        <tr key={i} className={`hover:bg-slate-50 group cursor-pointer ${!hasCoords ? 'bg-amber-50/20' : ''}`} onClick={() => { const p = groupedProjects.find(gp => gp.name === d.project_name); if(p) {setSelectedProject(p); setIsPanelOpen(true);} }}>
-                          <td className="py-4 px-4 text-xs font-black text-slate-700">{d.project_name}</td>
-                          <td className="py-4 px-4 text-xs text-slate-500">{d.constructor}</td>
-                          <td className="py-4 px-4 text-xs text-slate-500">{d.designer}</td>
-                          <td className="py-4 px-4 text-xs font-mono font-bold text-indigo-600 text-center">{d.spec_amount.toLocaleString()}</td>
-                          <td className="py-4 px-4 text-center">
-                            {hasCoords ? (
-                              <span className="text-[8px] font-black text-emerald-500 bg-emerald-50 px-1.5 py-0.5 rounded border border-emerald-100 uppercase tracking-tighter">MAPPED</span>
-                            ) : (
-                              <span className="text-[8px] font-black text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded border border-amber-200 uppercase tracking-tighter">MISSING COORDS</span>
-                            )}
-                          </td>
-                        </tr>
-                      );
-                    }) : (
-                      <tr>
-                        <td colSpan={5} className="py-20 text-center">
-                          <div className="flex flex-col items-center gap-3">
-                            <SearchX className="w-10 h-10 text-slate-200" />
-                            <p className="text-sm font-bold text-slate-400">데이터가 없습니다.</p>
-                          </div>
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
+              <ProjectTable rows={listData} amountUnit={unitConfig.amountUnit} editedProjects={editedProjects} onSelectProject={openProjectByName} />
             )}
           </div>
 
           <div className="flex-[1.5] flex flex-col gap-4 min-w-[280px]">
-            <MiniBarChart title="연도별 설계물량 추이" data={trends.yearTrend} color="#6366f1" labelSuffix="T" />
-            <MiniBarChart title="월별 설계물량 추이" data={trends.monthTrend} color="#10b981" labelSuffix="T" />
-            <MiniBarChart title="설계사별 설계물량 추이" data={trends.designerTrend} color="#ec4899" labelSuffix="T" />
+            {activeSnapshotId && (
+              <TargetTracking
+                tracking={targetTracking}
+                keys={availableTargetKeys}
+                selected={activeTargetKey}
+                amountUnit={unitConfig.amountUnit}
+                onSelect={setTargetKey}
+                onManage={() => setIsTargetManagerOpen(true)}
+              />
+            )}
+            <MiniBarChart title="연도별 설계물량 추이" data={trends.yearTrend} compare={trends.yearCompare} color="#6366f1" labelSuffix={unitConfig.amountUnit} />
+            <MiniBarChart title={`${GRANULARITY_LABELS[granularity]} 설계물량 추이`} data={trends.periodTrend} compare={trends.periodCompare} lines={targetLines} color="#10b981" labelSuffix={unitConfig.amountUnit} />
+            <MiniBarChart title="설계사별 설계물량 추이" data={trends.designerTrend} compare={trends.designerCompare} color="#ec4899" labelSuffix={unitConfig.amountUnit} />
           </div>
 
           <div className="flex-[1] flex flex-col gap-4 min-w-[240px]">
+            <StageFunnel steps={funnel} selected={selectedStage} amountUnit={unitConfig.amountUnit} onSelect={setSelectedStage} onOpenSettings={() => setIsStageSettingsOpen(true)} />
             <div className="bg-white rounded-2xl p-5 border border-slate-100 flex-1 flex flex-col shadow-sm">
               <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
                 <BarChart3 className="w-3.5 h-3.5 text-amber-500" /> 시공사 순위
@@ -551,7 +1287,7 @@ const App = () => {
                   <div key={i} className="group">
                     <div className="flex justify-between text-[11px] mb-1.5 font-bold">
                       <span className="text-slate-700 truncate mr-2">{i+1}. {c.name}</span>
-                      <span className="text-amber-600 shrink-0">{c.amount.toLocaleString()}T</span>
+                      <span className="text-amber-600 shrink-0">{c.amount.toLocaleString()}{unitConfig.amountUnit}</span>
                     </div>
                     <div className="h-1.5 bg-slate-50 rounded-full overflow-hidden border border-slate-100 shadow-inner">
                       <div className="h-full bg-amber-500 rounded-full transition-all duration-700" style={{ width: `${(c.amount / (summary.top3Cons[0]?.amount || 1)) * 100}%` }} />
@@ -561,6 +1297,31 @@ const App = () => {
               </div>
             </div>
 
+            <div className="bg-white rounded-2xl p-5 border border-slate-100 flex-1 flex flex-col shadow-sm">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                <MapIcon className="w-3.5 h-3.5 text-sky-500" /> 지역 순위
+                {!hasBoundaries(regionBoundaries, regionRankLevel) && (
+                  <span className="text-[8px] text-amber-600 normal-case tracking-normal" title={`public/regions/${REGION_BOUNDARY_FILES[regionRankLevel]} 파일이 없어 주소로 지역을 판별합니다.`}>주소 기준</span>
+                )}
+                <select className="ml-auto bg-transparent text-[9px] font-black focus:outline-none text-slate-500 cursor-pointer normal-case tracking-normal" value={regionRankLevel} onChange={(e) => setRegionRankLevel(e.target.value as RegionLevel)}>
+                  {(Object.keys(REGION_LEVEL_LABELS) as RegionLevel[]).map(k => <option key={k} value={k}>{REGION_LEVEL_LABELS[k]}</option>)}
+                </select>
+              </h3>
+              <div className="flex-1 overflow-auto space-y-4 custom-scrollbar pr-1">
+                {regionRanking.length > 0 ? regionRanking.slice(0, 10).map((r, i) => (
+                  <div key={r.name} className={`group ${r.name !== '미확인' ? 'cursor-pointer' : ''}`} onClick={() => selectRegion(regionRankLevel, r.name)}>
+                    <div className="flex justify-between text-[11px] mb-1.5 font-bold">
+                      <span className="text-slate-700 truncate mr-2 group-hover:text-sky-600">{i+1}. {r.name}</span>
+                      <span className="text-sky-600 shrink-0">{r.amount.toLocaleString()}{unitConfig.amountUnit} · {r.sites}곳</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-50 rounded-full overflow-hidden border border-slate-100 shadow-inner">
+                      <div className="h-full bg-sky-500 rounded-full transition-all duration-700" style={{ width: `${(r.amount / (regionRanking[0]?.amount || 1)) * 100}%` }} />
+                    </div>
+                  </div>
+                )) : <div className="text-[10px] text-slate-400 text-center py-4">No Data Available</div>}
+              </div>
+            </div>
+
             <div className="bg-white rounded-2xl p-5 border border-slate-100 flex-1 flex flex-col shadow-sm">
               <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
                 <Palette className="w-3.5 h-3.5 text-indigo-500" /> 설계사 순위
@@ -570,7 +1331,7 @@ const App = () => {
                   <div key={i} className="group">
                     <div className="flex justify-between text-[11px] mb-1.5 font-bold">
                       <span className="text-slate-700 truncate mr-2">{i+1}. {d.name}</span>
-                      <span className="text-indigo-600 shrink-0">{d.amount.toLocaleString()}T</span>
+                      <span className="text-indigo-600 shrink-0">{d.amount.toLocaleString()}{unitConfig.amountUnit}</span>
                     </div>
                     <div className="h-1.5 bg-slate-50 rounded-full overflow-hidden border border-slate-100 shadow-inner">
                       <div className="h-full bg-indigo-500 rounded-full transition-all duration-700" style={{ width: `${(d.amount / (summary.top3Des[0]?.amount || 1)) * 100}%` }} />
@@ -583,6 +1344,104 @@ const App = () => {
         </div>
       </main>
 
+      {pendingImport && (
+        <ImportPreview
+          sources={pendingImport}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={(rows, name) => { setPendingImport(null); processAndSaveData(rows, name); }}
+        />
+      )}
+
+      {isDiffPanelOpen && (
+        <DiffPanel
+          snapshots={snapshots.filter(s => s.id !== activeSnapshotId)}
+          baseId={diffBaseId}
+          activeName={activeSnapshot?.name || '현재 데이터'}
+          diff={diff}
+          amountUnit={unitConfig.amountUnit}
+          onChangeBase={changeDiffBase}
+          onExport={exportChangeLog}
+          onShowOnMap={() => { setIsDiffPanelOpen(false); setViewMode('map'); }}
+          onSelectProject={(name) => { const p = groupedProjects.find(gp => gp.name === name); if (p) { setIsDiffPanelOpen(false); setSelectedProject(p); setIsPanelOpen(true); } }}
+          onClose={() => setIsDiffPanelOpen(false)}
+        />
+      )}
+
+      {isQualityPanelOpen && (
+        <QualityPanel
+          report={qualityReport}
+          config={qualityConfig}
+          onChangeConfig={updateQualityConfig}
+          onExport={exportQualityIssues}
+          onSelectProject={openQualityProject}
+          onClose={() => setIsQualityPanelOpen(false)}
+        />
+      )}
+
+      {isProductAnalyticsOpen && (
+        <ProductAnalytics
+          rows={filteredData}
+          trendRows={trendData}
+          trendWindow={periodWindow}
+          granularity={granularity}
+          unitConfig={unitConfig}
+          onSaveUnits={handleSaveUnitConfig}
+          onSelectProject={(name) => { setIsProductAnalyticsOpen(false); openProjectByName(name); }}
+          onClose={() => setIsProductAnalyticsOpen(false)}
+        />
+      )}
+
+      {isTargetManagerOpen && activeSnapshotId && (
+        <TargetManager
+          targets={targets}
+          datasetName={activeSnapshot?.name || '현재 데이터'}
+          defaultYear={trackingYear || new Date().getFullYear()}
+          designers={companyNames.designers}
+          constructors={companyNames.constructors}
+          amountUnit={unitConfig.amountUnit}
+          onSave={saveSpecTargets}
+          onClose={() => setIsTargetManagerOpen(false)}
+        />
+      )}
+
+      {isStageSettingsOpen && (
+        <StageSettings config={stageConfig} progressTexts={progressTexts} onSave={handleSaveStageConfig} onClose={() => setIsStageSettingsOpen(false)} />
+      )}
+
+      {isGeocoderSettingsOpen && <GeocoderSettings onClose={() => setIsGeocoderSettingsOpen(false)} />}
+      {isBasemapSettingsOpen && (
+        <BasemapSettings
+          config={basemapConfig}
+          mbtiles={mbtilesSource?.info || null}
+          onSave={saveBasemap}
+          onImportMbtiles={importMbtiles}
+          onRemoveMbtiles={removeMbtiles}
+          onClose={() => setIsBasemapSettingsOpen(false)}
+        />
+      )}
+
+      {isCollaborationOpen && (
+        <CollaborationPanel
+          rows={pairBaseData}
+          amountUnit={unitConfig.amountUnit}
+          selected={selectedPair}
+          onSelectPair={selectPair}
+          onClose={() => setIsCollaborationOpen(false)}
+        />
+      )}
+
+      {isAliasManagerOpen && (
+        <CompanyAliasManager
+          aliases={aliases}
+          companies={companyCounts}
+          onAdd={addAlias}
+          onDelete={removeAlias}
+          onExport={exportAliases}
+          onApplyToData={applyAliasesToData}
+          onClose={() => setIsAliasManagerOpen(false)}
+        />
+      )}
+
       {/* SIDE PANEL */}
       {isPanelOpen && selectedProject && (
         <>
@@ -592,18 +1451,81 @@ const App = () => {
             <div className="p-10 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
               <div>
                 <h2 className="text-2xl font-black text-slate-800 tracking-tighter">{selectedProject.name}</h2>
+                {editedProjects.has(selectedProject.name) && (
+                  <p className="text-[10px] font-bold text-amber-600 mt-1 flex items-center gap-1.5">
+                    <PencilLine className="w-3 h-3" /> 메모 있음
+                    {noteByProject.get(selectedProject.name)!.owner && <span>· 담당 {noteByProject.get(selectedProject.name)!.owner}</span>}
+                    {noteByProject.get(selectedProject.name)!.nextAction && <span>· 다음 조치 {noteByProject.get(selectedProject.name)!.nextAction}</span>}
+                  </p>
+                )}
               </div>
               <button onClick={() => setIsPanelOpen(false)} className="p-3 hover:bg-white rounded-xl text-slate-400 hover:text-slate-800 transition-all"><X className="w-6 h-6" /></button>
             </div>
             <div className="flex border-b border-slate-100 px-6">
-              {['progress', 'info', 'spec'].map(t => (
+              {['progress', 'timeline', 'info', 'spec'].map(t => (
                 <button key={t} onClick={() => setActiveTab(t as any)} className={`flex-1 py-6 text-[10px] font-black uppercase tracking-widest border-b-4 transition-all ${activeTab === t ? 'border-slate-900 text-slate-900' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
-                  {t === 'progress' ? '진행현황' : t === 'info' ? '현장정보' : '상세스펙'}
+                  {t === 'progress' ? '진행현황' : t === 'timeline' ? '타임라인' : t === 'info' ? '현장정보' : '상세스펙'}
                 </button>
               ))}
             </div>
             <div className="flex-1 overflow-y-auto p-10 custom-scrollbar">
-              {activeTab === 'progress' && <div className="bg-slate-50 border-2 border-dashed border-slate-200 rounded-3xl p-10 text-center shadow-inner text-xl font-black text-slate-700 italic">" {selectedProject.progress} "</div>}
+              {activeTab === 'progress' && (
+                <div className="space-y-6">
+                  <div className="bg-slate-50 border-2 border-dashed border-slate-200 rounded-3xl p-10 text-center shadow-inner text-xl font-black text-slate-700 italic">" {selectedProject.progress} "</div>
+                  <div className="flex items-center justify-center gap-1.5">
+                    {stageConfig.stages.map(st => {
+                      const current = stageOf(selectedProject.progress) === st.id;
+                      return (
+                        <span key={st.id} className={`px-2.5 py-1 rounded-lg text-[10px] font-black border ${current ? 'text-white border-transparent' : 'text-slate-300 border-slate-100'}`} style={current ? { backgroundColor: st.color } : undefined}>
+                          {st.label}
+                        </span>
+                      );
+                    })}
+                  </div>
+                  <ProjectNoteEditor
+                    projectName={selectedProject.name}
+                    note={noteByProject.get(selectedProject.name)}
+                    originalProgress={originalProgress}
+                    onSave={saveProjectNote}
+                  />
+                </div>
+              )}
+              {activeTab === 'timeline' && (
+                <div className="space-y-6">
+                  {projectHistory.length > 1 && (
+                    <div className="h-44">
+                      <MiniBarChart title="월별 스펙량 변화" data={projectHistory.map(h => ({ label: `${h.year}.${String(h.month).padStart(2, '0')}`, value: h.amount }))} color="#6366f1" labelSuffix={unitConfig.amountUnit} />
+                    </div>
+                  )}
+                  <div className="relative pl-6 border-l-2 border-slate-100 space-y-6">
+                    {projectHistory.slice().reverse().map((h, i) => (
+                      <div key={`${h.year}-${h.month}`} className="relative">
+                        <span className={`absolute -left-[31px] top-1 w-3 h-3 rounded-full border-2 border-white ${i === 0 ? 'bg-indigo-600' : 'bg-slate-300'}`} />
+                        <div className="flex items-baseline gap-2 mb-2">
+                          <p className="text-xs font-black text-slate-800">{h.year ? `${h.year}년 ${h.month ? `${h.month}월` : ''}` : '날짜 없음'}</p>
+                          {i === 0 && <span className="text-[8px] font-black px-1.5 py-0.5 rounded-md bg-indigo-50 text-indigo-600 border border-indigo-100">현재 상태</span>}
+                          <span className="ml-auto text-xs font-black text-slate-700">{h.amount.toLocaleString()} <span className="text-[9px] text-slate-400">{unitConfig.amountUnit}</span></span>
+                          {h.amountDelta !== null && h.amountDelta !== 0 && (
+                            <span className={`text-[9px] font-black ${h.amountDelta > 0 ? 'text-emerald-600' : 'text-red-500'}`}>{h.amountDelta > 0 ? '+' : ''}{h.amountDelta.toLocaleString()}</span>
+                          )}
+                        </div>
+                        {h.progress.map(p => (
+                          <p key={p} className="text-[11px] font-bold text-slate-600 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 mb-1.5 flex items-center gap-2">
+                            {stageDef(stageOf(p)) && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: stageDef(stageOf(p))!.color }} />}
+                            {p}
+                          </p>
+                        ))}
+                        {h.changes.filter(c => c.kind !== 'progress').map(c => (
+                          <p key={c.kind} className="text-[10px] font-bold text-amber-700 flex items-center gap-1.5 mt-1">
+                            {HISTORY_CHANGE_LABELS[c.kind]} 변경: <span className="text-slate-400 line-through">{c.from}</span> <ArrowRight className="w-3 h-3" /> {c.to}
+                          </p>
+                        ))}
+                        <p className="text-[9px] font-bold text-slate-400 mt-1.5 truncate">{h.products.map(pr => `${pr.product} ${pr.amount.toLocaleString()}`).join(' · ')}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               {activeTab === 'info' && (
                 <div className="space-y-8">
                   <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 flex gap-4 items-center shadow-sm">
@@ -620,6 +1542,44 @@ const App = () => {
                       <p className="text-md font-black text-slate-800">{selectedProject.constructor}</p>
                     </div>
                   </div>
+                  {selectedProject.specs.some(s => s.source) && (
+                    <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                      <p className="text-[9px] font-black text-slate-400 uppercase mb-2">Source</p>
+                      {Array.from(new Set(selectedProject.specs.map(s => s.source).filter(Boolean))).map(src => (
+                        <p key={src} className="text-xs font-bold text-slate-600 flex items-center gap-2"><FileSpreadsheet className="w-3.5 h-3.5 text-emerald-500" /> {src}</p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                    <div className="flex items-center gap-2 mb-3">
+                      <p className="text-[9px] font-black text-slate-400 uppercase flex items-center gap-1.5"><Navigation className="w-3 h-3 text-sky-500" /> 주변 현장</p>
+                      <select className="ml-auto border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-700 bg-white" value={nearbyRadiusKm} onChange={(e) => setNearbyRadiusKm(Number(e.target.value))}>
+                        {NEARBY_RADIUS_OPTIONS.map(km => <option key={km} value={km}>{km}km 이내</option>)}
+                      </select>
+                      <button
+                        onClick={() => selectAroundProject(selectedProject, nearbyRadiusKm)}
+                        disabled={!selectedProject.latitude || !selectedProject.longitude}
+                        className="px-2.5 py-1 rounded-lg text-[10px] font-black text-white bg-slate-900 hover:bg-black disabled:opacity-40"
+                      >
+                        지도에서 선택
+                      </button>
+                    </div>
+                    {!selectedProject.latitude || !selectedProject.longitude ? (
+                      <p className="text-[10px] text-slate-400 text-center py-4">좌표가 없는 현장입니다.</p>
+                    ) : nearby.length === 0 ? (
+                      <p className="text-[10px] text-slate-400 text-center py-4">{nearbyRadiusKm}km 이내에 다른 현장이 없습니다.</p>
+                    ) : (
+                      <div className="space-y-1 max-h-64 overflow-auto custom-scrollbar">
+                        {nearby.map(n => (
+                          <button key={n.project.name} onClick={() => setSelectedProject(n.project)} className="w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-white text-left transition-all">
+                            <span className="text-[10px] font-black text-sky-600 w-12 shrink-0">{formatKm(n.distanceKm)}</span>
+                            <span className="text-xs font-bold text-slate-700 truncate flex-1">{n.project.name}</span>
+                            <span className="text-[10px] font-bold text-slate-400 shrink-0">{n.project.totalAmount.toLocaleString()}{unitConfig.amountUnit}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                 </div>
               )}
               {activeTab === 'spec' && (
@@ -628,23 +1588,25 @@ const App = () => {
                     <div key={idx} className="p-6 bg-white border border-slate-100 rounded-2xl flex items-center justify-between shadow-sm hover:border-indigo-200 transition-all">
                       <div className="overflow-hidden">
                         <p className="font-black text-slate-800 truncate">{s.product}</p>
-                        <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">{s.amount.toLocaleString()} Ton</p>
+                        <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">{s.amount.toLocaleString()} {unitsFor(s.product, unitConfig).amountUnit}</p>
+                        {s.source && <p className="text-[9px] font-bold text-slate-300 mt-0.5 truncate">{s.source}</p>}
                       </div>
-                      <div className="text-right bg-slate-50 px-4 py-2 rounded-xl border border-slate-100 font-black text-lg">{s.quantity} <span className="text-[9px] text-slate-400">UNIT</span></div>
+                      <div className="text-right bg-slate-50 px-4 py-2 rounded-xl border border-slate-100 font-black text-lg">{s.quantity} <span className="text-[9px] text-slate-400">{unitsFor(s.product, unitConfig).quantityUnit}</span></div>
                     </div>
                   ))}
                   <div className="mt-8 p-10 bg-slate-900 rounded-[2.5rem] text-white flex justify-between items-center shadow-2xl">
                     <div>
                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">TOTAL AGGREGATED</p>
                       <span className="text-5xl font-black">{selectedProject.totalAmount.toLocaleString()}</span>
-                      <span className="text-xl font-bold text-indigo-300 ml-2">Ton</span>
+                      <span className="text-xl font-bold text-indigo-300 ml-2">{unitConfig.amountUnit}</span>
                     </div>
                   </div>
                 </div>
               )}
             </div>
-            <div className="p-8 border-t border-slate-100 bg-slate-50">
-              <button onClick={() => setIsPanelOpen(false)} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl hover:bg-black transition-all shadow-xl text-xs uppercase tracking-widest">Close Panel</button>
+            <div className="p-8 border-t border-slate-100 bg-slate-50 flex gap-3">
+              <button onClick={() => printProjectSheet(selectedProject)} title="현장 시트 인쇄 / PDF" className="px-6 bg-white border border-slate-200 text-slate-600 font-black rounded-2xl hover:bg-slate-100 transition-all shadow-sm text-xs flex items-center gap-2"><Printer className="w-4 h-4" /> 현장 시트</button>
+              <button onClick={() => setIsPanelOpen(false)} className="flex-1 bg-slate-900 text-white font-black py-5 rounded-2xl hover:bg-black transition-all shadow-xl text-xs uppercase tracking-widest">Close Panel</button>
             </div>
           </aside>
         </>
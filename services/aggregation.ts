@@ -0,0 +1,24 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { sourceLabel } from './importMapping';
+import { latestRow } from './projectHistory';
+
+// --- 프로젝트 단위 집계 ---
+// 진행내용/설계사/시공사는 가장 최근 연-월 행을, 좌표는 좌표가 있는 가장 최근 행을 따른다.
+export const groupProjects = (rows: ExcelRow[]): GroupedProject[] => {
+  const byName = new Map<string, ExcelRow[]>();
+  rows.forEach(d => {
+    const list = byName.get(d.project_name);
+    if (list) list.push(d); else byName.set(d.project_name, [d]);
+  });
+  return Array.from(byName.entries()).map(([name, list]) => {
+    const latest = latestRow(list)!;
+    const located = latestRow(list.filter(d => d.latitude && d.longitude));
+    return {
+      name, address: (located || latest).address, latitude: located?.latitude ?? null, longitude: located?.longitude ?? null,
+      designer: latest.designer, constructor: latest.constructor, progress: latest.progress,
+      asOf: { year: latest.year, month: latest.month },
+      specs: list.map(d => ({ product: d.product_name, quantity: d.quantity, amount: d.spec_amount, source: sourceLabel(d.source_file, d.source_sheet) || undefined })),
+      totalAmount: list.reduce((s, d) => s + d.spec_amount, 0),
+    };
+  });
+};
@@ -0,0 +1,114 @@
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { STORES, idbDelete, idbGet, idbPut } from './db';
+
+// --- 배경지도 (타일 소스) ---
+// 폐쇄망에서는 앱과 함께 배포한 타일 폴더(URL 템플릿) 또는 브라우저에 저장한 MBTiles 파일을 쓴다.
+export type BasemapSource = 'url' | 'mbtiles';
+
+export interface BasemapConfig {
+  source: BasemapSource;
+  // {z}/{x}/{y} (선택: {s}, {r}) 치환. 상대 경로면 앱 기준 (예: ./tiles/{z}/{x}/{y}.png)
+  urlTemplate: string;
+  subdomains: string;
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export const BASEMAP_SOURCE_LABELS: Record<BasemapSource, string> = {
+  url: '타일 URL / 로컬 폴더',
+  mbtiles: 'MBTiles 파일',
+};
+
+export const DEFAULT_BASEMAP_CONFIG: BasemapConfig = {
+  source: 'url',
+  urlTemplate: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  subdomains: 'abc',
+  attribution: '&copy; OpenStreetMap contributors',
+  minZoom: 3,
+  maxZoom: 19,
+};
+
+export const BASEMAP_PRESETS: { label: string; urlTemplate: string; subdomains: string; attribution: string }[] = [
+  { label: 'OpenStreetMap', urlTemplate: DEFAULT_BASEMAP_CONFIG.urlTemplate, subdomains: 'abc', attribution: DEFAULT_BASEMAP_CONFIG.attribution },
+  { label: '로컬 폴더 (public/tiles)', urlTemplate: './tiles/{z}/{x}/{y}.png', subdomains: '', attribution: '' },
+];
+
+const CONFIG_KEY = 'basemapConfig';
+const MBTILES_KEY = 'basemapMbtiles';
+
+export const loadBasemapConfig = async (): Promise<BasemapConfig> => {
+  const saved = await idbGet<BasemapConfig>(STORES.settings, CONFIG_KEY);
+  return saved ? { ...DEFAULT_BASEMAP_CONFIG, ...saved } : DEFAULT_BASEMAP_CONFIG;
+};
+
+export const saveBasemapConfig = (config: BasemapConfig) => idbPut(STORES.settings, CONFIG_KEY, config);
+
+// --- MBTiles ---
+interface StoredMbtiles {
+  name: string;
+  size: number;
+  blob: Blob;
+}
+
+export interface MbtilesInfo {
+  name: string;
+  size: number;
+  format: string;
+  minZoom: number | null;
+  maxZoom: number | null;
+}
+
+export interface MbtilesSource {
+  info: MbtilesInfo;
+  // XYZ 좌표 (MBTiles 내부는 TMS 라 y 를 뒤집어 조회한다)
+  getTile: (z: number, x: number, y: number) => Uint8Array | null;
+  close: () => void;
+}
+
+const RASTER_FORMATS: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+export const tileMimeType = (format: string) => RASTER_FORMATS[format] || 'image/png';
+
+let sqlPromise: Promise<any> | null = null;
+const loadSql = () => (sqlPromise ||= initSqlJs({ locateFile: () => sqlWasmUrl }));
+
+// 파일 전체를 메모리에 올리므로 지역 단위의 래스터 타일셋을 전제로 한다. 벡터(pbf) 타일은 지원하지 않는다.
+export const openMbtiles = async (name: string, blob: Blob): Promise<MbtilesSource> => {
+  const SQL = await loadSql();
+  const db = new SQL.Database(new Uint8Array(await blob.arrayBuffer()));
+  const metadata: Record<string, string> = {};
+  try {
+    db.exec('SELECT name, value FROM metadata')[0]?.values.forEach(([k, v]: [string, string]) => { metadata[k] = String(v); });
+  } catch {
+    db.close();
+    throw new Error('MBTiles 형식이 아닙니다 (metadata 테이블 없음).');
+  }
+  const format = (metadata.format || 'png').toLowerCase();
+  if (!RASTER_FORMATS[format]) {
+    db.close();
+    throw new Error(`지원하지 않는 타일 형식입니다: ${format} (png/jpg/webp 래스터만 가능)`);
+  }
+  const stmt = db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+  const zoomOf = (key: string) => (metadata[key] !== undefined && !isNaN(Number(metadata[key])) ? Number(metadata[key]) : null);
+  return {
+    info: { name, size: blob.size, format, minZoom: zoomOf('minzoom'), maxZoom: zoomOf('maxzoom') },
+    getTile: (z, x, y) => {
+      stmt.bind([z, x, (1 << z) - 1 - y]);
+      const data = stmt.step() ? (stmt.get()[0] as Uint8Array) : null;
+      stmt.reset();
+      return data;
+    },
+    close: () => {
+      stmt.free();
+      db.close();
+    },
+  };
+};
+
+export const saveMbtilesFile = (file: File) => idbPut(STORES.settings, MBTILES_KEY, { name: file.name, size: file.size, blob: file } as StoredMbtiles);
+
+export const loadMbtilesFile = async (): Promise<StoredMbtiles | null> => (await idbGet<StoredMbtiles>(STORES.settings, MBTILES_KEY)) || null;
+
+export const deleteMbtilesFile = () => idbDelete(STORES.settings, MBTILES_KEY);
@@ -0,0 +1,33 @@
+import { GroupedProject } from '../types';
+
+// --- 줌 레벨 기반 그리드 클러스터링 ---
+export interface ProjectCluster {
+  id: string;
+  lat: number;
+  lon: number;
+  members: GroupedProject[];
+  totalAmount: number;
+}
+
+// 화면 픽셀 좌표 기준으로 cellSize 격자에 묶고, 중심은 구성 현장의 평균 위치로 잡는다.
+export const clusterProjects = (
+  projects: GroupedProject[],
+  toPixel: (lat: number, lon: number) => { x: number; y: number },
+  cellSize = 60
+): ProjectCluster[] => {
+  const cells = new Map<string, GroupedProject[]>();
+  projects.forEach(p => {
+    if (!p.latitude || !p.longitude) return;
+    const { x, y } = toPixel(p.latitude, p.longitude);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(p); else cells.set(key, [p]);
+  });
+  return Array.from(cells.entries()).map(([key, members]) => ({
+    id: key,
+    lat: members.reduce((s, p) => s + p.latitude!, 0) / members.length,
+    lon: members.reduce((s, p) => s + p.longitude!, 0) / members.length,
+    members,
+    totalAmount: members.reduce((s, p) => s + p.totalAmount, 0),
+  }));
+};
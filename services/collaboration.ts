@@ -0,0 +1,79 @@
+import { ExcelRow } from '../types';
+
+// --- 설계사 × 시공사 협업 관계 ---
+export interface PairCell {
+  designer: string;
+  constructor: string;
+  amount: number;
+  projects: number;
+}
+
+export interface CompanyTotal {
+  name: string;
+  amount: number;
+  projects: number;
+}
+
+export interface PairMatrix {
+  designers: CompanyTotal[];
+  constructors: CompanyTotal[];
+  // `${designer}\u0000${constructor}` → 셀
+  cells: Map<string, PairCell>;
+  // 전체 쌍 (상위 업체로 자르기 전), 스펙량 순
+  pairs: PairCell[];
+  maxAmount: number;
+  maxProjects: number;
+}
+
+export const pairKey = (designer: string, constructor: string) => `${designer}\u0000${constructor}`;
+
+// 원본 값 그대로 키로 쓰고('-' 포함) 표시할 때만 companyName 으로 '기타'로 바꾼다 - 셀 클릭 시 다중 필터에 원본 값을 넘기기 위함
+
+const totalsOf = (pairs: PairCell[], side: 'designer' | 'constructor', projectSets: Map<string, Set<string>>): CompanyTotal[] => {
+  const amounts = new Map<string, number>();
+  pairs.forEach(p => amounts.set(p[side], (amounts.get(p[side]) || 0) + p.amount));
+  return Array.from(amounts.entries())
+    .map(([name, amount]) => ({ name, amount, projects: projectSets.get(name)?.size || 0 }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+export const buildPairMatrix = (rows: ExcelRow[], topN: number): PairMatrix => {
+  const pairProjects = new Map<string, Set<string>>();
+  const all = new Map<string, PairCell>();
+  const designerProjects = new Map<string, Set<string>>();
+  const constructorProjects = new Map<string, Set<string>>();
+  const track = (map: Map<string, Set<string>>, key: string, project: string) => {
+    const set = map.get(key);
+    if (set) set.add(project); else map.set(key, new Set([project]));
+  };
+
+  rows.forEach(r => {
+    const designer = String(r.designer ?? '');
+    const constructor = String(r.constructor ?? '');
+    const key = pairKey(designer, constructor);
+    const cell = all.get(key) || { designer, constructor, amount: 0, projects: 0 };
+    cell.amount += r.spec_amount;
+    all.set(key, cell);
+    track(pairProjects, key, r.project_name);
+    track(designerProjects, designer, r.project_name);
+    track(constructorProjects, constructor, r.project_name);
+  });
+  all.forEach((cell, key) => { cell.projects = pairProjects.get(key)!.size; });
+
+  const pairs = Array.from(all.values()).sort((a, b) => b.amount - a.amount);
+  const designers = totalsOf(pairs, 'designer', designerProjects).slice(0, topN);
+  const constructors = totalsOf(pairs, 'constructor', constructorProjects).slice(0, topN);
+  const dSet = new Set(designers.map(d => d.name));
+  const cSet = new Set(constructors.map(c => c.name));
+  const cells = new Map<string, PairCell>();
+  let maxAmount = 0;
+  let maxProjects = 0;
+  pairs.forEach(p => {
+    if (!dSet.has(p.designer) || !cSet.has(p.constructor)) return;
+    cells.set(pairKey(p.designer, p.constructor), p);
+    maxAmount = Math.max(maxAmount, p.amount);
+    maxProjects = Math.max(maxProjects, p.projects);
+  });
+
+  return { designers, constructors, cells, pairs, maxAmount, maxProjects };
+};
@@ -0,0 +1,138 @@
+import { ExcelRow } from '../types';
+import { STORES, idbDelete, idbGetAll, idbPut } from './db';
+import { toCsv } from '../utils/download';
+
+// --- 업체명 정규화 사전 ---
+// 표기가 다른 업체명(법인 표기, 공백, 영문명 등)을 대표 업체명으로 묶는다. 업로드 시 설계사/시공사에 적용된다.
+export interface CompanyAlias {
+  alias: string;
+  canonical: string;
+  updatedAt: number;
+}
+
+// 법인 표기와 공백/구두점을 제거한 비교용 키
+const LEGAL_FORMS = /\(주\)|㈜|주식회사|\(유\)|유한회사|\(합\)|합자회사|co\.?,?\s*ltd\.?|inc\.?|corp\.?/gi;
+
+export const normalizeCompany = (name: string) =>
+  String(name || '').replace(LEGAL_FORMS, '').replace(/[\s.,·\-_()[\]&]/g, '').toLowerCase();
+
+// 집계/순위/표시에서 쓰는 업체명. 비어 있거나 '-' 이면 '기타'로 묶는다 (대표명 변환은 가져오기 시 applyAliases 가 끝낸 상태).
+export const companyName = (value: string) => (value && value !== '-' ? value : '기타');
+
+export const listAliases = async (): Promise<CompanyAlias[]> => {
+  const all = await idbGetAll<CompanyAlias>(STORES.companyAliases);
+  return all.sort((a, b) => a.canonical.localeCompare(b.canonical) || a.alias.localeCompare(b.alias));
+};
+
+// 대표명이 다른 별칭의 대표명으로 바뀌는 경우 기존 항목도 함께 따라가도록 갱신한다.
+export const putAlias = async (alias: string, canonical: string): Promise<void> => {
+  const all = await idbGetAll<CompanyAlias>(STORES.companyAliases);
+  const resolved = all.find(a => normalizeCompany(a.alias) === normalizeCompany(canonical))?.canonical || canonical;
+  if (alias === resolved) return;
+  const now = Date.now();
+  await idbPut(STORES.companyAliases, alias, { alias, canonical: resolved, updatedAt: now });
+  await Promise.all(all
+    .filter(a => a.canonical === alias)
+    .map(a => idbPut(STORES.companyAliases, a.alias, { ...a, canonical: resolved, updatedAt: now })));
+};
+
+export const deleteAlias = (alias: string) => idbDelete(STORES.companyAliases, alias);
+
+export const buildAliasResolver = (aliases: CompanyAlias[]) => {
+  const exact = new Map(aliases.map(a => [a.alias, a.canonical]));
+  const loose = new Map(aliases.map(a => [normalizeCompany(a.alias), a.canonical]));
+  return (name: string) => {
+    if (!name || name === '-') return name;
+    return exact.get(name) ?? loose.get(normalizeCompany(name)) ?? name;
+  };
+};
+
+export const applyAliases = (rows: ExcelRow[], aliases: CompanyAlias[]): ExcelRow[] => {
+  if (aliases.length === 0) return rows;
+  const resolve = buildAliasResolver(aliases);
+  return rows.map(r => {
+    const designer = resolve(r.designer);
+    const constructor = resolve(r.constructor);
+    return designer === r.designer && constructor === r.constructor ? r : { ...r, designer, constructor };
+  });
+};
+
+export const aliasesToCsv = (aliases: CompanyAlias[]) =>
+  toCsv([
+    ['alias', 'canonical', 'updated_at'],
+    ...aliases.map(a => [a.alias, a.canonical, new Date(a.updatedAt).toISOString()])
+  ]);
+
+// 내보낸 사전(CSV) 또는 같은 키의 JSON 레코드를 다시 읽는다 (CLI 에서 사용).
+export const aliasesFromRecords = (records: any[]): CompanyAlias[] =>
+  records
+    .map(r => ({ alias: String(r.alias ?? '').trim(), canonical: String(r.canonical ?? '').trim(), updatedAt: Number(r.updatedAt) || Date.parse(r.updated_at) || 0 }))
+    .filter(a => a.alias && a.canonical && a.alias !== a.canonical);
+
+// --- 중복 의심 업체 추천 ---
+export interface CompanyCount {
+  name: string;
+  count: number;
+}
+
+export interface AliasSuggestion {
+  // 사용 빈도가 높은 쪽을 대표명으로 제안
+  canonical: string;
+  alias: string;
+  score: number;
+  reason: 'legal_form' | 'similar' | 'contains';
+}
+
+export const SUGGESTION_REASON_LABELS: Record<AliasSuggestion['reason'], string> = {
+  legal_form: '법인 표기 차이',
+  similar: '유사 표기',
+  contains: '포함 관계',
+};
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+// 비교 대상이 많으면 빈도 상위 업체만 본다 (쌍 비교라 비용이 제곱으로 늘어난다).
+const MAX_CANDIDATES = 1500;
+const MIN_SIMILARITY = 0.8;
+
+export const suggestAliases = (companies: CompanyCount[]): AliasSuggestion[] => {
+  const list = companies
+    .filter(c => c.name && c.name !== '-' && c.name !== '기타')
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_CANDIDATES)
+    .map(c => ({ ...c, key: normalizeCompany(c.name) }))
+    .filter(c => c.key.length > 0);
+  const result: AliasSuggestion[] = [];
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      const a = list[i];
+      const b = list[j];
+      let reason: AliasSuggestion['reason'] | null = null;
+      let score = 0;
+      if (a.key === b.key) {
+        reason = 'legal_form';
+        score = 1;
+      } else if (Math.abs(a.key.length - b.key.length) <= 3) {
+        score = 1 - levenshtein(a.key, b.key) / Math.max(a.key.length, b.key.length);
+        if (score >= MIN_SIMILARITY) reason = 'similar';
+      }
+      if (!reason && Math.min(a.key.length, b.key.length) >= 2 && (a.key.includes(b.key) || b.key.includes(a.key))) {
+        reason = 'contains';
+        score = Math.min(a.key.length, b.key.length) / Math.max(a.key.length, b.key.length);
+      }
+      // 정렬상 a 가 더 자주 쓰이는 이름
+      if (reason) result.push({ canonical: a.name, alias: b.name, score, reason });
+    }
+  }
+  return result.sort((x, y) => y.score - x.score);
+};
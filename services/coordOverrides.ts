@@ -0,0 +1,53 @@
+import { ExcelRow } from '../types';
+import { STORES, idbDelete, idbGetAll, idbPut } from './db';
+import { GeoPoint } from './geocoding';
+import { toCsv } from '../utils/download';
+
+// --- 수동 좌표 보정 ---
+// 프로젝트명 기준으로 저장되며, 이후 같은 프로젝트가 업로드될 때마다 다시 적용된다.
+export interface CoordOverride extends GeoPoint {
+  projectName: string;
+  address?: string;
+  updatedAt: number;
+}
+
+export const listOverrides = async (): Promise<CoordOverride[]> => {
+  const all = await idbGetAll<CoordOverride>(STORES.coordOverrides);
+  return all.sort((a, b) => a.projectName.localeCompare(b.projectName));
+};
+
+export const putOverride = async (projectName: string, point: GeoPoint, address?: string): Promise<CoordOverride> => {
+  const override: CoordOverride = { projectName, lat: point.lat, lon: point.lon, address, updatedAt: Date.now() };
+  await idbPut(STORES.coordOverrides, projectName, override);
+  return override;
+};
+
+export const deleteOverride = (projectName: string) => idbDelete(STORES.coordOverrides, projectName);
+
+export const applyOverrides = (rows: ExcelRow[], overrides: CoordOverride[]): ExcelRow[] => {
+  if (overrides.length === 0) return rows;
+  const byName = new Map(overrides.map(o => [o.projectName, o]));
+  return rows.map(r => {
+    const o = byName.get(r.project_name);
+    if (!o) return r;
+    return { ...r, latitude: o.lat, longitude: o.lon, address: o.address || r.address, isGeocoded: false };
+  });
+};
+
+// 내보낸 보정 목록(CSV, project_name/latitude/longitude) 또는 CoordOverride JSON 레코드를 다시 읽는다 (CLI 에서 사용).
+export const overridesFromRecords = (records: any[]): CoordOverride[] =>
+  records
+    .map(r => ({
+      projectName: String(r.project_name ?? r.projectName ?? '').trim(),
+      lat: Number(r.latitude ?? r.lat),
+      lon: Number(r.longitude ?? r.lon),
+      address: r.address ? String(r.address) : undefined,
+      updatedAt: Number(r.updatedAt) || Date.parse(r.updated_at) || 0,
+    }))
+    .filter(o => o.projectName && Number.isFinite(o.lat) && Number.isFinite(o.lon) && o.lat !== 0 && o.lon !== 0);
+
+export const overridesToCsv = (overrides: CoordOverride[]) =>
+  toCsv([
+    ['project_name', 'address', 'latitude', 'longitude', 'updated_at'],
+    ...overrides.map(o => [o.projectName, o.address || '', o.lat, o.lon, new Date(o.updatedAt).toISOString()])
+  ]);
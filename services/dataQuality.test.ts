@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { ExcelRow } from '../types';
+import { DEFAULT_QUALITY_CONFIG, excludedRowIds, runQualityChecks } from './dataQuality';
+
+// 현장 | 연.월 | 제품 | 수량 | 스펙량 | 주소 | 위도,경도  (빈 칸은 '-' 또는 생략)
+const table = (text: string): ExcelRow[] =>
+  text.trim().split('\n').map((line, i) => {
+    const [project, ym, product, quantity, amount, address = '-', coords = ''] = line.split('|').map(c => c.trim());
+    const [year, month] = ym.split('.').map(Number);
+    const [lat, lon] = coords ? coords.split(',').map(Number) : [null, null];
+    return {
+      id: `q${i + 1}`, project_name: project, year, month, product_name: product, quantity: Number(quantity), spec_amount: Number(amount),
+      address, latitude: lat, longitude: lon, progress: '-', designer: '-', constructor: '-',
+    };
+  });
+
+const flagged = (rows: ExcelRow[], rule: Parameters<typeof runQualityChecks>[1][number]) =>
+  runQualityChecks(rows, [], 'Ton').byRule[rule].map(i => i.rowId);
+
+describe('runQualityChecks', () => {
+  it('연/월 누락과 범위 밖 월을 찾는다', () => {
+    const rows = table(`
+      가 | 2024.1  | A | 1 | 10
+      가 | 2024.0  | A | 1 | 10
+      가 | 0.5     | A | 1 | 10
+      가 | 2024.13 | A | 1 | 10`);
+    expect(flagged(rows, 'missing_period')).toEqual(['q2', 'q3', 'q4']);
+  });
+
+  it('대한민국 영역 밖 좌표를 찾는다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1 | 10 | - | 37.5,127
+      나 | 2024.1 | A | 1 | 10 | - | 127,37.5`);
+    expect(flagged(rows, 'out_of_bounds')).toEqual(['q2']);
+  });
+
+  it('완전히 같은 제품 행은 첫 행을 빼고 표시한다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1 | 10
+      가 | 2024.1 | A | 1 | 10
+      가 | 2024.1 | A | 2 | 10
+      가 | 2024.1 | A | 1 | 10`);
+    expect(flagged(rows, 'duplicate_row')).toEqual(['q2', 'q4']);
+  });
+
+  it('메시지의 스펙량은 설정한 단위로 적는다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1 | 1200
+      가 | 2024.1 | A | 1 | 1200`);
+    expect(runQualityChecks(rows, [], 'kg').byRule.duplicate_row[0].message).toBe('2024.1 A 1,200kg 와 같은 행 (2번째)');
+  });
+
+  it('같은 제품의 수량당 스펙량 중앙값과 10배 이상 차이 나는 행을 찾는다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1  | 10
+      가 | 2024.2 | A | 2  | 20
+      가 | 2024.3 | A | 1  | 12
+      가 | 2024.4 | A | 1  | 9
+      가 | 2024.5 | A | 1  | 500
+      가 | 2024.6 | A | 10 | 5
+      가 | 2024.7 | B | 1  | 500`);
+    expect(flagged(rows, 'ratio_outlier')).toEqual(['q5', 'q6']);
+  });
+
+  it('표본이 충분할 때만 스펙량 이상치를 찾는다', () => {
+    const normal = Array.from({ length: 19 }, (_, i) => `가 | 2024.1 | A | 1 | ${100 + i}`).join('\n');
+    expect(flagged(table(`${normal}\n가 | 2024.1 | A | 1 | 1000000`), 'amount_outlier')).toEqual(['q20']);
+    expect(flagged(table(`가 | 2024.1 | A | 1 | 100\n가 | 2024.1 | A | 1 | 1000000`), 'amount_outlier')).toEqual([]);
+  });
+
+  it('현장 대표 주소(가장 많이 쓰인 주소)와 다른 행만 표시하고 표기 차이(공백/구두점)는 무시한다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1 | 10 | 서울 중구 세종대로 110
+      가 | 2024.2 | A | 1 | 10 | 서울 중구 세종대로110
+      가 | 2024.3 | A | 1 | 10 | 서울 종로구 1
+      가 | 2024.4 | A | 1 | 10 | -`);
+    expect(flagged(rows, 'inconsistent_address')).toEqual(['q3']);
+  });
+
+  it('주소별 행 수가 같으면 가장 최근 행의 주소를 대표로 본다', () => {
+    const rows = table(`
+      나 | 2024.5 | A | 1 | 10 | 부산 수영구 2
+      나 | 2024.1 | A | 1 | 10 | 부산 해운대구 1`);
+    expect(flagged(rows, 'inconsistent_address')).toEqual(['q2']);
+  });
+
+  it('현장 대표 좌표에서 2km 이상 떨어진 행을 찾는다', () => {
+    const rows = table(`
+      가 | 2024.1 | A | 1 | 10 | - | 37.5,127
+      가 | 2024.2 | A | 1 | 10 | - | 37.5001,127
+      가 | 2024.3 | A | 1 | 10 | - | 37.6,127`);
+    expect(flagged(rows, 'inconsistent_coords')).toEqual(['q3']);
+  });
+
+  it('꺼 둔 규칙은 검사하지 않고, 걸린 행은 한 번만 센다', () => {
+    const rows = table(`
+      가 | 2024.0 | A | 1 | 10 | - | 127,37.5
+      가 | 2024.0 | A | 1 | 10 | - | 127,37.5`);
+    const report = runQualityChecks(rows, ['duplicate_row'], 'Ton');
+    expect(report.byRule.duplicate_row).toEqual([]);
+    expect(report.issues.map(i => i.rule)).toEqual(['missing_period', 'missing_period', 'out_of_bounds', 'out_of_bounds']);
+    expect(report.flaggedIds).toEqual(new Set(['q1', 'q2']));
+    expect(report.checkedRows).toBe(2);
+  });
+});
+
+describe('excludedRowIds', () => {
+  const rows = table(`
+    가 | 2024.0 | A | 1 | 10
+    가 | 2024.1 | A | 1 | 10 | 서울 중구 1
+    가 | 2024.2 | A | 1 | 10 | 서울 중구 1
+    가 | 2024.3 | A | 1 | 10 | 서울 종로구 1`);
+  const report = runQualityChecks(rows, [], 'Ton');
+
+  it('제외가 꺼져 있으면 아무 행도 빼지 않는다', () => {
+    expect(excludedRowIds(report, DEFAULT_QUALITY_CONFIG)).toEqual(new Set());
+  });
+
+  it('기본으로는 오류 등급 규칙에 걸린 행만 뺀다', () => {
+    expect(excludedRowIds(report, { ...DEFAULT_QUALITY_CONFIG, excludeFlagged: true })).toEqual(new Set(['q1']));
+  });
+
+  it('고른 규칙에 걸린 행을 뺀다', () => {
+    expect(excludedRowIds(report, { ...DEFAULT_QUALITY_CONFIG, excludeFlagged: true, excludeRules: ['inconsistent_address'] })).toEqual(new Set(['q4']));
+  });
+});
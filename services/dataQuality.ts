@@ -0,0 +1,199 @@
+import { ExcelRow } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { distanceKm } from './spatialSelection';
+import { latestRow } from './projectHistory';
+import { toCsv } from '../utils/download';
+
+// --- 데이터 품질 규칙 ---
+// 가져온 행을 규칙별로 검사해 의심 행을 표시한다. 행을 고치거나 지우지는 않고, KPI 에서 제외할지와 어떤 규칙을 뺄지는 사용자가 고른다.
+export type QualityRuleId =
+  | 'missing_period' | 'out_of_bounds' | 'duplicate_row'
+  | 'amount_outlier' | 'ratio_outlier' | 'inconsistent_address' | 'inconsistent_coords';
+
+export type QualitySeverity = 'error' | 'warning';
+
+export interface QualityRule {
+  id: QualityRuleId;
+  label: string;
+  severity: QualitySeverity;
+  description: string;
+}
+
+export const QUALITY_RULES: QualityRule[] = [
+  { id: 'missing_period', label: '연/월 누락', severity: 'error', description: '연도 또는 월이 0 이거나 1~12 범위를 벗어난 행' },
+  { id: 'out_of_bounds', label: '국외 좌표', severity: 'error', description: '좌표가 대한민국 영역(위도 33~38.7, 경도 124.5~132)을 벗어난 행' },
+  { id: 'duplicate_row', label: '중복 제품 행', severity: 'error', description: '현장·연월·제품·수량·스펙량이 모두 같은 행 (첫 행을 뺀 나머지)' },
+  { id: 'amount_outlier', label: '스펙량 이상치', severity: 'warning', description: '스펙량이 전체 분포(로그 척도 사분위 범위의 3배)를 크게 벗어난 행' },
+  { id: 'ratio_outlier', label: '수량당 스펙량 이상치', severity: 'warning', description: '같은 제품의 수량당 스펙량 중앙값과 10배 이상 차이 나는 행' },
+  { id: 'inconsistent_address', label: '현장 주소 불일치', severity: 'warning', description: '같은 현장의 대표 주소(가장 많이 쓰인 주소)와 다른 주소가 적힌 행' },
+  { id: 'inconsistent_coords', label: '현장 좌표 불일치', severity: 'warning', description: '같은 현장의 좌표가 서로 2km 이상 떨어진 행' },
+];
+
+export const QUALITY_RULE_MAP = Object.fromEntries(QUALITY_RULES.map(r => [r.id, r])) as Record<QualityRuleId, QualityRule>;
+
+export interface QualityIssue {
+  rule: QualityRuleId;
+  rowId: string;
+  projectName: string;
+  message: string;
+}
+
+export interface QualityReport {
+  issues: QualityIssue[];
+  byRule: Record<QualityRuleId, QualityIssue[]>;
+  // 한 규칙이라도 걸린 행
+  flaggedIds: Set<string>;
+  checkedRows: number;
+}
+
+export interface QualityConfig {
+  disabled: QualityRuleId[];
+  // KPI·차트·지도 집계에서 excludeRules 에 걸린 행을 뺀다
+  excludeFlagged: boolean;
+  excludeRules: QualityRuleId[];
+}
+
+// 경고 등급(이상치, 불일치)은 실제 물량일 수 있어 기본으로는 오류 등급만 집계에서 뺀다.
+export const DEFAULT_QUALITY_CONFIG: QualityConfig = {
+  disabled: [],
+  excludeFlagged: false,
+  excludeRules: QUALITY_RULES.filter(r => r.severity === 'error').map(r => r.id),
+};
+
+const CONFIG_KEY = 'qualityConfig';
+
+export const loadQualityConfig = async (): Promise<QualityConfig> => {
+  const saved = await idbGet<QualityConfig>(STORES.settings, CONFIG_KEY);
+  return saved ? { ...DEFAULT_QUALITY_CONFIG, ...saved } : DEFAULT_QUALITY_CONFIG;
+};
+
+export const saveQualityConfig = (config: QualityConfig) => idbPut(STORES.settings, CONFIG_KEY, config);
+
+// --- 규칙 구현 ---
+const KOREA_BOUNDS = { minLat: 33, maxLat: 38.7, minLon: 124.5, maxLon: 132 };
+const AMOUNT_IQR_FACTOR = 3;
+const AMOUNT_MIN_SAMPLES = 20;
+const RATIO_FACTOR = 10;
+const RATIO_MIN_SAMPLES = 5;
+const COORD_SPREAD_KM = 2;
+
+const hasCoords = (r: ExcelRow) => !!(r.latitude && r.longitude);
+const blank = (v: string) => !v || v.trim() === '' || v.trim() === '-';
+const normalizeAddress = (v: string) => v.replace(/\s+/g, '').replace(/[(),.\-]/g, '');
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+const median = (values: number[]) => quantile([...values].sort((a, b) => a - b), 0.5);
+
+const groupBy = <T,>(items: T[], keyOf: (item: T) => string) => {
+  const map = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    const list = map.get(key);
+    if (list) list.push(item); else map.set(key, [item]);
+  });
+  return map;
+};
+
+const issue = (rule: QualityRuleId, r: ExcelRow, message: string): QualityIssue => ({ rule, rowId: r.id, projectName: r.project_name, message });
+
+// unit: 메시지에 적을 스펙량 단위
+const CHECKS: Record<QualityRuleId, (rows: ExcelRow[], unit: string) => QualityIssue[]> = {
+  missing_period: rows => rows
+    .filter(r => !r.year || !r.month || r.month < 1 || r.month > 12)
+    .map(r => issue('missing_period', r, `연도 ${r.year || '없음'} / 월 ${r.month || '없음'}`)),
+
+  out_of_bounds: rows => rows
+    .filter(r => hasCoords(r) && (r.latitude! < KOREA_BOUNDS.minLat || r.latitude! > KOREA_BOUNDS.maxLat || r.longitude! < KOREA_BOUNDS.minLon || r.longitude! > KOREA_BOUNDS.maxLon))
+    .map(r => issue('out_of_bounds', r, `좌표 ${r.latitude!.toFixed(4)}, ${r.longitude!.toFixed(4)}${r.isGeocoded ? ' (주소 변환 결과)' : ''}`)),
+
+  duplicate_row: (rows, unit) => {
+    const out: QualityIssue[] = [];
+    groupBy(rows, r => [r.project_name, r.year, r.month, r.product_name, r.quantity, r.spec_amount].join('|')).forEach(list => {
+      list.slice(1).forEach((r, i) => out.push(issue('duplicate_row', r, `${r.year}.${r.month} ${r.product_name} ${r.spec_amount.toLocaleString()}${unit} 와 같은 행 (${i + 2}번째)`)));
+    });
+    return out;
+  },
+
+  amount_outlier: (rows, unit) => {
+    const positive = rows.filter(r => r.spec_amount > 0);
+    if (positive.length < AMOUNT_MIN_SAMPLES) return [];
+    const logs = positive.map(r => Math.log10(r.spec_amount)).sort((a, b) => a - b);
+    const q1 = quantile(logs, 0.25);
+    const q3 = quantile(logs, 0.75);
+    const spread = Math.max(q3 - q1, 0.25) * AMOUNT_IQR_FACTOR;
+    return positive
+      .filter(r => Math.log10(r.spec_amount) > q3 + spread || Math.log10(r.spec_amount) < q1 - spread)
+      .map(r => issue('amount_outlier', r, `스펙량 ${r.spec_amount.toLocaleString()}${unit} (중앙값 ${Math.round(10 ** quantile(logs, 0.5)).toLocaleString()}${unit})`));
+  },
+
+  ratio_outlier: (rows, unit) => {
+    const out: QualityIssue[] = [];
+    groupBy(rows.filter(r => r.quantity > 0 && r.spec_amount > 0), r => r.product_name).forEach((list, product) => {
+      if (list.length < RATIO_MIN_SAMPLES) return;
+      const mid = median(list.map(r => r.spec_amount / r.quantity));
+      list.forEach(r => {
+        const ratio = r.spec_amount / r.quantity;
+        if (ratio > mid * RATIO_FACTOR || ratio < mid / RATIO_FACTOR) {
+          out.push(issue('ratio_outlier', r, `${product} 수량당 ${ratio.toFixed(2)}${unit} (제품 중앙값 ${mid.toFixed(2)}${unit})`));
+        }
+      });
+    });
+    return out;
+  },
+
+  // 가장 많이 쓰인 주소(같으면 최신 행의 주소)를 대표로 보고, 그와 다른 행만 표시한다.
+  inconsistent_address: rows => {
+    const out: QualityIssue[] = [];
+    groupBy(rows.filter(r => !blank(r.address)), r => r.project_name).forEach(list => {
+      const variants = groupBy(list, r => normalizeAddress(r.address));
+      if (variants.size < 2) return;
+      const latestKey = normalizeAddress(latestRow(list)!.address);
+      const [mainKey, mainRows] = Array.from(variants.entries()).reduce((best, cur) =>
+        (cur[1].length > best[1].length || (cur[1].length === best[1].length && cur[0] === latestKey) ? cur : best));
+      list.forEach(r => {
+        if (normalizeAddress(r.address) !== mainKey) out.push(issue('inconsistent_address', r, `"${r.address}" - 대표 주소 "${mainRows[0].address}" 와 다름 (주소 ${variants.size}가지)`));
+      });
+    });
+    return out;
+  },
+
+  inconsistent_coords: rows => {
+    const out: QualityIssue[] = [];
+    groupBy(rows.filter(hasCoords), r => r.project_name).forEach(list => {
+      if (list.length < 2) return;
+      const center = { lat: median(list.map(r => r.latitude!)), lon: median(list.map(r => r.longitude!)) };
+      list.forEach(r => {
+        const km = distanceKm(center, { lat: r.latitude!, lon: r.longitude! });
+        if (km >= COORD_SPREAD_KM) out.push(issue('inconsistent_coords', r, `현장 대표 좌표에서 ${km.toFixed(1)}km 떨어짐`));
+      });
+    });
+    return out;
+  },
+};
+
+export const runQualityChecks = (rows: ExcelRow[], disabled: QualityRuleId[], amountUnit: string): QualityReport => {
+  const byRule = {} as Record<QualityRuleId, QualityIssue[]>;
+  QUALITY_RULES.forEach(rule => { byRule[rule.id] = disabled.includes(rule.id) ? [] : CHECKS[rule.id](rows, amountUnit); });
+  const issues = QUALITY_RULES.flatMap(rule => byRule[rule.id]);
+  return { issues, byRule, flaggedIds: new Set(issues.map(i => i.rowId)), checkedRows: rows.length };
+};
+
+// 고른 규칙에 걸린 행
+export const flaggedIdsFor = (report: QualityReport, rules: QualityRuleId[]) =>
+  new Set(rules.flatMap(rule => report.byRule[rule].map(i => i.rowId)));
+
+// 집계에서 뺄 행 (제외가 꺼져 있으면 빈 집합)
+export const excludedRowIds = (report: QualityReport, config: QualityConfig) =>
+  (config.excludeFlagged ? flaggedIdsFor(report, config.excludeRules) : new Set<string>());
+
+export const qualityIssuesToCsv = (issues: QualityIssue[]) =>
+  toCsv([
+    ['rule', 'severity', 'project_name', 'row_id', 'message'],
+    ...issues.map(i => [QUALITY_RULE_MAP[i.rule].label, QUALITY_RULE_MAP[i.rule].severity, i.projectName, i.rowId, i.message]),
+  ]);
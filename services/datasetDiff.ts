@@ -0,0 +1,119 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { groupProjects } from './aggregation';
+import { toCsv } from '../utils/download';
+
+// --- 데이터셋 비교 ---
+export type ChangeType = 'project_added' | 'project_removed' | 'progress' | 'product_added' | 'product_removed' | 'product_changed';
+
+export const CHANGE_LABELS: Record<ChangeType, string> = {
+  project_added: '신규 현장',
+  project_removed: '삭제 현장',
+  progress: '진행내용 변경',
+  product_added: '제품 추가',
+  product_removed: '제품 삭제',
+  product_changed: '스펙 변경',
+};
+
+export interface ChangeLogEntry {
+  project: string;
+  type: ChangeType;
+  product?: string;
+  before?: string;
+  after?: string;
+  amountBefore: number;
+  amountAfter: number;
+  quantityBefore: number;
+  quantityAfter: number;
+}
+
+export type ProjectDiffStatus = 'added' | 'removed' | 'changed';
+
+export interface ProjectDiff {
+  project: GroupedProject;
+  status: ProjectDiffStatus;
+  amountDelta: number;
+  changes: ChangeLogEntry[];
+}
+
+export interface DatasetDiff {
+  projects: ProjectDiff[];
+  log: ChangeLogEntry[];
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+// 같은 제품이 여러 월/행에 걸쳐 있으면 합산해 비교한다.
+const productTotals = (p: GroupedProject) => {
+  const totals = new Map<string, { amount: number; quantity: number }>();
+  p.specs.forEach(s => {
+    const t = totals.get(s.product) || { amount: 0, quantity: 0 };
+    t.amount += s.amount;
+    t.quantity += s.quantity;
+    totals.set(s.product, t);
+  });
+  return totals;
+};
+
+const EPSILON = 1e-9;
+
+export const diffDatasets = (baseRows: ExcelRow[], currentRows: ExcelRow[]): DatasetDiff => {
+  const base = new Map(groupProjects(baseRows).map(p => [p.name, p]));
+  const current = new Map(groupProjects(currentRows).map(p => [p.name, p]));
+  const projects: ProjectDiff[] = [];
+  let unchanged = 0;
+
+  current.forEach((cur, name) => {
+    const prev = base.get(name);
+    if (!prev) {
+      const entry: ChangeLogEntry = { project: name, type: 'project_added', after: cur.progress, amountBefore: 0, amountAfter: cur.totalAmount, quantityBefore: 0, quantityAfter: cur.specs.reduce((s, x) => s + x.quantity, 0) };
+      projects.push({ project: cur, status: 'added', amountDelta: cur.totalAmount, changes: [entry] });
+      return;
+    }
+    const changes: ChangeLogEntry[] = [];
+    if (prev.progress !== cur.progress) {
+      changes.push({ project: name, type: 'progress', before: prev.progress, after: cur.progress, amountBefore: 0, amountAfter: 0, quantityBefore: 0, quantityAfter: 0 });
+    }
+    const prevTotals = productTotals(prev);
+    const curTotals = productTotals(cur);
+    new Set([...prevTotals.keys(), ...curTotals.keys()]).forEach(product => {
+      const b = prevTotals.get(product);
+      const a = curTotals.get(product);
+      const type: ChangeType | null = !b ? 'product_added' : !a ? 'product_removed'
+        : Math.abs(a.amount - b.amount) > EPSILON || Math.abs(a.quantity - b.quantity) > EPSILON ? 'product_changed' : null;
+      if (!type) return;
+      changes.push({
+        project: name, type, product,
+        amountBefore: b?.amount || 0, amountAfter: a?.amount || 0,
+        quantityBefore: b?.quantity || 0, quantityAfter: a?.quantity || 0,
+      });
+    });
+    if (changes.length > 0) projects.push({ project: cur, status: 'changed', amountDelta: cur.totalAmount - prev.totalAmount, changes });
+    else unchanged++;
+  });
+
+  base.forEach((prev, name) => {
+    if (current.has(name)) return;
+    const entry: ChangeLogEntry = { project: name, type: 'project_removed', before: prev.progress, amountBefore: prev.totalAmount, amountAfter: 0, quantityBefore: prev.specs.reduce((s, x) => s + x.quantity, 0), quantityAfter: 0 };
+    projects.push({ project: prev, status: 'removed', amountDelta: -prev.totalAmount, changes: [entry] });
+  });
+
+  return {
+    projects,
+    log: projects.flatMap(p => p.changes),
+    counts: {
+      added: projects.filter(p => p.status === 'added').length,
+      removed: projects.filter(p => p.status === 'removed').length,
+      changed: projects.filter(p => p.status === 'changed').length,
+      unchanged,
+    },
+  };
+};
+
+export const changeLogToCsv = (log: ChangeLogEntry[]) =>
+  toCsv([
+    ['현장명', '변경 유형', '제품명', '이전', '이후', '스펙량(이전)', '스펙량(이후)', '스펙량 증감', '수량(이전)', '수량(이후)', '수량 증감'],
+    ...log.map(e => [
+      e.project, CHANGE_LABELS[e.type], e.product || '', e.before || '', e.after || '',
+      e.amountBefore, e.amountAfter, e.amountAfter - e.amountBefore,
+      e.quantityBefore, e.quantityAfter, e.quantityAfter - e.quantityBefore,
+    ])
+  ]);
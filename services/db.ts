@@ -0,0 +1,85 @@
+// --- IndexedDB 공통 헬퍼 ---
+const DB_NAME = 'dc-spec-dashboard';
+const DB_VERSION = 6;
+
+export const STORES = {
+  snapshots: 'snapshots',
+  snapshotRows: 'snapshotRows',
+  settings: 'settings',
+  geocodeCache: 'geocodeCache',
+  coordOverrides: 'coordOverrides',
+  companyAliases: 'companyAliases',
+  projectNotes: 'projectNotes',
+  snapshotTargets: 'snapshotTargets',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+const wrap = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return wrap<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDB();
+  return wrap<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const idbPut = async (store: StoreName, key: string, value: unknown): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+// 여러 저장소에 한 트랜잭션으로 기록한다. 하나라도 실패하면 전부 취소된다.
+export const idbPutAll = async (entries: { store: StoreName; key: string; value: unknown }[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(Array.from(new Set(entries.map(e => e.store))), 'readwrite');
+  entries.forEach(e => tx.objectStore(e.store).put(e.value, e.key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbCount = async (store: StoreName): Promise<number> => {
+  const db = await openDB();
+  return wrap<number>(db.transaction(store, 'readonly').objectStore(store).count());
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { ExcelRow } from '../types';
+import { adjustRows, buildReport, buildTrends, loadRows, summarize, summaryDeltas } from './engine';
+import { DEFAULT_QUALITY_CONFIG } from './dataQuality';
+import { PeriodSelection, toYm } from './timePeriods';
+
+// 연, 월, 현장, 시공사, 설계사, 스펙량
+type Line = [number, number, string, string, string, number];
+
+const toRows = (lines: Line[]): ExcelRow[] =>
+  lines.map(([year, month, project_name, constructor, designer, spec_amount], i) => ({
+    id: `e${i}`, project_name, year, month, constructor, designer, spec_amount,
+    progress: '-', address: '-', latitude: null, longitude: null, product_name: 'A', quantity: 1,
+  }));
+
+const rows = toRows([
+  [2023, 3, '가', '한빛건설', '누리설계', 100],
+  [2023, 7, '나', '대한건설', '-', 50],
+  [2024, 3, '가', '한빛건설', '누리설계', 150],
+  [2024, 4, '다', '대한건설', '새길설계', 200],
+  [2024, 5, '다', '대한건설', '새길설계', 25],
+]);
+const y2023 = rows.filter(r => r.year === 2023);
+const y2024 = rows.filter(r => r.year === 2024);
+const wholeYear = (year: number): PeriodSelection => ({ mode: 'month', year, month: 0, sub: 0, from: null, to: null });
+
+describe('summarize', () => {
+  it('현장 수와 총 스펙, 업체별 순위를 집계한다', () => {
+    const s = summarize(y2024);
+    expect(s.siteCount).toBe(2);
+    expect(s.totalSpec).toBe(375);
+    expect(s.top3Cons).toEqual([{ name: '대한건설', amount: 225 }, { name: '한빛건설', amount: 150 }]);
+    expect(s.top3Des[0]).toEqual({ name: '새길설계', amount: 225 });
+  });
+
+  it('비어 있는 업체명은 기타로 묶는다', () => {
+    expect(summarize(y2023).desMap).toEqual({ 누리설계: 100, 기타: 50 });
+  });
+});
+
+describe('summaryDeltas', () => {
+  it('KPI 카드 순서대로 전년 대비 증감을 설정한 단위로 적고 리딩 업체는 같은 업체의 전년 물량과 비교한다', () => {
+    expect(summaryDeltas(summarize(y2024), summarize(y2023), 'kg')).toEqual(['0개소 (0.0%)', '+225kg (+150.0%)', '+175kg (+350.0%)', '+225kg']);
+  });
+});
+
+describe('buildTrends', () => {
+  const window = { from: toYm(2024, 1), to: toYm(2024, 12) };
+
+  it('연도별 / 분기 추이 / 설계사 상위를 만들고 전년 값을 함께 둔다', () => {
+    const trends = buildTrends(rows, summarize(y2024), summarize(y2023), window, 'quarter', true);
+    expect(trends.yearTrend).toEqual([{ label: '2023년', value: 150 }, { label: '2024년', value: 375 }]);
+    expect(trends.yearCompare).toEqual([0, 150]);
+    expect(trends.periodTrend.map(p => p.value)).toEqual([150, 225, 0, 0]);
+    expect(trends.periodCompare).toEqual([100, 0, 50, 0]);
+    expect(trends.designerTrend.map(d => d.label)).toEqual(['새길설계', '누리설계']);
+    expect(trends.designerCompare).toEqual([0, 100]);
+  });
+
+  it('전년 값은 compareRows 에서 읽는다 (화면에서 필터를 건 전년 동기 집합)', () => {
+    const trends = buildTrends(y2024, summarize(y2024), null, window, 'half', true, y2023.slice(0, 1));
+    expect(trends.yearTrend).toEqual([{ label: '2024년', value: 375 }]);
+    expect(trends.yearCompare).toEqual([100]);
+    expect(trends.periodCompare).toEqual([100, 0]);
+    expect(trends.designerCompare).toBeUndefined();
+  });
+
+  it('비교하지 않으면 전년 값을 만들지 않는다', () => {
+    const trends = buildTrends(rows, summarize(rows), null, null, 'month', false);
+    expect(trends.yearCompare).toBeUndefined();
+    expect(trends.periodTrend).toEqual([]);
+    expect(trends.periodCompare).toBeUndefined();
+  });
+});
+
+describe('loadRows', () => {
+  const sources = [
+    { file: 'a.csv', sheet: 'a', json: [{ 현장명: '가', 연도: 2024, 월: 1, 스펙량: '1,000' }, { 현장명: '나', 연도: 2024, 월: '', 스펙량: 5 }] },
+    { file: 'b.csv', sheet: 'b', json: [{ 현장명: '다', 연도: 2024, 월: 2, 스펙량: 1200 }] },
+  ];
+
+  it('자동 감지한 컬럼으로 파일을 합치고 오류 행은 미리보기 기본값처럼 남긴다', () => {
+    const loaded = loadRows(sources);
+    expect(loaded.rows.map(r => [r.project_name, r.spec_amount, r.source_file])).toEqual([['가', 1000, 'a.csv'], ['나', 5, 'a.csv'], ['다', 1200, 'b.csv']]);
+    expect(loaded.invalid).toBe(1);
+    expect(loaded.excluded).toBe(0);
+    expect(loaded.issues.map(i => i.kind)).toEqual(['missing_month']);
+  });
+
+  it('excludeInvalid 면 오류 행을 뺀다', () => {
+    const loaded = loadRows(sources, { excludeInvalid: true });
+    expect(loaded.rows.map(r => r.project_name)).toEqual(['가', '다']);
+    expect(loaded.excluded).toBe(1);
+  });
+});
+
+describe('adjustRows', () => {
+  it('좌표 보정과 업체명 사전을 대시보드와 같은 순서로 적용한다', () => {
+    const { rows: [adjusted], quality } = adjustRows(toRows([[2024, 1, '가', '(주)한빛건설', '-', 10]]), {
+      aliases: [{ alias: '(주)한빛건설', canonical: '한빛건설', updatedAt: 0 }],
+      overrides: [{ projectName: '가', lat: 37.5, lon: 127, address: '서울', updatedAt: 0 }],
+      amountUnit: 'Ton',
+    });
+    expect(adjusted).toMatchObject({ constructor: '한빛건설', latitude: 37.5, longitude: 127, address: '서울', isGeocoded: false });
+    expect(quality).toBeNull();
+  });
+
+  it('보정이 없으면 행을 그대로 둔다', () => {
+    expect(adjustRows(rows, { amountUnit: 'Ton' }).rows).toBe(rows);
+  });
+
+  it('품질 제외를 켜면 제외 대상 규칙에 걸린 행만 뺀다', () => {
+    const input = toRows([[2024, 1, '가', '한빛건설', '-', 10], [2024, 0, '가', '한빛건설', '-', 5]]);
+    const off = adjustRows(input, { quality: { ...DEFAULT_QUALITY_CONFIG, excludeFlagged: false }, amountUnit: 'Ton' });
+    expect(off.rows).toBe(input);
+    expect(off.quality?.flaggedIds).toEqual(new Set(['e1']));
+    const on = adjustRows(input, { quality: { ...DEFAULT_QUALITY_CONFIG, excludeFlagged: true }, amountUnit: 'Ton' });
+    expect(on.rows.map(r => r.id)).toEqual(['e0']);
+    expect(on.qualityExcluded).toBe(1);
+    const warningsOnly = adjustRows(input, { quality: { ...DEFAULT_QUALITY_CONFIG, excludeFlagged: true, excludeRules: ['ratio_outlier'] }, amountUnit: 'Ton' });
+    expect(warningsOnly.rows).toBe(input);
+  });
+});
+
+describe('buildReport', () => {
+  it('선택 기간을 집계하고 전년 동기와 비교한다', () => {
+    const { report, filtered, projects } = buildReport(rows, { selection: wholeYear(2024), granularity: 'month', compare: true, top: 1, amountUnit: 'kg' });
+    expect(filtered).toEqual(y2024);
+    expect(projects.map(p => p.name).sort()).toEqual(['가', '다']);
+    expect(report.period).toBe('2024년');
+    expect(report.comparedTo).toBe('2023년');
+    expect(report.amountUnit).toBe('kg');
+    expect(report.summary).toEqual({ siteCount: 2, totalSpec: 375, leadConstructor: { name: '대한건설', amount: 225 }, leadDesigner: { name: '새길설계', amount: 225 } });
+    expect(report.deltas?.[1]).toBe('+225kg (+150.0%)');
+    expect(report.rankings.constructor).toHaveLength(1);
+    expect(report.trends.periodTrend).toHaveLength(12);
+  });
+
+  it('연도를 특정하지 않으면 비교하지 않는다', () => {
+    const { report } = buildReport(rows, { selection: wholeYear(0), granularity: 'month', compare: true, top: 0, amountUnit: 'kg' });
+    expect(report.comparedTo).toBeNull();
+    expect(report.deltas).toBeNull();
+    expect(report.rankings.designer.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { ImportSource, ImportIssue, MappedField, DEFAULT_DEDUPE_KEY, extractHeaders, detectMapping, mergeSources } from './importMapping';
+import { groupProjects } from './aggregation';
+import { CompanyAlias, companyName, applyAliases } from './companyAliases';
+import { CoordOverride, applyOverrides } from './coordOverrides';
+import { QualityConfig, QualityReport, runQualityChecks, excludedRowIds } from './dataQuality';
+import { rankBy } from './exporters';
+import { PeriodSelection, Granularity, YmWindow, periodMatcher, previousYearSelection, describePeriod, trendWindow, buildPeriodSeries, shiftWindow, delta, formatDelta } from './timePeriods';
+
+// --- 대시보드 집계 엔진 ---
+// 화면(App)과 CLI 가 같은 숫자를 내도록 KPI/순위/추이 계산을 React 밖에 둔다. DOM/IndexedDB 에 의존하지 않는다.
+
+export interface RankedCompany {
+  name: string;
+  amount: number;
+}
+
+export interface Summary {
+  siteCount: number;
+  totalSpec: number;
+  top3Cons: RankedCompany[];
+  top3Des: RankedCompany[];
+  consMap: Record<string, number>;
+  desMap: Record<string, number>;
+}
+
+// KPI / 랭킹 집계 (선택 기간과 전년 동기에 같은 방식으로 사용)
+export const summarize = (rows: ExcelRow[]): Summary => {
+  const uniqueProjects = new Set(rows.map(d => d.project_name));
+  const totalSpec = rows.reduce((sum, d) => sum + (Number(d.spec_amount) || 0), 0);
+  const consMap: Record<string, number> = {};
+  const desMap: Record<string, number> = {};
+
+  rows.forEach(d => {
+    const c = companyName(d.constructor);
+    const ds = companyName(d.designer);
+    consMap[c] = (consMap[c] || 0) + (Number(d.spec_amount) || 0);
+    desMap[ds] = (desMap[ds] || 0) + (Number(d.spec_amount) || 0);
+  });
+
+  const top3Cons = Object.entries(consMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name, amount]) => ({ name, amount }));
+  const top3Des = Object.entries(desMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name, amount]) => ({ name, amount }));
+
+  return { siteCount: uniqueProjects.size, totalSpec, top3Cons, top3Des, consMap, desMap };
+};
+
+// KPI 카드 순서(현장 수, 총 스펙, 리딩 시공사, 리딩 설계사)의 전년 동기 대비 증감.
+// 리딩 업체는 같은 업체의 전년 물량과 비교한다.
+export const summaryDeltas = (current: Summary, previous: Summary, amountUnit: string): (string | null)[] => {
+  const lead = (name: string | undefined, map: Record<string, number>, prevMap: Record<string, number>) =>
+    name ? formatDelta(delta(map[name] || 0, prevMap[name] || 0), amountUnit) : null;
+  return [
+    formatDelta(delta(current.siteCount, previous.siteCount), '개소'),
+    formatDelta(delta(current.totalSpec, previous.totalSpec), amountUnit),
+    lead(current.top3Cons[0]?.name, current.consMap, previous.consMap),
+    lead(current.top3Des[0]?.name, current.desMap, previous.desMap),
+  ];
+};
+
+export interface TrendPoint {
+  label: string;
+  value: number;
+}
+
+export interface Trends {
+  yearTrend: TrendPoint[];
+  yearCompare?: number[];
+  periodTrend: TrendPoint[];
+  periodCompare?: number[];
+  designerTrend: TrendPoint[];
+  designerCompare?: number[];
+}
+
+const yearTotals = (rows: ExcelRow[]) => {
+  const map: Record<number, number> = {};
+  rows.forEach(d => { map[d.year] = (map[d.year] || 0) + d.spec_amount; });
+  return map;
+};
+
+// 연도별 / 기간 추이 / 설계사 상위 5 차트 데이터. compare 면 전년 값을 함께 만든다.
+// 전년 값은 compareRows 에서 읽는다 (기본: rows) - 화면에서 전년 동기에 다른 조건(단계 판정 등)을 쓸 때 넘긴다.
+export const buildTrends = (rows: ExcelRow[], summary: Summary, previousSummary: Summary | null, window: YmWindow | null, granularity: Granularity, compare: boolean, compareRows: ExcelRow[] = rows): Trends => {
+  const yearTrendMap = yearTotals(rows);
+  const years = Object.keys(yearTrendMap).map(Number).sort((a, b) => a - b);
+  const yearTrend = years.map(y => ({ label: `${y}년`, value: yearTrendMap[y] }));
+  const yearCompareMap = compare ? (compareRows === rows ? yearTrendMap : yearTotals(compareRows)) : null;
+  const yearCompare = yearCompareMap ? years.map(y => yearCompareMap[y - 1] || 0) : undefined;
+
+  // 기간 추이: 범위 모드는 선택 범위, 그 외에는 선택(또는 최신) 연도를 월/분기/반기로 묶는다.
+  const periodTrend = window ? buildPeriodSeries(rows, window, granularity) : [];
+  const periodCompare = window && compare ? buildPeriodSeries(compareRows, shiftWindow(window, -12), granularity).map(b => b.value) : undefined;
+
+  const designerTrend = Object.entries(summary.desMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([label, value]) => ({ label, value }));
+  const designerCompare = previousSummary ? designerTrend.map(d => previousSummary.desMap[d.label] || 0) : undefined;
+
+  return { yearTrend, yearCompare, periodTrend, periodCompare, designerTrend, designerCompare };
+};
+
+// --- 파일 → 행 ---
+export interface LoadedRows {
+  rows: ExcelRow[];
+  issues: ImportIssue[];
+  // 연/월 누락 등 오류 행 수와 그중 제외된 행 수
+  invalid: number;
+  excluded: number;
+}
+
+// 가져오기 미리보기와 같은 자동 컬럼 감지/병합 규칙을 쓴다.
+// 오류 행도 미리보기의 기본값("오류 행 제외" 해제)처럼 남기고, excludeInvalid 일 때만 뺀다.
+export const loadRows = (sources: ImportSource[], options: { dedupeKey?: MappedField[]; excludeInvalid?: boolean } = {}): LoadedRows => {
+  const mapping = detectMapping(extractHeaders(sources.flatMap(s => s.json)));
+  const { rows, issues, invalidIds } = mergeSources(sources, mapping, options.dedupeKey ?? DEFAULT_DEDUPE_KEY);
+  const kept = options.excludeInvalid ? rows.filter(r => !invalidIds.has(r.id)) : rows;
+  return { rows: kept, issues, invalid: invalidIds.size, excluded: rows.length - kept.length };
+};
+
+// --- 대시보드와 같은 보정 ---
+// 대시보드는 가져올 때 좌표 보정과 업체명 사전을 적용하고, 품질 제외를 켜면 제외 대상 규칙에 걸린 행을 집계에서 뺀다.
+// (현장 메모의 진행내용 보정은 브라우저에만 저장되므로 여기서는 다루지 않는다.)
+export interface RowAdjustments {
+  aliases?: CompanyAlias[];
+  overrides?: CoordOverride[];
+  quality?: QualityConfig;
+  amountUnit: string;
+}
+
+export interface AdjustedRows {
+  rows: ExcelRow[];
+  quality: QualityReport | null;
+  // 품질 제외로 빠진 행 수
+  qualityExcluded: number;
+}
+
+export const adjustRows = (rows: ExcelRow[], adjustments: RowAdjustments): AdjustedRows => {
+  const corrected = applyAliases(applyOverrides(rows, adjustments.overrides ?? []), adjustments.aliases ?? []);
+  if (!adjustments.quality) return { rows: corrected, quality: null, qualityExcluded: 0 };
+  const quality = runQualityChecks(corrected, adjustments.quality.disabled, adjustments.amountUnit);
+  const excluded = excludedRowIds(quality, adjustments.quality);
+  const kept = excluded.size > 0 ? corrected.filter(r => !excluded.has(r.id)) : corrected;
+  return { rows: kept, quality, qualityExcluded: corrected.length - kept.length };
+};
+
+// --- 보고서 ---
+export interface ReportOptions {
+  selection: PeriodSelection;
+  granularity: Granularity;
+  compare: boolean;
+  // 순위 표 길이 (0 = 전체)
+  top: number;
+  // 스펙량 단위 (증감 표시와 보고서에 함께 적는다)
+  amountUnit: string;
+}
+
+export interface Report {
+  period: string;
+  comparedTo: string | null;
+  amountUnit: string;
+  rows: number;
+  summary: { siteCount: number; totalSpec: number; leadConstructor: RankedCompany | null; leadDesigner: RankedCompany | null };
+  deltas: (string | null)[] | null;
+  rankings: { constructor: ReturnType<typeof rankBy>; designer: ReturnType<typeof rankBy> };
+  trends: Trends;
+}
+
+export const buildReport = (rows: ExcelRow[], options: ReportOptions): { report: Report; filtered: ExcelRow[]; projects: GroupedProject[] } => {
+  const filtered = rows.filter(periodMatcher(options.selection));
+  const previousSelection = options.compare ? previousYearSelection(options.selection) : null;
+  const previous = previousSelection ? rows.filter(periodMatcher(previousSelection)) : null;
+  const summary = summarize(filtered);
+  const previousSummary = previous ? summarize(previous) : null;
+  const cut = <T,>(list: T[]) => (options.top > 0 ? list.slice(0, options.top) : list);
+
+  const report: Report = {
+    period: describePeriod(options.selection),
+    comparedTo: previousSelection ? describePeriod(previousSelection) : null,
+    amountUnit: options.amountUnit,
+    rows: filtered.length,
+    summary: {
+      siteCount: summary.siteCount,
+      totalSpec: summary.totalSpec,
+      leadConstructor: summary.top3Cons[0] || null,
+      leadDesigner: summary.top3Des[0] || null,
+    },
+    deltas: previousSummary ? summaryDeltas(summary, previousSummary, options.amountUnit) : null,
+    rankings: { constructor: cut(rankBy(filtered, 'constructor')), designer: cut(rankBy(filtered, 'designer')) },
+    trends: buildTrends(rows, summary, previousSummary, trendWindow(options.selection, rows), options.granularity, options.compare),
+  };
+  return { report, filtered, projects: groupProjects(filtered) };
+};
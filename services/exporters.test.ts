@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { GroupedProject } from '../types';
+import { buildExportWorkbook, projectsToGeoJson, projectsToKml, rankBy } from './exporters';
+
+const project: GroupedProject = {
+  name: '가 현장', address: '서울 중구', latitude: 37.5, longitude: 127, designer: '누리설계', constructor: '-', progress: '착공',
+  specs: [{ product: 'A', quantity: 2, amount: 1200 }], totalAmount: 1200,
+};
+const unmapped: GroupedProject = { ...project, name: '나 현장', latitude: null, longitude: null };
+
+const headerRow = (wb: XLSX.WorkBook, sheet: string) => XLSX.utils.sheet_to_json<any[]>(wb.Sheets[sheet], { header: 1 })[0];
+
+describe('단위 표기', () => {
+  it('엑셀 집계/순위 시트 헤더에 설정한 단위를 쓴다', () => {
+    const wb = buildExportWorkbook([], [project], 'kg');
+    expect(headerRow(wb, '프로젝트 집계')).toContain('총 스펙량(kg)');
+    expect(headerRow(wb, '시공사 순위')).toEqual(['순위', '회사명', '현장 수', '스펙량(kg)']);
+  });
+
+  it('GeoJSON 에 단위를 속성으로 남기고 좌표 없는 현장은 뺀다', () => {
+    const geojson = projectsToGeoJson([project, unmapped], '㎡');
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0].properties).toMatchObject({ total_amount: 1200, amount_unit: '㎡' });
+    expect(geojson.features[0].geometry.coordinates).toEqual([127, 37.5]);
+  });
+
+  it('KML 설명에 단위를 붙인다', () => {
+    expect(projectsToKml('보고서', [project], 'kg')).toContain('총 스펙량: 1,200 kg');
+  });
+});
+
+describe('rankBy', () => {
+  it('빈 업체명은 기타로 묶어 스펙량 순으로 현장 수와 함께 순위를 낸다', () => {
+    const rows = [
+      { project: '가', constructor: '한빛', amount: 10 },
+      { project: '나', constructor: '-', amount: 30 },
+      { project: '다', constructor: '한빛', amount: 5 },
+      { project: '다', constructor: '', amount: 1 },
+    ].map((r, i) => ({
+      id: `x${i}`, project_name: r.project, constructor: r.constructor, spec_amount: r.amount, designer: '-', year: 2024, month: 1,
+      progress: '-', address: '-', latitude: null, longitude: null, product_name: 'A', quantity: 1,
+    }));
+    expect(rankBy(rows, 'constructor')).toEqual([
+      { rank: 1, name: '기타', amount: 31, sites: 2 },
+      { rank: 2, name: '한빛', amount: 15, sites: 2 },
+    ]);
+  });
+});
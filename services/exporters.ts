@@ -0,0 +1,106 @@
+import * as XLSX from 'xlsx';
+import { ExcelRow, GroupedProject } from '../types';
+import { FIELD_DEFS, sourceLabel } from './importMapping';
+import { companyName } from './companyAliases';
+import { downloadBlob, downloadText, toCsv } from '../utils/download';
+
+// --- 필터 결과 내보내기 ---
+const RAW_HEADERS = [...FIELD_DEFS.map(d => d.label), '좌표 지오코딩', '출처'];
+
+const rawRecord = (r: ExcelRow) => [
+  ...FIELD_DEFS.map(d => r[d.field] ?? ''),
+  r.isGeocoded ? 'Y' : '',
+  sourceLabel(r.source_file, r.source_sheet),
+];
+
+// 스펙량 단위는 단위 설정(UnitConfig.amountUnit)을 따른다.
+const projectHeaders = (amountUnit: string) => ['현장명', '주소', '위도', '경도', '설계사', '시공사', '진행내용', '제품 수', `총 스펙량(${amountUnit})`];
+
+const projectRecord = (p: GroupedProject) => [
+  p.name, p.address, p.latitude ?? '', p.longitude ?? '', p.designer, p.constructor, p.progress, p.specs.length, p.totalAmount,
+];
+
+// 대시보드 순위와 같은 기준('-' 는 '기타')으로 전체 순위를 만든다.
+export const rankBy = (rows: ExcelRow[], key: 'designer' | 'constructor') => {
+  const amountMap: Record<string, number> = {};
+  const siteMap: Record<string, Set<string>> = {};
+  rows.forEach(d => {
+    const name = companyName(d[key]);
+    amountMap[name] = (amountMap[name] || 0) + (Number(d.spec_amount) || 0);
+    (siteMap[name] = siteMap[name] || new Set()).add(d.project_name);
+  });
+  return Object.entries(amountMap).sort((a, b) => b[1] - a[1]).map(([name, amount], i) => ({ rank: i + 1, name, amount, sites: siteMap[name].size }));
+};
+
+const rankingSheet = (ranking: ReturnType<typeof rankBy>, amountUnit: string) =>
+  XLSX.utils.aoa_to_sheet([['순위', '회사명', '현장 수', `스펙량(${amountUnit})`], ...ranking.map(r => [r.rank, r.name, r.sites, r.amount])]);
+
+export const buildExportWorkbook = (rows: ExcelRow[], projects: GroupedProject[], amountUnit: string) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([RAW_HEADERS, ...rows.map(rawRecord)]), '원본 데이터');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([projectHeaders(amountUnit), ...projects.map(projectRecord)]), '프로젝트 집계');
+  XLSX.utils.book_append_sheet(wb, rankingSheet(rankBy(rows, 'constructor'), amountUnit), '시공사 순위');
+  XLSX.utils.book_append_sheet(wb, rankingSheet(rankBy(rows, 'designer'), amountUnit), '설계사 순위');
+  return wb;
+};
+
+export const exportWorkbook = (baseName: string, rows: ExcelRow[], projects: GroupedProject[], amountUnit: string) => {
+  const out = XLSX.write(buildExportWorkbook(rows, projects, amountUnit), { bookType: 'xlsx', type: 'array' });
+  downloadBlob(`${baseName}.xlsx`, new Blob([out], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+};
+
+export const exportRowsCsv = (baseName: string, rows: ExcelRow[]) =>
+  downloadText(`${baseName}_rows.csv`, toCsv([RAW_HEADERS, ...rows.map(rawRecord)]), 'text/csv');
+
+export const exportProjectsCsv = (baseName: string, projects: GroupedProject[], amountUnit: string) =>
+  downloadText(`${baseName}_projects.csv`, toCsv([projectHeaders(amountUnit), ...projects.map(projectRecord)]), 'text/csv');
+
+const mapped = (projects: GroupedProject[]) => projects.filter(p => p.latitude && p.longitude);
+
+export const projectsToGeoJson = (projects: GroupedProject[], amountUnit: string) => ({
+  type: 'FeatureCollection',
+  features: mapped(projects).map(p => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
+    properties: {
+      project_name: p.name,
+      address: p.address,
+      designer: p.designer,
+      constructor: p.constructor,
+      progress: p.progress,
+      total_amount: p.totalAmount,
+      amount_unit: amountUnit,
+      specs: p.specs.map(s => ({ product: s.product, quantity: s.quantity, amount: s.amount })),
+    },
+  })),
+});
+
+export const exportGeoJson = (baseName: string, projects: GroupedProject[], amountUnit: string) =>
+  downloadText(`${baseName}.geojson`, JSON.stringify(projectsToGeoJson(projects, amountUnit), null, 2), 'application/geo+json');
+
+const xmlEscape = (v: unknown) => String(v ?? '').replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+export const projectsToKml = (name: string, projects: GroupedProject[], amountUnit: string) => {
+  const placemarks = mapped(projects).map(p => `    <Placemark>
+      <name>${xmlEscape(p.name)}</name>
+      <description>${xmlEscape(`${p.address}\n설계사: ${p.designer}\n시공사: ${p.constructor}\n진행: ${p.progress}\n총 스펙량: ${p.totalAmount.toLocaleString()} ${amountUnit}`)}</description>
+      <ExtendedData>
+        <Data name="designer"><value>${xmlEscape(p.designer)}</value></Data>
+        <Data name="constructor"><value>${xmlEscape(p.constructor)}</value></Data>
+        <Data name="progress"><value>${xmlEscape(p.progress)}</value></Data>
+        <Data name="total_amount"><value>${p.totalAmount}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${p.longitude},${p.latitude},0</coordinates></Point>
+    </Placemark>`).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${xmlEscape(name)}</name>
+${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+export const exportKml = (baseName: string, projects: GroupedProject[], amountUnit: string) =>
+  downloadText(`${baseName}.kml`, projectsToKml(baseName, projects, amountUnit), 'application/vnd.google-earth.kml+xml');
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, geoJsonToRecords, readImportFile } from './fileReaders';
+
+// "현장명,연도,월,스펙량\n가나,2024,1,5 T" 를 CP949(EUC-KR)로 저장한 바이트
+const CP949_CSV = Uint8Array.from(Buffer.from('c7f6c0e5b8ed2cbfacb5b52cbff92cbdbac6e5b7ae0ab0a1b3aa2c323032342c312c352054', 'hex'));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('decodeText', () => {
+  it('UTF-8 이 아니면 CP949 로 읽는다', () => {
+    expect(decodeText(CP949_CSV.buffer)).toEqual({ text: '현장명,연도,월,스펙량\n가나,2024,1,5 T', encoding: 'cp949' });
+  });
+
+  it('BOM 을 떼고 UTF-8 로 읽는다', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...utf8('현장명')]);
+    expect(decodeText(bytes.buffer)).toEqual({ text: '현장명', encoding: 'utf-8' });
+  });
+});
+
+describe('readImportFile', () => {
+  it('CSV 는 인코딩을 시트 이름에 남기고 값을 문자열 그대로 둔다', async () => {
+    const [source] = await readImportFile(new File([CP949_CSV], '현장.csv'));
+    expect(source.sheet).toBe('CSV (cp949)');
+    expect(source.json).toEqual([{ 현장명: '가나', 연도: '2024', 월: '1', 스펙량: '5 T' }]);
+  });
+
+  it('JSON 레코드 배열은 순번을 행 번호로 쓴다', async () => {
+    const [source] = await readImportFile(new File([utf8('[{"현장명":"가"},null,{"현장명":"나"}]')], 'rows.json'));
+    expect(source.sheet).toBe('JSON');
+    expect(source.json.map(r => [r.현장명, r.__rowNum__])).toEqual([['가', 0], ['나', 1]]);
+  });
+
+  it('배열도 GeoJSON 도 아닌 JSON 은 거부한다', async () => {
+    await expect(readImportFile(new File([utf8('{"rows":[]}')], 'rows.json'))).rejects.toThrow('레코드 배열');
+  });
+});
+
+describe('geoJsonToRecords', () => {
+  it('도형 좌표를 위도/경도로 넣고 면은 꼭짓점 평균을 쓴다', () => {
+    const records = geoJsonToRecords({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { 현장명: '가', latitude: 0 }, geometry: { type: 'Point', coordinates: [127, 37.5] } },
+        { type: 'Feature', properties: { 현장명: '나' }, geometry: { type: 'Polygon', coordinates: [[[126, 37], [128, 37], [128, 39], [126, 39]]] } },
+        { type: 'Feature', properties: { 현장명: '다' }, geometry: null },
+      ],
+    });
+    expect(records).toEqual([
+      { latitude: 37.5, longitude: 127, 현장명: '가' },
+      { latitude: 38, longitude: 127, 현장명: '나' },
+      { 현장명: '다' },
+    ]);
+  });
+});
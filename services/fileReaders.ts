@@ -0,0 +1,113 @@
+import * as XLSX from 'xlsx';
+import { ImportSource } from './importMapping';
+
+// --- 파일 형식별 리더 ---
+// 모든 형식은 ImportSource(레코드 배열)로 변환된 뒤 엑셀과 같은 매핑/검증 경로를 탄다.
+export const ACCEPTED_EXTENSIONS = '.xlsx, .xls, .csv, .txt, .json, .geojson';
+
+const extensionOf = (name: string) => name.toLowerCase().split('.').pop() || '';
+
+// JSON 계열은 엑셀 행 번호 대신 레코드 순번(1부터)을 보고하도록 __rowNum__ 을 심어준다.
+const withRowNumbers = (records: any[]) =>
+  records.map((r, i) => Object.defineProperty({ ...r }, '__rowNum__', { value: i, enumerable: false }));
+
+// BOM → UTF-8(엄격) → CP949/EUC-KR 순으로 판별
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('euc-kr').decode(bytes), encoding: 'cp949' };
+  }
+};
+
+const readWorkbook = (name: string, buffer: ArrayBuffer): ImportSource[] => {
+  const wb = XLSX.read(buffer, { type: 'array' });
+  return wb.SheetNames.map(sheet => ({ file: name, sheet, json: XLSX.utils.sheet_to_json(wb.Sheets[sheet]) as any[] }));
+};
+
+// 숫자 자동 변환 없이 문자열 그대로 읽어 parseNumChecked 가 검증하도록 한다.
+const readCsv = (name: string, buffer: ArrayBuffer): ImportSource[] => {
+  const { text, encoding } = decodeText(buffer);
+  const wb = XLSX.read(text, { type: 'string', raw: true });
+  return [{ file: name, sheet: `CSV (${encoding})`, json: XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { raw: true }) as any[] }];
+};
+
+type Position = number[];
+
+const collectPositions = (coords: any, out: Position[] = []): Position[] => {
+  if (Array.isArray(coords) && typeof coords[0] === 'number') out.push(coords);
+  else if (Array.isArray(coords)) coords.forEach(c => collectPositions(c, out));
+  return out;
+};
+
+// Point 는 그대로, 그 외 도형은 꼭짓점 평균을 대표 좌표로 쓴다.
+const representativePoint = (geometry: any): { lat: number; lon: number } | null => {
+  if (!geometry) return null;
+  const positions = geometry.type === 'GeometryCollection'
+    ? (geometry.geometries || []).flatMap((g: any) => collectPositions(g.coordinates))
+    : collectPositions(geometry.coordinates);
+  if (positions.length === 0) return null;
+  const lon = positions.reduce((s, p) => s + p[0], 0) / positions.length;
+  const lat = positions.reduce((s, p) => s + p[1], 0) / positions.length;
+  return { lat, lon };
+};
+
+export const geoJsonToRecords = (geojson: any): any[] => {
+  const features = geojson.type === 'FeatureCollection' ? geojson.features || [] : geojson.type === 'Feature' ? [geojson] : [];
+  return features.map((f: any) => {
+    const point = representativePoint(f.geometry);
+    if (!point) return { ...f.properties };
+    // 좌표 컬럼이 먼저 감지되도록 앞에 두고, 속성에 같은 키가 있어도 도형 좌표가 우선한다.
+    return Object.assign({ latitude: point.lat, longitude: point.lon }, f.properties, { latitude: point.lat, longitude: point.lon });
+  });
+};
+
+const readJson = (name: string, buffer: ArrayBuffer): ImportSource[] => {
+  const parsed = JSON.parse(decodeText(buffer).text);
+  if (parsed && (parsed.type === 'FeatureCollection' || parsed.type === 'Feature')) {
+    return [{ file: name, sheet: 'GeoJSON', json: withRowNumbers(geoJsonToRecords(parsed)) }];
+  }
+  if (!Array.isArray(parsed)) throw new Error('JSON 파일은 레코드 배열이거나 GeoJSON 이어야 합니다.');
+  return [{ file: name, sheet: 'JSON', json: withRowNumbers(parsed.filter(r => r && typeof r === 'object')) }];
+};
+
+// 브라우저 File 없이도 쓸 수 있도록 이름 + 내용으로 읽는다 (CLI 에서 사용).
+export const readImportBuffer = (name: string, buffer: ArrayBuffer): ImportSource[] => {
+  const ext = extensionOf(name);
+  const sources = ext === 'csv' || ext === 'txt' ? readCsv(name, buffer)
+    : ext === 'json' || ext === 'geojson' ? readJson(name, buffer)
+    : readWorkbook(name, buffer);
+  return sources.filter(s => s.json.length > 0);
+};
+
+// 워커가 보낸 행 번호를 다시 열거 불가 속성으로 붙인다.
+const restoreRowNumbers = (sources: ImportSource[], rowNumbers: (number | undefined)[][]) =>
+  sources.map((s, si) => ({
+    ...s,
+    json: s.json.map((r, i) => (typeof rowNumbers[si]?.[i] === 'number' ? Object.defineProperty(r, '__rowNum__', { value: rowNumbers[si][i], enumerable: false }) : r)),
+  }));
+
+const readInWorker = (name: string, buffer: ArrayBuffer) => new Promise<ImportSource[]>((resolve, reject) => {
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent) => {
+    worker.terminate();
+    if (e.data.ok) resolve(restoreRowNumbers(e.data.sources, e.data.rowNumbers));
+    else reject(new Error(e.data.error));
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    worker.terminate();
+    reject(new Error(e.message || '파일 파싱 워커 오류'));
+  };
+  worker.postMessage({ name, buffer }, [buffer]);
+});
+
+// 큰 통합 문서에서 탭이 멈추지 않도록 워커에서 읽는다. 워커를 쓸 수 없는 환경에서는 그대로 읽는다.
+export const readImportFile = async (file: File): Promise<ImportSource[]> => {
+  const buffer = await file.arrayBuffer();
+  if (typeof Worker === 'undefined') return readImportBuffer(file.name, buffer);
+  return readInWorker(file.name, buffer);
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FACETS, FilterState, decodeFilterState, encodeFilterState } from './filterState';
+
+const BASE: FilterState = {
+  periodMode: 'month', year: 2024, month: 0, periodSub: 0, rangeFrom: null, rangeTo: null, granularity: 'month', compare: false,
+  stage: null, query: '', facets: EMPTY_FACETS, amountMin: null, amountMax: null, spatial: null, project: null,
+};
+
+describe('filter URL state', () => {
+  it('반경 선택을 왕복한다', () => {
+    const state: FilterState = { ...BASE, spatial: { kind: 'radius', center: { lat: 37.56651, lon: 126.97801 }, radiusKm: 5 } };
+    expect(decodeFilterState(encodeFilterState(state))).toEqual(state);
+  });
+
+  it('올가미 선택을 왕복한다', () => {
+    const polygon = [{ lat: 37.5, lon: 127 }, { lat: 37.6, lon: 127.1 }, { lat: 37.4, lon: 127.2 }];
+    const state: FilterState = { ...BASE, spatial: { kind: 'lasso', polygon } };
+    expect(decodeFilterState(encodeFilterState(state)).spatial).toEqual({ kind: 'lasso', polygon });
+  });
+
+  it('해석할 수 없는 영역 값은 버린다', () => {
+    expect(decodeFilterState('?r=37.5,127').spatial).toBeNull();
+    expect(decodeFilterState('?r=37.5,127,0').spatial).toBeNull();
+    expect(decodeFilterState('?poly=37.5,127;37.6,127.1').spatial).toBeNull();
+    expect(decodeFilterState('?poly=37.5,127;abc;37.4,127.2').spatial).toBeNull();
+  });
+});
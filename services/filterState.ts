@@ -0,0 +1,149 @@
+import { ExcelRow } from '../types';
+import { Granularity, PeriodMode, formatYm, parseYm } from './timePeriods';
+import { GeoPoint } from './geocoding';
+import { SpatialSelection } from './spatialSelection';
+
+// --- 검색 / 다중 필터 / URL 공유 상태 ---
+export type FacetKey = 'designer' | 'constructor' | 'product_name' | 'progress' | 'sido' | 'sigungu';
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  designer: '설계사',
+  constructor: '시공사',
+  product_name: '제품',
+  progress: '진행내용',
+  sido: '시/도',
+  sigungu: '시/군/구',
+};
+
+export type Facets = Record<FacetKey, string[]>;
+
+export const EMPTY_FACETS: Facets = { designer: [], constructor: [], product_name: [], progress: [], sido: [], sigungu: [] };
+
+export interface FilterState {
+  periodMode: PeriodMode;
+  year: number;
+  month: number;
+  periodSub: number;
+  rangeFrom: number | null;
+  rangeTo: number | null;
+  granularity: Granularity;
+  compare: boolean;
+  stage: string | null;
+  query: string;
+  facets: Facets;
+  amountMin: number | null;
+  amountMax: number | null;
+  spatial: SpatialSelection | null;
+  project: string | null;
+}
+
+// URL 파라미터 이름 (짧게 유지해 채팅에 붙여넣기 쉽도록)
+const PARAMS = { periodMode: 'pm', year: 'y', month: 'm', periodSub: 'ps', rangeFrom: 'from', rangeTo: 'to', granularity: 'g', compare: 'yoy', stage: 'st', query: 'q', amountMin: 'min', amountMax: 'max', radius: 'r', lasso: 'poly', project: 'p' } as const;
+const FACET_PARAMS: Record<FacetKey, string> = { designer: 'des', constructor: 'con', product_name: 'prd', progress: 'prg', sido: 'sd', sigungu: 'sgg' };
+
+// 좌표는 소수 5자리(약 1m)로 줄여 링크 길이를 억제한다. 반경: "위도,경도,km", 올가미: "위도,경도;위도,경도;..."
+const coordText = (p: GeoPoint) => [p.lat.toFixed(5), p.lon.toFixed(5)];
+
+const parseNumbers = (text: string) => {
+  const nums = text.split(',').map(v => (v.trim() === '' ? NaN : Number(v)));
+  return nums.some(isNaN) ? null : nums;
+};
+
+// 해석할 수 없는 영역 값은 버린다 (영역 없이 열림).
+const parseSpatial = (params: URLSearchParams): SpatialSelection | null => {
+  const radius = params.get(PARAMS.radius);
+  if (radius !== null) {
+    const nums = parseNumbers(radius);
+    return nums && nums.length === 3 && nums[2] > 0 ? { kind: 'radius', center: { lat: nums[0], lon: nums[1] }, radiusKm: nums[2] } : null;
+  }
+  const lasso = params.get(PARAMS.lasso);
+  if (lasso === null) return null;
+  const polygon: GeoPoint[] = [];
+  for (const pair of lasso.split(';')) {
+    const nums = parseNumbers(pair);
+    if (!nums || nums.length !== 2) return null;
+    polygon.push({ lat: nums[0], lon: nums[1] });
+  }
+  return polygon.length >= 3 ? { kind: 'lasso', polygon } : null;
+};
+
+export const encodeFilterState = (state: FilterState): string => {
+  const params = new URLSearchParams();
+  if (state.periodMode !== 'month') params.set(PARAMS.periodMode, state.periodMode);
+  if (state.year) params.set(PARAMS.year, String(state.year));
+  if (state.month) params.set(PARAMS.month, String(state.month));
+  if (state.periodSub) params.set(PARAMS.periodSub, String(state.periodSub));
+  if (state.rangeFrom !== null) params.set(PARAMS.rangeFrom, formatYm(state.rangeFrom));
+  if (state.rangeTo !== null) params.set(PARAMS.rangeTo, formatYm(state.rangeTo));
+  if (state.granularity !== 'month') params.set(PARAMS.granularity, state.granularity);
+  if (state.compare) params.set(PARAMS.compare, '1');
+  if (state.stage) params.set(PARAMS.stage, state.stage);
+  if (state.query.trim()) params.set(PARAMS.query, state.query.trim());
+  (Object.keys(FACET_PARAMS) as FacetKey[]).forEach(k => state.facets[k].forEach(v => params.append(FACET_PARAMS[k], v)));
+  if (state.amountMin !== null) params.set(PARAMS.amountMin, String(state.amountMin));
+  if (state.amountMax !== null) params.set(PARAMS.amountMax, String(state.amountMax));
+  if (state.spatial?.kind === 'radius') params.set(PARAMS.radius, [...coordText(state.spatial.center), state.spatial.radiusKm].join(','));
+  if (state.spatial?.kind === 'lasso') params.set(PARAMS.lasso, state.spatial.polygon.map(p => coordText(p).join(',')).join(';'));
+  if (state.project) params.set(PARAMS.project, state.project);
+  return params.toString();
+};
+
+const numParam = (params: URLSearchParams, key: string) => {
+  const v = params.get(key);
+  if (v === null || v.trim() === '') return null;
+  const n = Number(v);
+  return isNaN(n) ? null : n;
+};
+
+export const decodeFilterState = (search: string): FilterState => {
+  const params = new URLSearchParams(search);
+  const mode = params.get(PARAMS.periodMode);
+  const granularity = params.get(PARAMS.granularity);
+  return {
+    periodMode: mode === 'quarter' || mode === 'half' || mode === 'range' ? mode : 'month',
+    year: numParam(params, PARAMS.year) || 0,
+    month: numParam(params, PARAMS.month) || 0,
+    periodSub: numParam(params, PARAMS.periodSub) || 0,
+    rangeFrom: parseYm(params.get(PARAMS.rangeFrom)),
+    rangeTo: parseYm(params.get(PARAMS.rangeTo)),
+    granularity: granularity === 'quarter' || granularity === 'half' ? granularity : 'month',
+    compare: params.get(PARAMS.compare) === '1',
+    stage: params.get(PARAMS.stage),
+    query: params.get(PARAMS.query) || '',
+    facets: Object.fromEntries((Object.keys(FACET_PARAMS) as FacetKey[]).map(k => [k, params.getAll(FACET_PARAMS[k])])) as Facets,
+    amountMin: numParam(params, PARAMS.amountMin),
+    amountMax: numParam(params, PARAMS.amountMax),
+    spatial: parseSpatial(params),
+    project: params.get(PARAMS.project),
+  };
+};
+
+const SEARCH_FIELDS: (keyof ExcelRow)[] = ['project_name', 'address', 'designer', 'constructor', 'product_name'];
+
+// 공백으로 나눈 검색어가 모두 어느 한 필드에든 포함되어야 일치
+export const matchesQuery = (row: ExcelRow, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = SEARCH_FIELDS.map(f => String(row[f] ?? '').toLowerCase()).join('\n');
+  return terms.every(t => haystack.includes(t));
+};
+
+export const matchesFacets = (row: ExcelRow, facets: Facets) =>
+  (Object.keys(facets) as FacetKey[]).every(k => facets[k].length === 0 || facets[k].includes(String(row[k])));
+
+// 현장 총 스펙량 기준 범위 필터: 범위 안에 드는 현장의 행만 남긴다.
+export const filterByProjectAmount = (rows: ExcelRow[], min: number | null, max: number | null) => {
+  if (min === null && max === null) return rows;
+  const totals: Record<string, number> = {};
+  rows.forEach(r => { totals[r.project_name] = (totals[r.project_name] || 0) + r.spec_amount; });
+  return rows.filter(r => {
+    const t = totals[r.project_name];
+    return (min === null || t >= min) && (max === null || t <= max);
+  });
+};
+
+export const facetOptions = (rows: ExcelRow[], key: FacetKey) => {
+  const counts: Record<string, number> = {};
+  rows.forEach(r => { const v = String(r[key]); counts[v] = (counts[v] || 0) + 1; });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([value, count]) => ({ value, count }));
+};
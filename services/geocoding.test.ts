@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeocodeProgress, GeocoderProvider, createGeocodeQueue } from './geocoding';
+
+// IndexedDB 대신 메모리 캐시. '캐시오류' 가 들어간 키는 읽기에 실패한다.
+const cache = new Map<string, unknown>();
+vi.mock('./db', () => ({
+  STORES: { geocodeCache: 'geocodeCache' },
+  idbGet: async (_store: string, key: string) => {
+    if (key.includes('캐시오류')) throw new Error('IndexedDB 읽기 실패');
+    return cache.get(key);
+  },
+  idbPut: async (_store: string, key: string, value: unknown) => { cache.set(key, value); },
+  idbCount: async () => cache.size,
+  idbClear: async () => cache.clear(),
+}));
+
+const provider: GeocoderProvider = {
+  id: 'offline',
+  policy: { rateLimitMs: 50, maxRetries: 0 },
+  geocode: async () => ({ lat: 37.5, lon: 127 }),
+};
+
+const run = (addresses: string[]) => {
+  const progress: GeocodeProgress[] = [];
+  const queue = createGeocodeQueue(addresses, provider, { onProgress: p => progress.push(p), onResults: () => {} });
+  return { queue, progress };
+};
+
+describe('createGeocodeQueue', () => {
+  it('ETA 는 캐시에 없는 남은 주소만 센다', async () => {
+    cache.clear();
+    ['가 1', '가 2', '가 3'].forEach(key => cache.set(key, { lat: 1, lon: 2 }));
+    const { queue, progress } = run(['가 1', '나 1', '가 2', '나 2', '가 3']);
+    const results = await queue.finished;
+    expect(Object.keys(results)).toHaveLength(5);
+    // 캐시 3건 + 요청 1건을 마친 시점: 남은 미캐시 주소 1건 x 요청 간격 50ms
+    expect(progress.find(p => p.done === 4)?.etaMs).toBe(50);
+    expect(progress.at(-1)).toMatchObject({ status: 'done', done: 5, fromCache: 3, etaMs: 0 });
+  });
+
+  it('캐시 오류로 멈추면 상태에 사유를 남기고 reject 한다', async () => {
+    cache.clear();
+    const { queue, progress } = run(['가 1', '캐시오류 주소']);
+    await expect(queue.finished).rejects.toThrow('IndexedDB 읽기 실패');
+    expect(progress.at(-1)).toMatchObject({ status: 'error', error: 'IndexedDB 읽기 실패' });
+    queue.cancel();
+    expect(progress.at(-1)?.status).toBe('error');
+  });
+});
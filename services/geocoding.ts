@@ -0,0 +1,350 @@
+import * as XLSX from 'xlsx';
+import { STORES, idbClear, idbCount, idbGet, idbPut } from './db';
+import { getVal } from '../utils/parse';
+import { ExcelRow } from '../types';
+
+// --- 지오코딩 프로바이더 ---
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export type GeocoderProviderId = 'nominatim' | 'selfHosted' | 'offline';
+
+export interface GeocoderPolicy {
+  rateLimitMs: number;
+  maxRetries: number;
+}
+
+export interface GeocoderProvider {
+  id: GeocoderProviderId;
+  policy: GeocoderPolicy;
+  // 결과 없음은 null, 일시적 오류(네트워크/429/5xx)는 throw 하여 재시도 대상이 된다.
+  geocode: (address: string) => Promise<GeoPoint | null>;
+}
+
+export interface GeocoderConfig {
+  providerId: GeocoderProviderId;
+  selfHostedUrl: string;
+  policies: Record<GeocoderProviderId, GeocoderPolicy>;
+}
+
+export const PROVIDER_LABELS: Record<GeocoderProviderId, string> = {
+  nominatim: 'Nominatim (OSM 공개 서버)',
+  selfHosted: '자체 호스팅 엔드포인트',
+  offline: '오프라인 좌표표 (CSV)',
+};
+
+export const DEFAULT_GEOCODER_CONFIG: GeocoderConfig = {
+  providerId: 'nominatim',
+  selfHostedUrl: 'http://localhost:8080/search?format=json&limit=1&q={address}',
+  policies: {
+    nominatim: { rateLimitMs: 1100, maxRetries: 2 },
+    selfHosted: { rateLimitMs: 0, maxRetries: 3 },
+    offline: { rateLimitMs: 0, maxRetries: 0 },
+  },
+};
+
+// 캐시 키: 공백/구두점 차이로 같은 주소가 중복 조회되지 않도록 정규화
+export const normalizeAddress = (address: string) =>
+  address.trim().toLowerCase().replace(/[\s,()·]+/g, ' ').trim();
+
+class TransientGeocodeError extends Error {}
+
+const parseGeoResponse = (data: any): GeoPoint | null => {
+  const hit = Array.isArray(data) ? data[0] : data;
+  if (!hit) return null;
+  const lat = parseFloat(hit.lat ?? hit.latitude);
+  const lon = parseFloat(hit.lon ?? hit.lng ?? hit.longitude);
+  return isNaN(lat) || isNaN(lon) ? null : { lat, lon };
+};
+
+const fetchGeoJson = async (url: string): Promise<GeoPoint | null> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'Accept-Language': 'ko-KR,ko;q=0.9,en-US;q=0.8,en;q=0.7'
+      }
+    });
+  } catch (e) {
+    throw new TransientGeocodeError(String(e));
+  }
+  if (response.status === 429 || response.status >= 500) throw new TransientGeocodeError(`HTTP ${response.status}`);
+  if (!response.ok) return null;
+  return parseGeoResponse(await response.json());
+};
+
+export const createNominatimProvider = (policy: GeocoderPolicy): GeocoderProvider => ({
+  id: 'nominatim',
+  policy,
+  geocode: (address) => fetchGeoJson(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1`),
+});
+
+// urlTemplate 의 {address} 자리에 인코딩된 주소가 들어간다. Nominatim 호환 배열 또는 {lat, lon} 객체 응답을 지원.
+export const createSelfHostedProvider = (urlTemplate: string, policy: GeocoderPolicy): GeocoderProvider => ({
+  id: 'selfHosted',
+  policy,
+  geocode: (address) => fetchGeoJson(urlTemplate.replace('{address}', encodeURIComponent(address))),
+});
+
+export const createOfflineProvider = (table: Record<string, GeoPoint>, policy: GeocoderPolicy): GeocoderProvider => ({
+  id: 'offline',
+  policy,
+  geocode: async (address) => table[normalizeAddress(address)] || null,
+});
+
+// 주소,위도,경도 CSV → 정규화 주소 기준 좌표표
+export const parseOfflineTable = (csvText: string): Record<string, GeoPoint> => {
+  const wb = XLSX.read(csvText, { type: 'string', raw: true });
+  const json: any[] = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]);
+  const table: Record<string, GeoPoint> = {};
+  json.forEach(row => {
+    const address = getVal(row, ['address', '주소', 'addr']);
+    const lat = parseFloat(String(getVal(row, ['latitude', '위도', 'lat', 'y']) ?? ''));
+    const lon = parseFloat(String(getVal(row, ['longitude', '경도', 'lng', 'lon', 'long', 'x']) ?? ''));
+    if (address && !isNaN(lat) && !isNaN(lon)) table[normalizeAddress(String(address))] = { lat, lon };
+  });
+  return table;
+};
+
+// --- 설정 저장 ---
+const CONFIG_KEY = 'geocoderConfig';
+const OFFLINE_TABLE_KEY = 'offlineGeoTable';
+
+export const loadGeocoderConfig = async (): Promise<GeocoderConfig> => {
+  const saved = await idbGet<GeocoderConfig>(STORES.settings, CONFIG_KEY);
+  return saved ? { ...DEFAULT_GEOCODER_CONFIG, ...saved, policies: { ...DEFAULT_GEOCODER_CONFIG.policies, ...saved.policies } } : DEFAULT_GEOCODER_CONFIG;
+};
+
+export const saveGeocoderConfig = (config: GeocoderConfig) => idbPut(STORES.settings, CONFIG_KEY, config);
+
+export const loadOfflineTable = async (): Promise<Record<string, GeoPoint>> =>
+  (await idbGet<Record<string, GeoPoint>>(STORES.settings, OFFLINE_TABLE_KEY)) || {};
+
+export const saveOfflineTable = (table: Record<string, GeoPoint>) => idbPut(STORES.settings, OFFLINE_TABLE_KEY, table);
+
+export const createProvider = async (config: GeocoderConfig): Promise<GeocoderProvider> => {
+  const policy = config.policies[config.providerId];
+  if (config.providerId === 'offline') return createOfflineProvider(await loadOfflineTable(), policy);
+  if (config.providerId === 'selfHosted') return createSelfHostedProvider(config.selfHostedUrl, policy);
+  return createNominatimProvider(policy);
+};
+
+// --- 영구 주소 캐시 ---
+interface CachedGeo extends GeoPoint {
+  provider: GeocoderProviderId;
+  cachedAt: number;
+}
+
+export const getCachedGeo = async (address: string): Promise<GeoPoint | null> => {
+  const hit = await idbGet<CachedGeo>(STORES.geocodeCache, normalizeAddress(address));
+  return hit ? { lat: hit.lat, lon: hit.lon } : null;
+};
+
+export const putCachedGeo = (address: string, point: GeoPoint, provider: GeocoderProviderId) =>
+  idbPut(STORES.geocodeCache, normalizeAddress(address), { ...point, provider, cachedAt: Date.now() } as CachedGeo);
+
+export const countCachedGeo = () => idbCount(STORES.geocodeCache);
+
+export const clearGeoCache = () => idbClear(STORES.geocodeCache);
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const geocodeWithRetry = async (provider: GeocoderProvider, address: string): Promise<GeoPoint | null> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.geocode(address);
+    } catch (e) {
+      if (!(e instanceof TransientGeocodeError) || attempt >= provider.policy.maxRetries) {
+        console.error("Geocoding error:", address, e);
+        return null;
+      }
+      await sleep(Math.max(provider.policy.rateLimitMs, 500) * 2 ** attempt);
+    }
+  }
+};
+
+// 캐시 조회 후 미스만 프로바이더로 요청한다. 캐시 적중분은 대기 없이 처리.
+export const geocodeAddresses = async (
+  addresses: string[],
+  provider: GeocoderProvider,
+  onProgress?: (done: number, total: number, fromCache: boolean) => void
+): Promise<Record<string, GeoPoint>> => {
+  const results: Record<string, GeoPoint> = {};
+  let lastCallAt = 0;
+  for (let i = 0; i < addresses.length; i++) {
+    const addr = addresses[i];
+    const cached = await getCachedGeo(addr);
+    if (cached) {
+      results[addr] = cached;
+      onProgress?.(i + 1, addresses.length, true);
+      continue;
+    }
+    const wait = lastCallAt + provider.policy.rateLimitMs - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastCallAt = Date.now();
+    const coords = await geocodeWithRetry(provider, addr);
+    if (coords) {
+      results[addr] = coords;
+      await putCachedGeo(addr, coords, provider.id);
+    }
+    onProgress?.(i + 1, addresses.length, false);
+  }
+  return results;
+};
+
+// 좌표가 없는 행에 변환 결과를 채운다.
+export const applyGeocodeResults = (rows: ExcelRow[], results: Record<string, GeoPoint>): ExcelRow[] =>
+  rows.map(d => ((!d.latitude || !d.longitude) && results[d.address]
+    ? { ...d, latitude: results[d.address].lat, longitude: results[d.address].lon, isGeocoded: true }
+    : d));
+
+// --- 백그라운드 지오코딩 큐 ---
+// 대시보드를 쓰는 동안 뒤에서 주소를 변환한다. 일시정지/재개/취소가 가능하고 결과는 묶음 단위로 전달된다.
+export type GeocodeQueueStatus = 'running' | 'paused' | 'cancelled' | 'done' | 'error';
+
+export interface GeocodeProgress {
+  status: GeocodeQueueStatus;
+  done: number;
+  total: number;
+  failed: number;
+  fromCache: number;
+  // 남은 예상 시간 (ms), 아직 추정할 수 없으면 null
+  etaMs: number | null;
+  // status 가 'error' 일 때 중단 사유
+  error?: string;
+}
+
+export interface GeocodeQueue {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // 완료/취소 시 그때까지의 전체 결과로 끝난다. 캐시(IndexedDB) 오류로 중단되면 reject 된다.
+  finished: Promise<Record<string, GeoPoint>>;
+}
+
+// 결과 반영(지도 갱신)이 너무 잦지 않도록 묶어서 전달하는 간격
+const RESULT_FLUSH_MS = 1500;
+
+export const createGeocodeQueue = (
+  addresses: string[],
+  provider: GeocoderProvider,
+  handlers: {
+    onProgress: (progress: GeocodeProgress) => void;
+    onResults: (batch: Record<string, GeoPoint>) => void;
+  }
+): GeocodeQueue => {
+  let status: GeocodeQueueStatus = 'running';
+  let wake: (() => void) | null = null;
+  const results: Record<string, GeoPoint> = {};
+  let pending: Record<string, GeoPoint> = {};
+  let lastFlushAt = Date.now();
+  let done = 0, failed = 0, fromCache = 0;
+  let error: string | undefined;
+  // 프로바이더 요청에 실제로 쓴 시간 (일시정지 시간 제외) - 남은 미캐시 주소 수에 곱해 ETA 를 낸다.
+  let requestMs = 0, requests = 0;
+  // 아직 요청하지 않은 미캐시 주소 수 (캐시 조회가 끝나기 전에는 null)
+  let uncachedLeft: number | null = null;
+
+  const report = () => {
+    const remaining = addresses.length - done;
+    const perRequest = requests > 0 ? requestMs / requests : null;
+    handlers.onProgress({
+      status, done, total: addresses.length, failed, fromCache,
+      etaMs: remaining === 0 ? 0 : perRequest === null || uncachedLeft === null
+        ? null
+        : Math.round(uncachedLeft * Math.max(perRequest, provider.policy.rateLimitMs)),
+      ...(error ? { error } : {}),
+    });
+  };
+
+  const flush = (force = false) => {
+    if (Object.keys(pending).length === 0 || (!force && Date.now() - lastFlushAt < RESULT_FLUSH_MS)) return;
+    handlers.onResults(pending);
+    pending = {};
+    lastFlushAt = Date.now();
+  };
+
+  const waitWhilePaused = () => new Promise<void>(resolve => {
+    if (status !== 'paused') return resolve();
+    wake = resolve;
+  });
+
+  const record = (addr: string, coords: GeoPoint | null) => {
+    if (coords) results[addr] = pending[addr] = coords;
+    done++;
+    flush();
+    report();
+  };
+
+  const run = async () => {
+    // 캐시에 있는 주소를 먼저 반영하고, 나머지만 프로바이더에 요청한다.
+    const uncached: string[] = [];
+    for (const addr of addresses) {
+      await waitWhilePaused();
+      if (status === 'cancelled') break;
+      const cached = await getCachedGeo(addr);
+      if (cached) {
+        fromCache++;
+        record(addr, cached);
+      } else {
+        uncached.push(addr);
+      }
+    }
+    uncachedLeft = uncached.length;
+    let lastCallAt = 0;
+    for (const addr of uncached) {
+      await waitWhilePaused();
+      if (status === 'cancelled') break;
+      const wait = lastCallAt + provider.policy.rateLimitMs - Date.now();
+      if (wait > 0) await sleep(wait);
+      const startedAt = Date.now();
+      lastCallAt = startedAt;
+      const coords = await geocodeWithRetry(provider, addr);
+      requestMs += Date.now() - startedAt + Math.max(0, wait);
+      requests++;
+      uncachedLeft--;
+      if (coords) await putCachedGeo(addr, coords, provider.id);
+      else failed++;
+      record(addr, coords);
+    }
+    if (status !== 'cancelled') status = 'done';
+    flush(true);
+    report();
+    return results;
+  };
+
+  // 캐시 읽기/쓰기 실패는 재시도하지 않고 큐를 멈춘다. 그때까지의 결과는 전달하고 상태에 사유를 남긴다.
+  const finished = run().catch((e: unknown) => {
+    status = 'error';
+    error = e instanceof Error ? e.message : String(e);
+    flush(true);
+    report();
+    throw e;
+  });
+  report();
+
+  return {
+    pause: () => {
+      if (status !== 'running') return;
+      status = 'paused';
+      report();
+    },
+    resume: () => {
+      if (status !== 'paused') return;
+      status = 'running';
+      wake?.();
+      wake = null;
+      report();
+    },
+    cancel: () => {
+      if (status !== 'running' && status !== 'paused') return;
+      status = 'cancelled';
+      wake?.();
+      wake = null;
+      report();
+    },
+    finished,
+  };
+};
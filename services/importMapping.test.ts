@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEDUPE_KEY, ImportSource, buildRows, detectMapping, extractHeaders, mergeSources } from './importMapping';
+
+describe('detectMapping', () => {
+  it('헤더 별칭을 대소문자/공백과 관계없이 필드에 연결한다', () => {
+    expect(detectMapping(['PJT', 'Year', ' 월 ', 'Spec_Amount', '비고'])).toEqual({ project_name: 'PJT', year: 'Year', month: ' 월 ', spec_amount: 'Spec_Amount' });
+  });
+});
+
+describe('buildRows', () => {
+  const mapping = detectMapping(['프로젝트명', '년도', '월', '품명', '스펙량', '위도']);
+  const build = (records: any[]) => buildRows(records, mapping);
+
+  it('정상 행은 숫자를 읽고 빈 텍스트는 "-" 로 채운다', () => {
+    const { rows, issues, invalidIds } = build([{ 프로젝트명: ' 가 현장 ', 년도: '2024', 월: 3, 스펙량: '1,200 Ton' }]);
+    expect(rows[0]).toMatchObject({ project_name: '가 현장', year: 2024, month: 3, spec_amount: 1200, product_name: '-', latitude: null });
+    expect(issues).toEqual([]);
+    expect(invalidIds.size).toBe(0);
+  });
+
+  it('연/월 누락과 월 범위, 숫자 변환 실패는 오류 행으로 표시한다', () => {
+    const { rows, issues, invalidIds } = build([
+      { 프로젝트명: '가', 년도: 2024, 월: '' },
+      { 프로젝트명: '나', 년도: 2024, 월: 13 },
+      { 프로젝트명: '다', 년도: 2024, 월: 1, 스펙량: '1,2' },
+      { 프로젝트명: '라', 년도: 2024, 월: 1, 위도: '북위 37' },
+    ]);
+    expect(issues.map(i => [i.rowNumber, i.kind, i.projectName])).toEqual([
+      [2, 'missing_month', '가'],
+      [3, 'month_range', '나'],
+      [4, 'unparseable', '다'],
+      [5, 'unparseable', '라'],
+    ]);
+    expect(Array.from(invalidIds)).toEqual(rows.map(r => r.id));
+  });
+
+  it('음수는 경고만 남기고 행은 유효하다', () => {
+    const { issues, invalidIds } = build([{ 프로젝트명: '가', 년도: 2024, 월: 1, 스펙량: -5 }]);
+    expect(issues.map(i => i.kind)).toEqual(['negative']);
+    expect(invalidIds.size).toBe(0);
+  });
+
+  it('현장명이 없는 행은 빼고 엑셀 행 번호로 알려준다', () => {
+    const { rows, issues } = build([{ 프로젝트명: '', 년도: 2024, 월: 1, __rowNum__: 9 }]);
+    expect(rows).toEqual([]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rowNumber: 10, kind: 'dropped' });
+  });
+
+  it('헤더는 모든 행에서 모은다', () => {
+    expect(extractHeaders([{ a: 1 }, { b: 2, a: 3 }])).toEqual(['a', 'b']);
+  });
+});
+
+describe('mergeSources', () => {
+  const sheet = (file: string, sheet: string, ...records: [string, number, number][]): ImportSource =>
+    ({ file, sheet, json: records.map(([현장명, 월, 스펙량]) => ({ 현장명, 연도: 2024, 월, 제품명: 'A', 스펙량 })) });
+  const merge = (sources: ImportSource[], dedupeKey = DEFAULT_DEDUPE_KEY) =>
+    mergeSources(sources, detectMapping(extractHeaders(sources.flatMap(s => s.json))), dedupeKey);
+
+  it('행마다 출처 파일/시트를 남기고 시트별로 다른 id 를 준다', () => {
+    const { rows } = merge([sheet('a.xlsx', '1월', ['가', 1, 10]), sheet('a.xlsx', '2월', ['가', 2, 20])]);
+    expect(rows.map(r => [r.id, r.source_file, r.source_sheet])).toEqual([['row-0-0', 'a.xlsx', '1월'], ['row-1-0', 'a.xlsx', '2월']]);
+  });
+
+  it('중복 키가 같은 행은 나중에 읽은 쪽을 남기고 대체된 행을 알려준다', () => {
+    const { rows, issues } = merge([sheet('a.xlsx', 'S', ['가', 1, 10], ['나', 1, 1]), sheet('b.csv', 'b', ['가', 1, 20])]);
+    expect(rows.map(r => [r.project_name, r.spec_amount])).toEqual([['가', 20], ['나', 1]]);
+    expect(issues).toEqual([{ rowNumber: 2, source: 'a.xlsx / S', projectName: '가', kind: 'duplicate', message: 'b.csv / b 2행 쪽으로 대체되었습니다.' }]);
+  });
+
+  it('같은 시트 안의 같은 키 행은 합산되도록 모두 남긴다', () => {
+    const { rows, issues } = merge([sheet('a.xlsx', 'S', ['가', 1, 10], ['가', 1, 5])]);
+    expect(rows.map(r => r.spec_amount)).toEqual([10, 5]);
+    expect(issues).toEqual([]);
+  });
+
+  it('다른 시트의 같은 키는 시트 단위로 통째로 대체한다', () => {
+    const { rows, issues } = merge([sheet('a.xlsx', 'S1', ['가', 1, 10], ['가', 1, 5]), sheet('a.xlsx', 'S2', ['가', 1, 7], ['가', 1, 8])]);
+    expect(rows.map(r => [r.source_sheet, r.spec_amount])).toEqual([['S2', 7], ['S2', 8]]);
+    expect(issues.map(i => [i.rowNumber, i.message])).toEqual([
+      [2, 'a.xlsx / S2 2행 외 1행 쪽으로 대체되었습니다.'],
+      [3, 'a.xlsx / S2 2행 외 1행 쪽으로 대체되었습니다.'],
+    ]);
+  });
+
+  it('오류 행만 있는 쪽은 정상 행을 대체하지 않고 남은 행을 알려준다', () => {
+    const broken = sheet('b.xlsx', 'S', ['가', 1, 30]);
+    broken.json[0].위도 = '북위 37';
+    const { rows, issues, invalidIds } = merge([sheet('a.xlsx', 'S', ['가', 1, 10]), broken]);
+    expect(rows.map(r => [r.source_file, r.spec_amount])).toEqual([['a.xlsx', 10]]);
+    expect(invalidIds.size).toBe(0);
+    expect(issues.find(i => i.kind === 'duplicate')).toMatchObject({ source: 'b.xlsx / S', message: '오류 행이라 a.xlsx / S 2행 쪽을 유지합니다.' });
+  });
+
+  it('정상 행이 있는 쪽은 오류 행을 대체하고 오류 표시는 남은 행에만 둔다', () => {
+    const broken = sheet('a.xlsx', 'S', ['가', 1, 10]);
+    broken.json[0].위도 = '북위 37';
+    const { rows, invalidIds } = merge([broken, sheet('b.xlsx', 'S', ['가', 1, 20])]);
+    expect(rows.map(r => [r.source_file, r.spec_amount])).toEqual([['b.xlsx', 20]]);
+    expect(invalidIds.size).toBe(0);
+  });
+
+  it('중복 키를 비우면 모든 행을 남긴다', () => {
+    const { rows, issues } = merge([sheet('a.xlsx', 'S', ['가', 1, 10]), sheet('b.xlsx', 'S', ['가', 1, 20])], []);
+    expect(rows).toHaveLength(2);
+    expect(issues).toEqual([]);
+  });
+});
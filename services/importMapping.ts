@@ -0,0 +1,241 @@
+import { ExcelRow } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { normalizeKey, parseNumChecked } from '../utils/parse';
+
+// --- 컬럼 매핑 / 가져오기 검증 ---
+export type MappedField = Exclude<keyof ExcelRow, 'id' | 'isGeocoded' | 'source_file' | 'source_sheet'>;
+
+export interface FieldDef {
+  field: MappedField;
+  label: string;
+  kind: 'text' | 'number' | 'coord';
+  aliases: string[];
+}
+
+export const FIELD_DEFS: FieldDef[] = [
+  { field: 'project_name', label: '현장명', kind: 'text', aliases: ['project_name', '프로젝트명', '현장명', 'PJT', 'project'] },
+  { field: 'year', label: '연도', kind: 'number', aliases: ['year', '연도', '년', '년도'] },
+  { field: 'month', label: '월', kind: 'number', aliases: ['month', '월'] },
+  { field: 'progress', label: '진행내용', kind: 'text', aliases: ['progress', '진행내용', '상태', 'status'] },
+  { field: 'address', label: '주소', kind: 'text', aliases: ['address', '주소', '상세주소', 'addr'] },
+  { field: 'latitude', label: '위도', kind: 'coord', aliases: ['latitude', '위도', 'lat', 'y', 'latitude_val'] },
+  { field: 'longitude', label: '경도', kind: 'coord', aliases: ['longitude', '경도', 'lng', 'long', 'x', 'longitude_val'] },
+  { field: 'designer', label: '설계사', kind: 'text', aliases: ['designer', '설계사', '설계'] },
+  { field: 'constructor', label: '시공사', kind: 'text', aliases: ['constructor', '건설사', '시공사', '시공'] },
+  { field: 'product_name', label: '제품명', kind: 'text', aliases: ['product_name', '제품명', '품명'] },
+  { field: 'quantity', label: '수량', kind: 'number', aliases: ['quantity', '물량', '수량'] },
+  { field: 'spec_amount', label: '스펙량', kind: 'number', aliases: ['spec_amount', '스펙량', '스펙', '합계', 'amount'] },
+];
+
+// 필드 → 원본 헤더명
+export type ColumnMapping = Partial<Record<MappedField, string>>;
+
+export type IssueKind = 'unparseable' | 'negative' | 'missing_year' | 'missing_month' | 'month_range' | 'dropped' | 'duplicate';
+
+export interface ImportIssue {
+  rowNumber: number;
+  source?: string;
+  projectName?: string;
+  kind: IssueKind;
+  field?: MappedField;
+  raw?: string;
+  message: string;
+}
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  unparseable: '숫자 변환 불가',
+  negative: '음수 값',
+  missing_year: '연도 누락',
+  missing_month: '월 누락',
+  month_range: '월 범위 오류',
+  dropped: '현장명 없음 (제외)',
+  duplicate: '중복 행 (제외)',
+};
+
+// 음수는 경고로만 취급하고, 나머지는 행 자체를 신뢰할 수 없는 오류로 본다.
+export const BLOCKING_ISSUES: IssueKind[] = ['unparseable', 'missing_year', 'missing_month', 'month_range'];
+
+// 파일 하나의 시트 하나
+export interface ImportSource {
+  file: string;
+  sheet: string;
+  json: any[];
+}
+
+export const sourceLabel = (file?: string, sheet?: string) => (file ? (sheet ? `${file} / ${sheet}` : file) : '');
+
+export const extractHeaders = (json: any[]): string[] => {
+  const seen = new Set<string>();
+  json.forEach(row => Object.keys(row).forEach(k => seen.add(k)));
+  return Array.from(seen);
+};
+
+export const detectMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  FIELD_DEFS.forEach(def => {
+    const aliases = def.aliases.map(normalizeKey);
+    const found = headers.find(h => aliases.includes(normalizeKey(h)));
+    if (found) mapping[def.field] = found;
+  });
+  return mapping;
+};
+
+// sheet_to_json 이 붙여주는 __rowNum__(0-based) 으로 실제 엑셀 행 번호를 보고한다.
+const rowNumberOf = (row: any, idx: number) => (typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : idx + 2);
+
+export const buildRows = (json: any[], mapping: ColumnMapping, source?: { file: string; sheet: string; idPrefix: string }): { rows: ExcelRow[]; issues: ImportIssue[]; invalidIds: Set<string>; rowNumbers: Map<string, number> } => {
+  const rows: ExcelRow[] = [];
+  const rowNumbers = new Map<string, number>();
+  const issues: ImportIssue[] = [];
+  const invalidIds = new Set<string>();
+
+  json.forEach((row, idx) => {
+    const rowNumber = rowNumberOf(row, idx);
+    const raw = (field: MappedField) => (mapping[field] ? row[mapping[field]!] : undefined);
+    const text = (field: MappedField, fallback = '-') => {
+      const v = raw(field);
+      return v === undefined || v === null || String(v).trim() === '' ? fallback : String(v).trim();
+    };
+    const rowIssues: ImportIssue[] = [];
+    const num = (field: MappedField, label: string) => {
+      const r = parseNumChecked(raw(field));
+      if (r.issue === 'unparseable') rowIssues.push({ rowNumber, kind: 'unparseable', field, raw: String(raw(field)), message: `${label} 값 "${raw(field)}" 을(를) 숫자로 읽을 수 없습니다.` });
+      if (r.issue === 'negative') rowIssues.push({ rowNumber, kind: 'negative', field, raw: String(raw(field)), message: `${label} 값이 음수입니다 (${r.value}).` });
+      return r;
+    };
+    const coord = (field: MappedField, label: string) => {
+      const v = raw(field);
+      if (v === undefined || v === null || String(v).trim() === '') return null;
+      const parsed = parseFloat(String(v));
+      if (isNaN(parsed)) {
+        rowIssues.push({ rowNumber, kind: 'unparseable', field, raw: String(v), message: `${label} 값 "${v}" 을(를) 좌표로 읽을 수 없습니다.` });
+        return null;
+      }
+      return parsed || null;
+    };
+
+    const projectName = text('project_name', '');
+    if (!projectName) {
+      issues.push({ rowNumber, source: sourceLabel(source?.file, source?.sheet), kind: 'dropped', message: '현장명이 비어 있어 가져오기에서 제외됩니다.' });
+      return;
+    }
+
+    const year = num('year', '연도');
+    const month = num('month', '월');
+    if (year.empty || (!year.issue && year.value === 0)) rowIssues.push({ rowNumber, kind: 'missing_year', field: 'year', message: '연도가 비어 있습니다.' });
+    if (month.empty || (!month.issue && month.value === 0)) rowIssues.push({ rowNumber, kind: 'missing_month', field: 'month', message: '월이 비어 있습니다.' });
+    else if (!month.issue && (month.value < 1 || month.value > 12 || !Number.isInteger(month.value))) {
+      rowIssues.push({ rowNumber, kind: 'month_range', field: 'month', raw: String(raw('month')), message: `월 값 ${month.value} 은(는) 1~12 범위를 벗어납니다.` });
+    }
+
+    const id = source ? `row-${source.idPrefix}-${idx}` : `row-${idx}`;
+    rowNumbers.set(id, rowNumber);
+    rows.push({
+      id,
+      project_name: projectName,
+      year: year.value,
+      month: month.value,
+      progress: text('progress'),
+      address: text('address'),
+      latitude: coord('latitude', '위도'),
+      longitude: coord('longitude', '경도'),
+      designer: text('designer'),
+      constructor: text('constructor'),
+      product_name: text('product_name'),
+      quantity: num('quantity', '수량').value,
+      spec_amount: num('spec_amount', '스펙량').value,
+      ...(source ? { source_file: source.file, source_sheet: source.sheet } : {}),
+    });
+    if (rowIssues.some(i => BLOCKING_ISSUES.includes(i.kind))) invalidIds.add(id);
+    issues.push(...rowIssues.map(i => ({ ...i, source: sourceLabel(source?.file, source?.sheet), projectName })));
+  });
+
+  return { rows, issues, invalidIds, rowNumbers };
+};
+
+// 여러 시트/파일을 하나로 합친다. 중복 키가 같은 행은 나중에 읽은 시트/파일 쪽을 남긴다.
+// 같은 시트 안의 같은 키 행(예: 같은 달 여러 줄)은 그대로 두어 합산되게 하고, 오류 행이 정상 행을 대체하지는 않는다.
+export const DEFAULT_DEDUPE_KEY: MappedField[] = ['project_name', 'year', 'month', 'product_name'];
+
+export const mergeSources = (sources: ImportSource[], mapping: ColumnMapping, dedupeKey: MappedField[]) => {
+  const issues: ImportIssue[] = [];
+  const invalid = new Set<string>();
+  const rowNumbers = new Map<string, number>();
+  // 키 → 그 키를 마지막으로 가진 시트의 행들 (처음 나온 위치를 유지)
+  const merged = new Map<string, ExcelRow[]>();
+  let sequence = 0;
+
+  const rowRef = (rows: ExcelRow[]) => {
+    const first = rows[0];
+    const more = rows.length > 1 ? ` 외 ${rows.length - 1}행` : '';
+    return `${sourceLabel(first.source_file, first.source_sheet)} ${rowNumbers.get(first.id) ?? '?'}행${more}`;
+  };
+  const reportDuplicate = (rows: ExcelRow[], message: string) => rows.forEach(r => issues.push({
+    rowNumber: rowNumbers.get(r.id) ?? 0,
+    source: sourceLabel(r.source_file, r.source_sheet),
+    projectName: r.project_name,
+    kind: 'duplicate',
+    message,
+  }));
+  const isValid = (r: ExcelRow) => !invalid.has(r.id);
+
+  sources.forEach((src, si) => {
+    const built = buildRows(src.json, mapping, { file: src.file, sheet: src.sheet, idPrefix: String(si) });
+    issues.push(...built.issues);
+    built.invalidIds.forEach(id => invalid.add(id));
+    built.rowNumbers.forEach((n, id) => rowNumbers.set(id, n));
+
+    const incoming = new Map<string, ExcelRow[]>();
+    built.rows.forEach(row => {
+      const key = dedupeKey.length > 0 ? dedupeKey.map(f => String(row[f]).trim().toLowerCase()).join('|') : `#${sequence++}`;
+      const list = incoming.get(key);
+      if (list) list.push(row); else incoming.set(key, [row]);
+    });
+
+    incoming.forEach((rows, key) => {
+      const prev = merged.get(key);
+      if (!prev) {
+        merged.set(key, rows);
+      } else if (!rows.some(isValid) && prev.some(isValid)) {
+        reportDuplicate(rows, `오류 행이라 ${rowRef(prev)} 쪽을 유지합니다.`);
+      } else {
+        reportDuplicate(prev, `${rowRef(rows)} 쪽으로 대체되었습니다.`);
+        merged.set(key, rows);
+      }
+    });
+  });
+
+  const rows = Array.from(merged.values()).flat();
+  const invalidIds = new Set(rows.filter(r => !isValid(r)).map(r => r.id));
+  return { rows, issues, invalidIds };
+};
+
+// --- 매핑 프로필 저장 ---
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  dedupeKey?: MappedField[];
+  savedAt: number;
+}
+
+const PROFILES_KEY = 'mappingProfiles';
+
+export const listMappingProfiles = async (): Promise<MappingProfile[]> =>
+  (await idbGet<MappingProfile[]>(STORES.settings, PROFILES_KEY)) || [];
+
+export const saveMappingProfile = async (name: string, mapping: ColumnMapping, dedupeKey?: MappedField[]): Promise<MappingProfile[]> => {
+  const profiles = (await listMappingProfiles()).filter(p => p.name !== name);
+  const next = [...profiles, { name, mapping, dedupeKey, savedAt: Date.now() }].sort((a, b) => a.name.localeCompare(b.name));
+  await idbPut(STORES.settings, PROFILES_KEY, next);
+  return next;
+};
+
+export const deleteMappingProfile = async (name: string): Promise<MappingProfile[]> => {
+  const next = (await listMappingProfiles()).filter(p => p.name !== name);
+  await idbPut(STORES.settings, PROFILES_KEY, next);
+  return next;
+};
+
+// 프로필의 헤더가 모두 현재 파일에 있을 때만 적용 가능
+export const isProfileApplicable = (profile: MappingProfile, headers: string[]) =>
+  Object.values(profile.mapping).every(h => !h || headers.includes(h));
@@ -0,0 +1,14 @@
+import { readImportBuffer } from './fileReaders';
+
+// --- 파일 파싱 워커 ---
+// XLSX.read / sheet_to_json 을 UI 스레드 밖에서 실행한다.
+// __rowNum__ 은 열거 불가 속성이라 postMessage 복사에서 빠지므로 따로 보낸다.
+self.onmessage = (e: MessageEvent<{ name: string; buffer: ArrayBuffer }>) => {
+  try {
+    const sources = readImportBuffer(e.data.name, e.data.buffer);
+    const rowNumbers = sources.map(s => s.json.map(r => r.__rowNum__));
+    self.postMessage({ ok: true, sources, rowNumbers });
+  } catch (err) {
+    self.postMessage({ ok: false, error: err instanceof Error ? err.message : String(err) });
+  }
+};
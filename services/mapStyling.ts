@@ -0,0 +1,48 @@
+import { GroupedProject } from '../types';
+
+// --- 지도 마커 스타일 ---
+export type MarkerStyle = 'default' | 'amount' | 'progress' | 'constructor';
+
+export const MARKER_STYLE_LABELS: Record<MarkerStyle, string> = {
+  default: '기본',
+  amount: '스펙량 (크기)',
+  progress: '진행상태 (색상)',
+  constructor: '시공사 (색상)',
+};
+
+export const PALETTE = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#0ea5e9', '#8b5cf6', '#ef4444', '#14b8a6'];
+export const OTHER_COLOR = '#94a3b8';
+
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+// 스펙량 상위 값부터 팔레트 색을 배정하고 나머지는 '기타' 회색으로 묶는다.
+export const buildColorScale = (projects: GroupedProject[], keyOf: (p: GroupedProject) => string) => {
+  const totals: Record<string, number> = {};
+  projects.forEach(p => { const k = keyOf(p); totals[k] = (totals[k] || 0) + p.totalAmount; });
+  const ranked = Object.entries(totals).sort((a, b) => b[1] - a[1]).map(([k]) => k);
+  const colors = new Map(ranked.slice(0, PALETTE.length).map((k, i) => [k, PALETTE[i]]));
+  const legend: LegendItem[] = ranked.slice(0, PALETTE.length).map(k => ({ label: k, color: colors.get(k)! }));
+  if (ranked.length > PALETTE.length) legend.push({ label: '기타', color: OTHER_COLOR });
+  return { colorOf: (p: GroupedProject) => colors.get(keyOf(p)) || OTHER_COLOR, legend };
+};
+
+// 면적이 스펙량에 비례하도록 제곱근 스케일 사용
+export const sizeScale = (maxAmount: number, min = 14, max = 44) => (amount: number) =>
+  min + (max - min) * Math.sqrt(Math.max(amount, 0) / (maxAmount || 1));
+
+export const formatTonnage = (value: number) =>
+  value >= 10000 ? `${(value / 1000).toFixed(0)}k` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : Math.round(value).toLocaleString();
+
+// 단계 구분도(지역별 색상) 색 범위: 옅은 남색 → 진한 남색
+export const CHOROPLETH_RAMP: [string, string] = ['#e0e7ff', '#3730a3'];
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+export const sequentialColor = (t: number) => {
+  const [from, to] = CHOROPLETH_RAMP.map(hexToRgb);
+  const k = Math.min(Math.max(t, 0), 1);
+  return `rgb(${from.map((c, i) => Math.round(c + (to[i] - c) * k)).join(', ')})`;
+};
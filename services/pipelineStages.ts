@@ -0,0 +1,90 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+
+// --- 진행내용 → 파이프라인 단계 분류 ---
+export interface StageDef {
+  id: string;
+  label: string;
+  color: string;
+  keywords: string[];
+}
+
+export interface StageConfig {
+  // 파이프라인 순서. 분류 시에는 뒤쪽 단계부터 검사해 더 진행된 단계가 우선한다.
+  stages: StageDef[];
+  // 규칙으로 잡히지 않는 진행내용 원문 → 단계 id 수동 지정
+  manual: Record<string, string>;
+  lostStageId: string;
+}
+
+export const UNCLASSIFIED = '__unclassified__';
+
+export const DEFAULT_STAGE_CONFIG: StageConfig = {
+  stages: [
+    { id: 'sales', label: '영업', color: '#0ea5e9', keywords: ['영업', '제안', '미팅', '소개', '홍보', '접촉'] },
+    { id: 'design', label: '설계반영', color: '#6366f1', keywords: ['설계', '반영', '도면', '스펙인', 'spec in'] },
+    { id: 'bid', label: '입찰', color: '#f59e0b', keywords: ['입찰', '견적', '투찰', '발주', '계약'] },
+    { id: 'construction', label: '시공', color: '#10b981', keywords: ['시공', '착공', '공사', '납품', '설치'] },
+    { id: 'done', label: '완료', color: '#14b8a6', keywords: ['완료', '준공', '종료'] },
+    { id: 'lost', label: '실주', color: '#ef4444', keywords: ['실주', '드랍', 'drop', '취소', '탈락', '타사'] },
+  ],
+  manual: {},
+  lostStageId: 'lost',
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const classifyProgress = (progress: string, config: StageConfig): string => {
+  const text = normalize(progress || '');
+  if (!text || text === '-') return UNCLASSIFIED;
+  const manual = config.manual[progress.trim()];
+  if (manual && config.stages.some(s => s.id === manual)) return manual;
+  for (let i = config.stages.length - 1; i >= 0; i--) {
+    const stage = config.stages[i];
+    if (stage.keywords.some(k => k.trim() && text.includes(normalize(k)))) return stage.id;
+  }
+  return UNCLASSIFIED;
+};
+
+// 진행내용 원문별 분류 결과 캐시
+export const buildStageIndex = (rows: ExcelRow[], config: StageConfig) => {
+  const index = new Map<string, string>();
+  rows.forEach(r => { if (!index.has(r.progress)) index.set(r.progress, classifyProgress(r.progress, config)); });
+  return index;
+};
+
+export interface FunnelStep {
+  id: string;
+  label: string;
+  color: string;
+  sites: number;
+  tonnage: number;
+}
+
+export const buildFunnel = (projects: GroupedProject[], stageOf: (progress: string) => string, config: StageConfig): FunnelStep[] => {
+  const steps = new Map<string, FunnelStep>(config.stages.map(s => [s.id, { id: s.id, label: s.label, color: s.color, sites: 0, tonnage: 0 }]));
+  steps.set(UNCLASSIFIED, { id: UNCLASSIFIED, label: '미분류', color: '#94a3b8', sites: 0, tonnage: 0 });
+  projects.forEach(p => {
+    const step = steps.get(stageOf(p.progress)) || steps.get(UNCLASSIFIED)!;
+    step.sites += 1;
+    step.tonnage += p.totalAmount;
+  });
+  return Array.from(steps.values());
+};
+
+export type PipelineHealth = 'good' | 'warn' | 'risk' | 'none';
+
+// 실주 비중(톤 기준)으로 파이프라인 건강도를 판정한다.
+export const pipelineHealth = (funnel: FunnelStep[], config: StageConfig): { health: PipelineHealth; lostShare: number } => {
+  const total = funnel.reduce((s, f) => s + f.tonnage, 0);
+  if (total <= 0) return { health: 'none', lostShare: 0 };
+  const lostShare = (funnel.find(f => f.id === config.lostStageId)?.tonnage || 0) / total;
+  return { health: lostShare >= 0.3 ? 'risk' : lostShare >= 0.15 ? 'warn' : 'good', lostShare };
+};
+
+const CONFIG_KEY = 'stageConfig';
+
+export const loadStageConfig = async (): Promise<StageConfig> =>
+  (await idbGet<StageConfig>(STORES.settings, CONFIG_KEY)) || DEFAULT_STAGE_CONFIG;
+
+export const saveStageConfig = (config: StageConfig) => idbPut(STORES.settings, CONFIG_KEY, config);
@@ -0,0 +1,220 @@
+import { GroupedProject } from '../types';
+import { RegionFeature } from './regions';
+import { HistoryEntry } from './projectHistory';
+
+// --- 인쇄용 보고서 (HTML → 브라우저 인쇄/PDF 저장) ---
+// 외부 서비스 없이 새 창에 자체 완결 HTML 을 쓰고 인쇄 대화상자를 연다. 차트/지도는 인라인 SVG.
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const STYLES = `
+  @page { size: A4; margin: 14mm 12mm; @bottom-center { content: counter(page) ' / ' counter(pages); font-size: 9px; color: #94a3b8; } }
+  * { box-sizing: border-box; }
+  body { font-family: 'Pretendard', 'Malgun Gothic', 'Apple SD Gothic Neo', sans-serif; color: #1e293b; margin: 0; font-size: 11px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h1 { font-size: 20px; margin: 0 0 4px; letter-spacing: -0.02em; }
+  h2 { font-size: 12px; margin: 0 0 8px; color: #64748b; text-transform: uppercase; letter-spacing: 0.08em; }
+  .meta { color: #64748b; font-size: 10px; margin-bottom: 14px; }
+  .page { page-break-after: always; break-after: page; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .grid { display: grid; gap: 10px; }
+  .g4 { grid-template-columns: repeat(4, 1fr); }
+  .g3 { grid-template-columns: repeat(3, 1fr); }
+  .g2 { grid-template-columns: repeat(2, 1fr); }
+  .card { border: 1px solid #e2e8f0; border-radius: 10px; padding: 10px 12px; break-inside: avoid; }
+  .kpi-label { font-size: 9px; font-weight: 800; color: #94a3b8; text-transform: uppercase; }
+  .kpi-value { font-size: 18px; font-weight: 900; margin-top: 2px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .kpi-unit { font-size: 10px; color: #94a3b8; font-weight: 700; margin-left: 3px; }
+  .up { color: #059669; } .down { color: #dc2626; }
+  .section { margin-top: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  th { text-align: left; font-size: 9px; color: #64748b; border-bottom: 1.5px solid #cbd5e1; padding: 5px 6px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 4px 6px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .muted { color: #94a3b8; }
+  .badge { display: inline-block; padding: 1px 6px; border-radius: 6px; color: #fff; font-size: 9px; font-weight: 800; }
+  .toolbar { position: sticky; top: 0; background: #0f172a; color: #fff; padding: 8px 14px; display: flex; gap: 10px; align-items: center; font-size: 11px; }
+  .toolbar button { background: #fff; color: #0f172a; border: 0; border-radius: 6px; padding: 5px 12px; font-weight: 800; cursor: pointer; }
+  .content { padding: 16px 20px; }
+  @media print { .toolbar { display: none; } .content { padding: 0; } }
+`;
+
+const documentHtml = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="ko"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${STYLES}</style></head>
+<body><div class="toolbar"><span style="flex:1">${escapeHtml(title)}</span><button onclick="window.print()">인쇄 / PDF 저장</button></div>
+<div class="content">${body}</div></body></html>`;
+
+// 새 창에 보고서를 쓰고 그림이 그려진 뒤 인쇄 대화상자를 연다.
+export const openPrintWindow = (title: string, body: string) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    alert('팝업이 차단되어 보고서를 열 수 없습니다. 이 사이트의 팝업을 허용해 주세요.');
+    return;
+  }
+  win.document.open();
+  win.document.write(documentHtml(title, body));
+  win.document.close();
+  win.addEventListener('load', () => setTimeout(() => win.print(), 300));
+};
+
+// --- 차트 / 지도 SVG ---
+export interface ReportSeries {
+  title: string;
+  color: string;
+  data: { label: string; value: number }[];
+  compare?: number[];
+  suffix?: string;
+}
+
+export const barChartSvg = ({ title, color, data, compare, suffix = '' }: ReportSeries) => {
+  const width = 300, height = 150, top = 22, bottom = 26;
+  const max = Math.max(...data.map(d => d.value), ...(compare || []), 1);
+  const slot = data.length > 0 ? width / data.length : width;
+  const barW = Math.min(28, slot * 0.6);
+  const y = (v: number) => top + (height - top - bottom) * (1 - v / max);
+  const bars = data.map((d, i) => {
+    const x = i * slot + (slot - barW) / 2;
+    const prev = compare?.[i];
+    const ghost = prev !== undefined ? `<rect x="${x - 2}" y="${y(prev)}" width="${barW + 4}" height="${height - bottom - y(prev)}" fill="#e2e8f0" rx="2"/>` : '';
+    const label = d.value > 0 ? `<text x="${x + barW / 2}" y="${y(d.value) - 3}" font-size="7" text-anchor="middle" font-weight="700" fill="#334155">${escapeHtml(fmt(d.value))}${escapeHtml(suffix)}</text>` : '';
+    return `${ghost}<rect x="${x}" y="${y(d.value)}" width="${barW}" height="${height - bottom - y(d.value)}" fill="${color}" rx="2"/>${label}`
+      + `<text x="${x + barW / 2}" y="${height - bottom + 10}" font-size="7" text-anchor="middle" fill="#64748b">${escapeHtml(d.label.length > 8 ? d.label.slice(0, 8) + '…' : d.label)}</text>`;
+  }).join('');
+  return `<div class="card"><h2>${escapeHtml(title)}${compare ? ' <span class="muted">■ 전년 동기</span>' : ''}</h2>`
+    + `<svg viewBox="0 0 ${width} ${height}" width="100%">${bars || `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" fill="#94a3b8" font-size="9">No Data</text>`}</svg></div>`;
+};
+
+// 웹 메르카토르로 투영해 현장 위치를 점으로 그린다 (경계 데이터가 있으면 시/도 윤곽을 함께).
+const mercY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+
+export const siteMapSvg = (projects: GroupedProject[], colorOf: (p: GroupedProject) => string, outlines: RegionFeature[] = []) => {
+  const located = projects.filter(p => p.latitude && p.longitude);
+  if (located.length === 0) return '<div class="card muted">좌표가 있는 현장이 없습니다.</div>';
+  const lons = located.map(p => p.longitude!);
+  const ys = located.map(p => mercY(p.latitude!));
+  const pad = 0.05;
+  let minX = Math.min(...lons), maxX = Math.max(...lons), minY = Math.min(...ys), maxY = Math.max(...ys);
+  const spanX = Math.max(maxX - minX, 0.05), spanY = Math.max(maxY - minY, 0.0008);
+  minX -= spanX * pad; maxX = minX + spanX * (1 + pad * 2);
+  minY -= spanY * pad; maxY = minY + spanY * (1 + pad * 2);
+  const width = 700;
+  const lonScale = width / (maxX - minX);
+  const yScale = (lonScale * 180) / Math.PI;
+  const height = Math.min(Math.max((maxY - minY) * yScale, 200), 900);
+  const px = (lon: number) => (lon - minX) * lonScale;
+  const py = (lat: number) => height - (mercY(lat) - minY) * yScale;
+  const maxAmount = Math.max(...located.map(p => p.totalAmount), 1);
+
+  const paths = outlines.map(f => f.polygons.map(poly => poly.map(ring =>
+    `M${ring.map(([lon, lat]) => `${px(lon).toFixed(1)},${py(lat).toFixed(1)}`).join('L')}Z`).join('')).join('')).join('');
+  const dots = located
+    .slice()
+    .sort((a, b) => b.totalAmount - a.totalAmount)
+    .map(p => `<circle cx="${px(p.longitude!).toFixed(1)}" cy="${py(p.latitude!).toFixed(1)}" r="${(2.5 + 7 * Math.sqrt(p.totalAmount / maxAmount)).toFixed(1)}" fill="${colorOf(p)}" fill-opacity="0.65" stroke="#fff" stroke-width="0.8"/>`)
+    .join('');
+  return `<svg viewBox="0 0 ${width} ${height.toFixed(0)}" width="100%" style="background:#f8fafc;border:1px solid #e2e8f0;border-radius:10px">`
+    + `<clipPath id="map-clip"><rect width="${width}" height="${height.toFixed(0)}"/></clipPath>`
+    + `<g clip-path="url(#map-clip)"><path d="${paths}" fill="#eef2ff" stroke="#c7d2fe" stroke-width="0.6"/>${dots}</g></svg>`;
+};
+
+// --- 대시보드 보고서 ---
+export interface ReportKpi {
+  label: string;
+  value: string;
+  unit: string;
+  delta?: string | null;
+}
+
+export interface ReportRanking {
+  title: string;
+  rows: { rank: number; name: string; sites: number; amount: number }[];
+}
+
+export interface DashboardReportInput {
+  title: string;
+  subtitle: string;
+  filters: string[];
+  kpis: ReportKpi[];
+  trends: ReportSeries[];
+  rankings: ReportRanking[];
+  mapSvg: string;
+  legend: { label: string; color: string }[];
+  projects: GroupedProject[];
+  stageLabel: (p: GroupedProject) => { label: string; color: string } | null;
+  amountUnit: string;
+}
+
+const deltaClass = (text: string) => (text.startsWith('-') ? 'down' : 'up');
+
+const rankingTable = ({ title, rows }: ReportRanking) => `<div class="card"><h2>${escapeHtml(title)}</h2><table>
+  <thead><tr><th>순위</th><th>회사명</th><th class="num">현장</th><th class="num">스펙량</th></tr></thead>
+  <tbody>${rows.map(r => `<tr><td>${r.rank}</td><td>${escapeHtml(r.name)}</td><td class="num">${r.sites}</td><td class="num">${fmt(r.amount)}</td></tr>`).join('')}</tbody></table></div>`;
+
+export const buildDashboardReport = (input: DashboardReportInput) => {
+  const header = `<h1>${escapeHtml(input.title)}</h1><div class="meta">${escapeHtml(input.subtitle)}${input.filters.length ? ` · ${input.filters.map(escapeHtml).join(' · ')}` : ''}</div>`;
+  const kpis = `<div class="grid g4">${input.kpis.map(k => `<div class="card"><div class="kpi-label">${escapeHtml(k.label)}</div>`
+    + `<div class="kpi-value">${escapeHtml(k.value)}<span class="kpi-unit">${escapeHtml(k.unit)}</span></div>`
+    + (k.delta ? `<div class="${deltaClass(k.delta)}" style="font-size:9px;font-weight:800">전년 동기 ${escapeHtml(k.delta)}</div>` : '')
+    + '</div>').join('')}</div>`;
+  const trends = `<div class="grid g3 section">${input.trends.map(barChartSvg).join('')}</div>`;
+  const rankings = `<div class="grid g2 section">${input.rankings.map(rankingTable).join('')}</div>`;
+  const legend = input.legend.length
+    ? `<div class="meta" style="margin-top:6px">${input.legend.map(l => `<span style="margin-right:10px"><span class="badge" style="background:${l.color}">&nbsp;</span> ${escapeHtml(l.label)}</span>`).join('')}</div>`
+    : '';
+  const map = `<div class="section"><h2>현장 분포 (${input.projects.filter(p => p.latitude && p.longitude).length}곳, 원 크기 = 스펙량)</h2>${input.mapSvg}${legend}</div>`;
+  const projectRows = input.projects.slice().sort((a, b) => b.totalAmount - a.totalAmount).map((p, i) => {
+    const stage = input.stageLabel(p);
+    return `<tr><td class="muted">${i + 1}</td><td><b>${escapeHtml(p.name)}</b><div class="muted">${escapeHtml(p.address)}</div></td>`
+      + `<td>${escapeHtml(p.designer)}</td><td>${escapeHtml(p.constructor)}</td>`
+      + `<td>${stage ? `<span class="badge" style="background:${stage.color}">${escapeHtml(stage.label)}</span> ` : ''}${escapeHtml(p.progress)}</td>`
+      + `<td class="num">${fmt(p.totalAmount)}</td></tr>`;
+  }).join('');
+  const table = `<h2>현장 목록 (${input.projects.length.toLocaleString()}곳)</h2><table>
+    <thead><tr><th>#</th><th>현장명 / 주소</th><th>설계사</th><th>시공사</th><th>진행내용</th><th class="num">스펙량(${escapeHtml(input.amountUnit)})</th></tr></thead>
+    <tbody>${projectRows}</tbody></table>`;
+
+  return `<section class="page">${header}${kpis}${trends}</section>`
+    + `<section class="page">${header}${rankings}${map}</section>`
+    + `<section class="page">${table}</section>`;
+};
+
+// --- 현장 시트 (1페이지) ---
+export interface ProjectSheetInput {
+  project: GroupedProject;
+  stage: { label: string; color: string } | null;
+  history: HistoryEntry[];
+  amountUnit: string;
+  unitsOf: (product: string) => { amountUnit: string; quantityUnit: string };
+  generatedAt: string;
+}
+
+export const buildProjectSheet = ({ project, stage, history, amountUnit, unitsOf, generatedAt }: ProjectSheetInput) => {
+  const party = (label: string, value: string) => `<div class="card"><div class="kpi-label">${label}</div><div style="font-size:13px;font-weight:800;margin-top:2px">${escapeHtml(value)}</div></div>`;
+  const specs = project.specs.map(s => {
+    const units = unitsOf(s.product);
+    return `<tr><td>${escapeHtml(s.product)}</td><td class="num">${fmt(s.quantity)} ${escapeHtml(units.quantityUnit)}</td><td class="num">${fmt(s.amount)} ${escapeHtml(units.amountUnit)}</td><td class="muted">${escapeHtml(s.source || '')}</td></tr>`;
+  }).join('');
+  const timeline = history.length > 1
+    ? `<div class="section"><h2>진행 이력</h2><table><thead><tr><th>연-월</th><th>진행내용</th><th class="num">스펙량</th><th class="num">증감</th></tr></thead><tbody>`
+      + history.map(h => `<tr><td>${h.year}.${String(h.month).padStart(2, '0')}</td><td>${escapeHtml(h.progress.join(' / '))}${h.changes.filter(c => c.kind !== 'progress').map(c => `<div class="muted">${c.kind === 'designer' ? '설계사' : '시공사'}: ${escapeHtml(c.from)} → ${escapeHtml(c.to)}</div>`).join('')}</td>`
+        + `<td class="num">${fmt(h.amount)}</td><td class="num">${h.amountDelta ? `<span class="${h.amountDelta > 0 ? 'up' : 'down'}">${h.amountDelta > 0 ? '+' : ''}${fmt(h.amountDelta)}</span>` : ''}</td></tr>`).join('')
+      + '</tbody></table></div>'
+    : '';
+  return `<section class="page">
+    <h1>${escapeHtml(project.name)}</h1>
+    <div class="meta">${escapeHtml(project.address)}${project.latitude && project.longitude ? ` · ${project.latitude.toFixed(5)}, ${project.longitude.toFixed(5)}` : ''} · 출력 ${escapeHtml(generatedAt)}</div>
+    <div class="grid g3">${party('설계사', project.designer)}${party('시공사', project.constructor)}
+      <div class="card"><div class="kpi-label">진행현황${project.asOf?.year ? ` (${project.asOf.year}.${String(project.asOf.month).padStart(2, '0')})` : ''}</div>
+      <div style="margin-top:4px">${stage ? `<span class="badge" style="background:${stage.color}">${escapeHtml(stage.label)}</span> ` : ''}<b>${escapeHtml(project.progress)}</b></div></div>
+    </div>
+    <div class="section"><h2>스펙 상세 (${project.specs.length}건)</h2><table>
+      <thead><tr><th>제품</th><th class="num">수량</th><th class="num">스펙량</th><th>출처</th></tr></thead>
+      <tbody>${specs}</tbody>
+      <tfoot><tr><td><b>합계</b></td><td></td><td class="num"><b>${fmt(project.totalAmount)} ${escapeHtml(amountUnit)}</b></td><td></td></tr></tfoot>
+    </table></div>
+    ${timeline}
+  </section>`;
+};
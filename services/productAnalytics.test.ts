@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ExcelRow } from '../types';
+import { DEFAULT_UNIT_CONFIG, productMix, productTotals, ratioOutliers, unitsFor } from './productAnalytics';
+
+const BASE: ExcelRow = {
+  id: '', project_name: '가', year: 2024, month: 1, progress: '-', address: '-', latitude: null, longitude: null,
+  designer: '-', constructor: '-', product_name: '-', quantity: 0, spec_amount: 0,
+};
+// [제품, 수량, 스펙량, 시공사]
+const lines = (...specs: [string, number, number, string?][]): ExcelRow[] =>
+  specs.map(([product_name, quantity, spec_amount, constructor = '-'], i) => ({ ...BASE, id: `p${i}`, project_name: `현장${i % 2}`, product_name, quantity, spec_amount, constructor }));
+
+describe('unitsFor', () => {
+  it('제품별 단위가 없으면 기본 단위를 쓴다', () => {
+    const config = { ...DEFAULT_UNIT_CONFIG, amountUnit: 'kg', products: { 앵커: { quantityUnit: 'EA' }, 보드: { amountUnit: '㎡' } } };
+    expect(unitsFor('앵커', config)).toEqual({ amountUnit: 'kg', quantityUnit: 'EA' });
+    expect(unitsFor('보드', config)).toEqual({ amountUnit: '㎡', quantityUnit: 'UNIT' });
+    expect(unitsFor('기타', config)).toEqual({ amountUnit: 'kg', quantityUnit: 'UNIT' });
+  });
+});
+
+describe('productTotals', () => {
+  it('제품별 스펙량/수량/현장 수를 많은 순으로 모으고 빈 제품명은 기타로 묶는다', () => {
+    expect(productTotals(lines(['A', 2, 10], ['B', 1, 30], ['A', 3, 15], ['-', 0, 1]))).toEqual([
+      { product: 'B', amount: 30, quantity: 1, rows: 1, projects: 1 },
+      { product: 'A', amount: 25, quantity: 5, rows: 2, projects: 1 },
+      { product: '기타', amount: 1, quantity: 0, rows: 1, projects: 1 },
+    ]);
+  });
+});
+
+describe('productMix', () => {
+  it('상위 제품 외에는 기타로 묶어 업체별 구성을 만든다', () => {
+    const mix = productMix(lines(['A', 1, 10, '한빛'], ['B', 1, 5, '한빛'], ['C', 1, 5, '한빛'], ['A', 1, 30, '-']), 'constructor', ['A']);
+    expect(mix).toEqual([
+      { name: '기타', total: 30, parts: [{ product: 'A', amount: 30 }] },
+      { name: '한빛', total: 20, parts: [{ product: 'A', amount: 10 }, { product: '기타', amount: 10 }] },
+    ]);
+  });
+});
+
+describe('ratioOutliers', () => {
+  it('제품 중앙값에서 허용 배수 이상 벗어난 행과 수량 없는 행을 찾는다', () => {
+    const rows = lines(['A', 1, 10], ['A', 2, 20], ['A', 1, 11], ['A', 1, 100], ['A', 10, 2], ['A', 0, 5], ['B', 1, 1000]);
+    expect(ratioOutliers(rows, 3).map(o => [o.row.id, o.flag, o.median])).toEqual([
+      ['p3', 'high', 10],
+      ['p4', 'low', 10],
+      ['p5', 'no_quantity', 10],
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { ExcelRow } from '../types';
+import { idbGet, idbPut, STORES } from './db';
+import { companyName } from './companyAliases';
+import { Granularity, YmWindow, buildPeriodSeries } from './timePeriods';
+
+// --- 제품 단위 설정 ---
+export interface ProductUnit {
+  amountUnit?: string;
+  quantityUnit?: string;
+}
+
+export interface UnitConfig {
+  amountUnit: string;
+  quantityUnit: string;
+  // 제품명별 단위 (비어 있으면 기본 단위)
+  products: Record<string, ProductUnit>;
+  // 제품 중앙값 대비 몇 배 이상 벗어나면 의심 행으로 볼지
+  ratioTolerance: number;
+}
+
+export const DEFAULT_UNIT_CONFIG: UnitConfig = {
+  amountUnit: 'Ton',
+  quantityUnit: 'UNIT',
+  products: {},
+  ratioTolerance: 3,
+};
+
+export const unitsFor = (product: string, config: UnitConfig) => ({
+  amountUnit: config.products[product]?.amountUnit || config.amountUnit,
+  quantityUnit: config.products[product]?.quantityUnit || config.quantityUnit,
+});
+
+const UNIT_KEY = 'unitConfig';
+
+export const loadUnitConfig = async (): Promise<UnitConfig> => ({
+  ...DEFAULT_UNIT_CONFIG,
+  ...(await idbGet<UnitConfig>(STORES.settings, UNIT_KEY)),
+});
+
+export const saveUnitConfig = (config: UnitConfig) => idbPut(STORES.settings, UNIT_KEY, config);
+
+// --- 제품 집계 ---
+const productName = (r: ExcelRow) => r.product_name && r.product_name !== '-' ? r.product_name : '기타';
+
+export interface ProductTotal {
+  product: string;
+  amount: number;
+  quantity: number;
+  rows: number;
+  projects: number;
+}
+
+export const productTotals = (rows: ExcelRow[]): ProductTotal[] => {
+  const map = new Map<string, { amount: number; quantity: number; rows: number; projects: Set<string> }>();
+  rows.forEach(r => {
+    const key = productName(r);
+    const t = map.get(key) || { amount: 0, quantity: 0, rows: 0, projects: new Set<string>() };
+    t.amount += r.spec_amount;
+    t.quantity += r.quantity || 0;
+    t.rows += 1;
+    t.projects.add(r.project_name);
+    map.set(key, t);
+  });
+  return Array.from(map.entries())
+    .map(([product, t]) => ({ product, amount: t.amount, quantity: t.quantity, rows: t.rows, projects: t.projects.size }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+export interface ProductMixEntry {
+  name: string;
+  total: number;
+  parts: { product: string; amount: number }[];
+}
+
+// 업체별 제품 구성: 상위 업체만, 상위 제품 외에는 '기타'로 묶는다.
+export const productMix = (rows: ExcelRow[], by: 'designer' | 'constructor', topProducts: string[], topN = 8): ProductMixEntry[] => {
+  const map = new Map<string, Map<string, number>>();
+  rows.forEach(r => {
+    const company = companyName(r[by]);
+    const product = topProducts.includes(productName(r)) ? productName(r) : '기타';
+    const parts = map.get(company) || new Map<string, number>();
+    parts.set(product, (parts.get(product) || 0) + r.spec_amount);
+    map.set(company, parts);
+  });
+  return Array.from(map.entries())
+    .map(([name, parts]) => ({
+      name,
+      total: Array.from(parts.values()).reduce((s, v) => s + v, 0),
+      parts: Array.from(parts.entries()).map(([product, amount]) => ({ product, amount })).sort((a, b) => b.amount - a.amount),
+    }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, topN);
+};
+
+export const productSeries = (rows: ExcelRow[], product: string, window: YmWindow, g: Granularity) =>
+  buildPeriodSeries(rows.filter(r => productName(r) === product), window, g);
+
+// --- 단위당 스펙량 이상치 ---
+export type RatioFlag = 'high' | 'low' | 'no_quantity';
+
+export const RATIO_FLAG_LABELS: Record<RatioFlag, string> = {
+  high: '단위당 과다',
+  low: '단위당 과소',
+  no_quantity: '수량 없음',
+};
+
+export interface RatioOutlier {
+  row: ExcelRow;
+  ratio: number | null;
+  median: number | null;
+  flag: RatioFlag;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// 비교 기준이 되려면 제품별로 수량이 있는 행이 최소 이만큼 있어야 한다.
+const MIN_SAMPLES = 3;
+
+export const productRatios = (rows: ExcelRow[]) => {
+  const samples = new Map<string, number[]>();
+  rows.forEach(r => {
+    if (!(r.quantity > 0) || !(r.spec_amount > 0)) return;
+    const key = productName(r);
+    const list = samples.get(key);
+    if (list) list.push(r.spec_amount / r.quantity); else samples.set(key, [r.spec_amount / r.quantity]);
+  });
+  const medians = new Map<string, number>();
+  samples.forEach((values, key) => { if (values.length >= MIN_SAMPLES) medians.set(key, median(values)); });
+  return medians;
+};
+
+export const ratioOutliers = (rows: ExcelRow[], tolerance: number): RatioOutlier[] => {
+  const medians = productRatios(rows);
+  const result: RatioOutlier[] = [];
+  rows.forEach(r => {
+    const med = medians.get(productName(r)) ?? null;
+    if (!(r.quantity > 0)) {
+      if (r.spec_amount > 0) result.push({ row: r, ratio: null, median: med, flag: 'no_quantity' });
+      return;
+    }
+    if (med === null || !(r.spec_amount > 0)) return;
+    const ratio = r.spec_amount / r.quantity;
+    if (ratio > med * tolerance) result.push({ row: r, ratio, median: med, flag: 'high' });
+    else if (ratio < med / tolerance) result.push({ row: r, ratio, median: med, flag: 'low' });
+  });
+  return result;
+};
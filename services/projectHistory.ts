@@ -0,0 +1,90 @@
+import { ExcelRow } from '../types';
+import { toYm } from './timePeriods';
+
+// --- 현장별 이력 (연-월 타임라인) ---
+export interface HistoryEntry {
+  year: number;
+  month: number;
+  // 같은 달에 진행내용이 여러 개면 모두 (행 순서대로)
+  progress: string[];
+  designer: string;
+  constructor: string;
+  amount: number;
+  quantity: number;
+  products: { product: string; quantity: number; amount: number }[];
+  // 직전 기록 대비 변화
+  amountDelta: number | null;
+  changes: HistoryChange[];
+}
+
+export type HistoryChangeKind = 'progress' | 'designer' | 'constructor';
+
+export interface HistoryChange {
+  kind: HistoryChangeKind;
+  from: string;
+  to: string;
+}
+
+export const HISTORY_CHANGE_LABELS: Record<HistoryChangeKind, string> = {
+  progress: '진행내용',
+  designer: '설계사',
+  constructor: '시공사',
+};
+
+// 연/월이 없는 행은 가장 오래된 기록으로 본다.
+const ymOf = (r: ExcelRow) => (r.year && r.month >= 1 && r.month <= 12 ? toYm(r.year, r.month) : r.year ? toYm(r.year, 1) : -1);
+
+// 가장 최근 연-월의 행 (같은 달이면 나중 행). 현장의 "현재 상태" 기준.
+export const latestRow = <T extends ExcelRow>(rows: T[]): T | undefined => {
+  let best: T | undefined;
+  let bestYm = -Infinity;
+  rows.forEach(r => {
+    const ym = ymOf(r);
+    if (ym >= bestYm) {
+      best = r;
+      bestYm = ym;
+    }
+  });
+  return best;
+};
+
+const lastOf = (values: string[]) => values[values.length - 1];
+
+export const buildProjectHistory = (rows: ExcelRow[]): HistoryEntry[] => {
+  const byYm = new Map<number, ExcelRow[]>();
+  rows.forEach(r => {
+    const ym = ymOf(r);
+    const list = byYm.get(ym);
+    if (list) list.push(r); else byYm.set(ym, [r]);
+  });
+
+  const entries: HistoryEntry[] = [];
+  Array.from(byYm.keys()).sort((a, b) => a - b).forEach(ym => {
+    const list = byYm.get(ym)!;
+    const last = list[list.length - 1];
+    const progress = Array.from(new Set(list.map(r => r.progress).filter(p => p && p !== '-')));
+    const entry: HistoryEntry = {
+      year: last.year,
+      month: last.month,
+      progress,
+      designer: last.designer,
+      constructor: last.constructor,
+      amount: list.reduce((s, r) => s + r.spec_amount, 0),
+      quantity: list.reduce((s, r) => s + r.quantity, 0),
+      products: list.map(r => ({ product: r.product_name, quantity: r.quantity, amount: r.spec_amount })),
+      amountDelta: null,
+      changes: [],
+    };
+    const prev = entries[entries.length - 1];
+    if (prev) {
+      entry.amountDelta = entry.amount - prev.amount;
+      const prevProgress = lastOf(prev.progress);
+      const currentProgress = lastOf(progress);
+      if (prevProgress && currentProgress && prevProgress !== currentProgress) entry.changes.push({ kind: 'progress', from: prevProgress, to: currentProgress });
+      if (prev.designer !== entry.designer) entry.changes.push({ kind: 'designer', from: prev.designer, to: entry.designer });
+      if (prev.constructor !== entry.constructor) entry.changes.push({ kind: 'constructor', from: prev.constructor, to: entry.constructor });
+    }
+    entries.push(entry);
+  });
+  return entries;
+};
@@ -0,0 +1,163 @@
+import * as XLSX from 'xlsx';
+import { ExcelRow } from '../types';
+import { STORES, idbGetAll, idbPut } from './db';
+import { detectMapping } from './importMapping';
+import { latestRow } from './projectHistory';
+import { downloadBlob } from '../utils/download';
+
+// --- 현장 메모 / 진행내용 보정 ---
+// 프로젝트명 기준으로 브라우저에 저장한다. 원본 행은 바꾸지 않고 화면에 보일 때만 보정 진행내용을 덮어쓴다.
+export type NoteField = 'progress' | 'note' | 'nextAction' | 'owner';
+
+export interface NoteEdit {
+  field: NoteField;
+  from: string;
+  to: string;
+  at: number;
+}
+
+export interface ProjectNote {
+  projectName: string;
+  // 보정한 진행내용 (빈 문자열이면 원본 그대로)
+  progress: string;
+  note: string;
+  // 다음 조치일 (YYYY-MM-DD)
+  nextAction: string;
+  owner: string;
+  updatedAt: number;
+  history: NoteEdit[];
+}
+
+export type NoteDraft = Pick<ProjectNote, NoteField>;
+
+export const NOTE_FIELD_LABELS: Record<NoteField, string> = {
+  progress: '진행내용',
+  note: '메모',
+  nextAction: '다음 조치일',
+  owner: '담당자',
+};
+
+const NOTE_FIELDS = Object.keys(NOTE_FIELD_LABELS) as NoteField[];
+
+export const EMPTY_NOTE_DRAFT: NoteDraft = { progress: '', note: '', nextAction: '', owner: '' };
+
+// 이력만 남고 내용이 모두 비워진 메모는 수정된 현장으로 보지 않는다.
+export const hasNoteContent = (note: ProjectNote) => NOTE_FIELDS.some(f => note[f].trim() !== '');
+
+export const listNotes = async (): Promise<ProjectNote[]> => {
+  const all = await idbGetAll<ProjectNote>(STORES.projectNotes);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// 바뀐 필드만 이력에 쌓는다. 바뀐 것이 없으면 저장하지 않는다.
+export const putNote = async (projectName: string, draft: NoteDraft, previous?: ProjectNote): Promise<ProjectNote> => {
+  const base: NoteDraft = previous || EMPTY_NOTE_DRAFT;
+  const at = Date.now();
+  const edits = NOTE_FIELDS
+    .filter(f => draft[f].trim() !== base[f])
+    .map(f => ({ field: f, from: base[f], to: draft[f].trim(), at }));
+  if (previous && edits.length === 0) return previous;
+  const note: ProjectNote = {
+    projectName,
+    progress: draft.progress.trim(),
+    note: draft.note.trim(),
+    nextAction: draft.nextAction.trim(),
+    owner: draft.owner.trim(),
+    updatedAt: at,
+    history: [...(previous?.history || []), ...edits],
+  };
+  await idbPut(STORES.projectNotes, projectName, note);
+  return note;
+};
+
+// 보정 진행내용을 현장의 가장 최근 행에 반영한다 (현재 상태/단계 분류가 그 행을 기준으로 하므로).
+export const applyProgressEdits = (rows: ExcelRow[], notes: ProjectNote[]): ExcelRow[] => {
+  const edited = new Map(notes.filter(n => n.progress).map(n => [n.projectName, n.progress]));
+  if (edited.size === 0) return rows;
+  const byProject = new Map<string, ExcelRow[]>();
+  rows.forEach(r => {
+    if (!edited.has(r.project_name)) return;
+    const list = byProject.get(r.project_name);
+    if (list) list.push(r); else byProject.set(r.project_name, [r]);
+  });
+  const targets = new Set<string>();
+  byProject.forEach(list => {
+    const latest = latestRow(list);
+    if (latest) targets.add(latest.id);
+  });
+  return rows.map(r => (targets.has(r.id) ? { ...r, progress: edited.get(r.project_name)! } : r));
+};
+
+// --- 원본 통합 문서에 메모 병합 (write-back) ---
+// 원본 시트는 그대로 두고 오른쪽에 메모 컬럼을 덧붙인다. 이미 병합한 파일이면 같은 컬럼을 덮어쓴다.
+export const WRITE_BACK_COLUMNS: { header: string; value: (n: ProjectNote) => string }[] = [
+  { header: '보정 진행내용', value: n => n.progress },
+  { header: '메모', value: n => n.note },
+  { header: '다음 조치일', value: n => n.nextAction },
+  { header: '담당자', value: n => n.owner },
+  { header: '메모 수정일', value: n => new Date(n.updatedAt).toISOString().slice(0, 10) },
+];
+
+export interface WriteBackResult {
+  workbook: XLSX.WorkBook;
+  // 현장명 컬럼을 찾은 시트 수
+  sheets: number;
+  // 메모가 붙은 행 수
+  matchedRows: number;
+}
+
+const cellText = (ws: XLSX.WorkSheet, r: number, c: number) => {
+  const cell = ws[XLSX.utils.encode_cell({ r, c })];
+  return cell && cell.v !== undefined && cell.v !== null ? String(cell.v).trim() : '';
+};
+
+export const mergeNotesIntoWorkbook = (buffer: ArrayBuffer, notes: ProjectNote[]): WriteBackResult => {
+  const workbook = XLSX.read(buffer, { type: 'array', cellStyles: true, cellDates: true });
+  const byName = new Map(notes.filter(hasNoteContent).map(n => [n.projectName, n]));
+  let sheets = 0;
+  let matchedRows = 0;
+
+  workbook.SheetNames.forEach(sheetName => {
+    const ws = workbook.Sheets[sheetName];
+    if (!ws['!ref']) return;
+    const range = XLSX.utils.decode_range(ws['!ref']);
+    const headerRow = range.s.r;
+    const headers: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) headers.push(cellText(ws, headerRow, c));
+    const projectHeader = detectMapping(headers.filter(Boolean)).project_name;
+    if (!projectHeader) return;
+    sheets++;
+    const projectCol = range.s.c + headers.indexOf(projectHeader);
+
+    let nextCol = range.e.c + 1;
+    const columns = WRITE_BACK_COLUMNS.map(col => {
+      const existing = headers.indexOf(col.header);
+      return existing >= 0 ? range.s.c + existing : nextCol++;
+    });
+    WRITE_BACK_COLUMNS.forEach((col, i) => XLSX.utils.sheet_add_aoa(ws, [[col.header]], { origin: { r: headerRow, c: columns[i] } }));
+
+    for (let r = headerRow + 1; r <= range.e.r; r++) {
+      const note = byName.get(cellText(ws, r, projectCol));
+      if (note) matchedRows++;
+      WRITE_BACK_COLUMNS.forEach((col, i) => {
+        const value = note ? col.value(note) : '';
+        if (value) XLSX.utils.sheet_add_aoa(ws, [[value]], { origin: { r, c: columns[i] } });
+        else delete ws[XLSX.utils.encode_cell({ r, c: columns[i] })];
+      });
+    }
+  });
+
+  return { workbook, sheets, matchedRows };
+};
+
+// 원본과 같은 형식(xlsx/xls)으로 '<원본명>_메모' 파일을 내려받는다. 현장명 컬럼이 없으면 내려받지 않는다.
+export const exportWriteBack = async (file: File, notes: ProjectNote[]): Promise<Omit<WriteBackResult, 'workbook'>> => {
+  const { workbook, sheets, matchedRows } = mergeNotesIntoWorkbook(await file.arrayBuffer(), notes);
+  if (sheets > 0) {
+    const isXls = /\.xls$/i.test(file.name);
+    const out = XLSX.write(workbook, { bookType: isXls ? 'xls' : 'xlsx', type: 'array' });
+    const type = isXls ? 'application/vnd.ms-excel' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    downloadBlob(`${file.name.replace(/\.[^.]+$/, '')}_메모.${isXls ? 'xls' : 'xlsx'}`, new Blob([out], { type }));
+  }
+  return { sheets, matchedRows };
+};
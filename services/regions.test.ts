@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExcelRow } from '../types';
+import { assignRegions, hasBoundaries, loadRegionBoundaries } from './regions';
+
+// 앱과 같이 public/regions 의 파일을 읽는다. 없는 파일은 개발 서버처럼 404.
+const serveRegions = () => vi.stubGlobal('fetch', async (url: string) => {
+  try {
+    const body = await readFile(new URL(`../public/regions/${url.split('/').pop()}`, import.meta.url), 'utf8');
+    return new Response(body);
+  } catch {
+    return new Response('', { status: 404 });
+  }
+});
+
+const row = (address: string, latitude = 0, longitude = 0) => ({ address, latitude, longitude }) as ExcelRow;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('region boundaries', () => {
+  it('배포된 시/도 경계로 좌표가 있는 행의 시/도를 정한다', async () => {
+    serveRegions();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const boundaries = await loadRegionBoundaries();
+    expect(hasBoundaries(boundaries, 'sido')).toBe(true);
+    expect(hasBoundaries(boundaries, 'sigungu')).toBe(false);
+    expect(boundaries!.sido.map(f => f.name).sort()).toEqual(['강원', '경기', '경남', '경북', '광주', '대구', '대전', '부산', '서울', '세종', '울산', '인천', '전남', '전북', '제주', '충남', '충북']);
+
+    const [cityHall, wrongAddress, noCoords, offshore] = assignRegions([
+      row('서울특별시 중구 세종대로 110', 37.5663, 126.9779),
+      // 주소보다 좌표가 우선한다
+      row('부산광역시 해운대구 우동', 37.2636, 127.0286),
+      row('대전광역시 유성구 대학로 99'),
+      row('제주특별자치도 제주시 연동', 32.5, 125.5),
+    ], boundaries);
+    expect(cityHall).toMatchObject({ sido: '서울', sigungu: '서울 중구' });
+    expect(wrongAddress.sido).toBe('경기');
+    expect(noCoords).toMatchObject({ sido: '대전', sigungu: '대전 유성구' });
+    expect(offshore).toMatchObject({ sido: '미확인', sigungu: '제주 제주시' });
+  });
+});
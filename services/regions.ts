@@ -0,0 +1,246 @@
+import { ExcelRow } from '../types';
+
+// --- 행정구역 (시/도, 시/군/구) ---
+// 경계 데이터는 앱에 함께 배포되는 정적 파일(public/regions/*.geojson)만 사용하며 온라인 조회는 하지 않는다.
+// 좌표가 없는 행과 경계 파일이 없는 단계(기본 배포본은 시/군/구)는 주소 앞부분으로 판별한다.
+export type RegionLevel = 'sido' | 'sigungu';
+
+export const REGION_LEVEL_LABELS: Record<RegionLevel, string> = {
+  sido: '시/도',
+  sigungu: '시/군/구',
+};
+
+// 약칭 → 별칭 (정식 명칭, 구 명칭 포함)
+const SIDO_ALIASES: Record<string, string[]> = {
+  서울: ['서울특별시', '서울시', 'seoul'],
+  부산: ['부산광역시', '부산시', 'busan'],
+  대구: ['대구광역시', '대구시', 'daegu'],
+  인천: ['인천광역시', '인천시', 'incheon'],
+  광주: ['광주광역시', 'gwangju'],
+  대전: ['대전광역시', '대전시', 'daejeon'],
+  울산: ['울산광역시', '울산시', 'ulsan'],
+  세종: ['세종특별자치시', '세종시', 'sejong'],
+  경기: ['경기도', 'gyeonggi-do', 'gyeonggi'],
+  강원: ['강원특별자치도', '강원도', 'gangwon-do', 'gangwon'],
+  충북: ['충청북도', 'chungcheongbuk-do'],
+  충남: ['충청남도', 'chungcheongnam-do'],
+  전북: ['전북특별자치도', '전라북도', 'jeollabuk-do'],
+  전남: ['전라남도', 'jeollanam-do'],
+  경북: ['경상북도', 'gyeongsangbuk-do'],
+  경남: ['경상남도', 'gyeongsangnam-do'],
+  제주: ['제주특별자치도', '제주도', 'jeju-do', 'jeju'],
+};
+
+export const SIDO_NAMES = Object.keys(SIDO_ALIASES);
+
+const SIDO_LOOKUP = new Map<string, string>(
+  Object.entries(SIDO_ALIASES).flatMap(([short, aliases]) => [[short, short], ...aliases.map(a => [a.toLowerCase(), short] as [string, string])])
+);
+
+export const normalizeSido = (name: string): string | null => SIDO_LOOKUP.get(String(name || '').trim().toLowerCase()) || null;
+
+export interface RegionRef {
+  sido: string | null;
+  // 시/도를 붙인 표시명 (예: "서울 중구") - 같은 이름의 구가 여러 시/도에 있다.
+  sigungu: string | null;
+}
+
+const EMPTY_REGION: RegionRef = { sido: null, sigungu: null };
+
+// "경기도 수원시 영통구 ..." → { sido: 경기, sigungu: 경기 수원시 영통구 }
+export const parseRegionFromAddress = (address: string): RegionRef => {
+  const tokens = String(address || '').replace(/[(),]/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return EMPTY_REGION;
+  const sido = normalizeSido(tokens[0]);
+  if (!sido) return EMPTY_REGION;
+  // 세종시는 시/군/구가 없는 단층 구조
+  if (sido === '세종') return { sido, sigungu: '세종 세종시' };
+  const first = tokens[1];
+  if (!first || !/(시|군|구)$/.test(first)) return { sido, sigungu: null };
+  const second = tokens[2];
+  const name = first.endsWith('시') && second && /구$/.test(second) ? `${first} ${second}` : first;
+  return { sido, sigungu: `${sido} ${name}` };
+};
+
+// --- 경계 데이터 ---
+type Ring = [number, number][];
+
+export interface RegionFeature {
+  name: string;
+  sido: string | null;
+  // 집계 결과와 맞춰 보는 키 (공백 제거한 "시도 시군구")
+  key: string;
+  // 원본 GeoJSON Feature (지도 레이어용)
+  feature: any;
+  // [minLon, minLat, maxLon, maxLat]
+  bbox: [number, number, number, number];
+  polygons: Ring[][];
+}
+
+export type RegionBoundaries = Record<RegionLevel, RegionFeature[]>;
+
+// 흔히 쓰이는 행정경계 배포본의 속성 이름들
+const NAME_KEYS = ['name', 'CTP_KOR_NM', 'SIG_KOR_NM', 'sidonm', 'sggnm', 'NAME_1', 'NAME_2'];
+const SIDO_KEYS = ['sido', 'sidonm', 'CTP_KOR_NM', 'NAME_1'];
+
+const pickProp = (props: any, keys: string[]) => {
+  for (const k of keys) if (props?.[k]) return String(props[k]);
+  return '';
+};
+
+const toPolygons = (geometry: any): Ring[][] => {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+const boundsOf = (polygons: Ring[][]): [number, number, number, number] => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  polygons.forEach(poly => poly[0]?.forEach(([x, y]) => {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }));
+  return [minX, minY, maxX, maxY];
+};
+
+const toFeatures = (geojson: any, level: RegionLevel): RegionFeature[] =>
+  (geojson?.features || []).map((f: any) => {
+    const polygons = toPolygons(f.geometry);
+    const rawName = pickProp(f.properties, NAME_KEYS);
+    const sido = level === 'sido' ? normalizeSido(rawName) : normalizeSido(pickProp(f.properties, SIDO_KEYS));
+    const name = level === 'sido' ? (sido || rawName) : rawName;
+    return { name, sido, key: '', feature: f, bbox: boundsOf(polygons), polygons };
+  }).filter((f: RegionFeature) => f.name && f.polygons.length > 0);
+
+export const regionKey = (label: string) => label.replace(/\s+/g, '');
+
+// public/regions/ 아래 파일명 (README 의 "Region Boundaries" 참고)
+export const REGION_BOUNDARY_FILES: Record<RegionLevel, string> = {
+  sido: 'sido.geojson',
+  sigungu: 'sigungu.geojson',
+};
+
+// 파일이 없으면 개발 서버는 index.html 을 돌려주므로 JSON 변환 실패도 "없음"으로 본다.
+const fetchLocal = async (file: string) => {
+  try {
+    const res = await fetch(`./regions/${file}`);
+    if (res.ok) return await res.json();
+  } catch {
+    // 아래에서 경고
+  }
+  console.warn(`Region boundary file not loaded: regions/${file}`);
+  return null;
+};
+
+// 경계 파일이 하나도 없으면 null (주소 판별만 사용)
+export const loadRegionBoundaries = async (): Promise<RegionBoundaries | null> => {
+  const [sido, sigungu] = await Promise.all([fetchLocal(REGION_BOUNDARY_FILES.sido), fetchLocal(REGION_BOUNDARY_FILES.sigungu)]);
+  if (!sido && !sigungu) return null;
+  const sidoFeatures = toFeatures(sido, 'sido');
+  const sigunguFeatures = toFeatures(sigungu, 'sigungu');
+  sidoFeatures.forEach(f => { f.key = regionKey(f.name); });
+  // 시/군/구 속성에 시/도가 없으면 경계 안쪽 점으로 소속 시/도를 찾는다.
+  sigunguFeatures.forEach(f => {
+    if (!f.sido) {
+      const [lon, lat] = innerPoint(f);
+      f.sido = sidoFeatures.find(s => containsPoint(s, lon, lat))?.name || null;
+    }
+    f.key = regionKey(`${f.sido || ''}${f.name}`);
+  });
+  return { sido: sidoFeatures, sigungu: sigunguFeatures };
+};
+
+// 해당 단계의 경계가 실제로 불러와졌는지 (시/도만 있고 시/군/구는 없을 수 있다)
+export const hasBoundaries = (boundaries: RegionBoundaries | null, level: RegionLevel) => !!boundaries && boundaries[level].length > 0;
+
+// 가장 큰 외곽선의 꼭짓점 평균 (오목한 도형에서는 밖에 놓일 수 있어 bbox 중심과 함께 시험한다)
+const innerPoint = (f: RegionFeature): [number, number] => {
+  const outer = f.polygons.map(p => p[0]).sort((a, b) => b.length - a.length)[0];
+  const avg: [number, number] = [outer.reduce((s, p) => s + p[0], 0) / outer.length, outer.reduce((s, p) => s + p[1], 0) / outer.length];
+  if (containsPoint(f, avg[0], avg[1])) return avg;
+  return [(f.bbox[0] + f.bbox[2]) / 2, (f.bbox[1] + f.bbox[3]) / 2];
+};
+
+const inRing = (lon: number, lat: number, ring: Ring) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const containsPoint = (f: RegionFeature, lon: number, lat: number) => {
+  const [minX, minY, maxX, maxY] = f.bbox;
+  if (lon < minX || lon > maxX || lat < minY || lat > maxY) return false;
+  return f.polygons.some(([outer, ...holes]) => inRing(lon, lat, outer) && !holes.some(h => inRing(lon, lat, h)));
+};
+
+// 좌표가 있는 행은 경계가 있는 단계를 경계로만 판별한다 (경계 밖 좌표는 미확인).
+// 주소는 좌표가 없는 행과 경계 파일이 없는 단계(기본 배포본은 시/군/구)에만 쓴다.
+export const createRegionResolver = (boundaries: RegionBoundaries | null) => {
+  const useSido = hasBoundaries(boundaries, 'sido');
+  const useSigungu = hasBoundaries(boundaries, 'sigungu');
+  const cache = new Map<string, RegionRef>();
+  const byPoint = (lat: number, lon: number): RegionRef => {
+    const key = `${lat.toFixed(5)},${lon.toFixed(5)}`;
+    const hit = cache.get(key);
+    if (hit) return hit;
+    const sidoFeature = useSido ? boundaries!.sido.find(f => containsPoint(f, lon, lat)) : undefined;
+    const sigunguFeature = useSigungu ? boundaries!.sigungu.find(f => containsPoint(f, lon, lat)) : undefined;
+    const sido = sidoFeature?.name || sigunguFeature?.sido || null;
+    const ref = { sido, sigungu: sigunguFeature ? `${sido || ''} ${sigunguFeature.name}`.trim() : null };
+    cache.set(key, ref);
+    return ref;
+  };
+  return (row: ExcelRow): RegionRef => {
+    const fromAddress = parseRegionFromAddress(row.address);
+    if ((!useSido && !useSigungu) || !row.latitude || !row.longitude) return fromAddress;
+    const fromPoint = byPoint(row.latitude, row.longitude);
+    return { sido: fromPoint.sido, sigungu: useSigungu ? fromPoint.sigungu : fromAddress.sigungu };
+  };
+};
+
+export const assignRegions = (rows: ExcelRow[], boundaries: RegionBoundaries | null): ExcelRow[] => {
+  const resolve = createRegionResolver(boundaries);
+  return rows.map(r => {
+    const { sido, sigungu } = resolve(r);
+    return { ...r, sido: sido || '미확인', sigungu: sigungu || '미확인' };
+  });
+};
+
+// --- 지역 집계 ---
+export interface RegionTotal {
+  name: string;
+  amount: number;
+  sites: number;
+  // 현장 좌표 평균 (경계 데이터가 없을 때 지도 표시용)
+  center: { lat: number; lon: number } | null;
+}
+
+export const regionLabel = (f: RegionFeature) => (f.sido && f.sido !== f.name ? `${f.sido} ${f.name}` : f.name);
+
+export const regionTotals = (rows: ExcelRow[], level: RegionLevel): RegionTotal[] => {
+  const map = new Map<string, { amount: number; sites: Set<string>; lat: number; lon: number; points: number }>();
+  const seen = new Set<string>();
+  rows.forEach(r => {
+    const name = r[level] || '미확인';
+    const t = map.get(name) || { amount: 0, sites: new Set<string>(), lat: 0, lon: 0, points: 0 };
+    t.amount += r.spec_amount;
+    t.sites.add(r.project_name);
+    if (r.latitude && r.longitude && !seen.has(r.project_name)) {
+      seen.add(r.project_name);
+      t.lat += r.latitude;
+      t.lon += r.longitude;
+      t.points += 1;
+    }
+    map.set(name, t);
+  });
+  return Array.from(map.entries())
+    .map(([name, t]) => ({ name, amount: t.amount, sites: t.sites.size, center: t.points ? { lat: t.lat / t.points, lon: t.lon / t.points } : null }))
+    .sort((a, b) => b.amount - a.amount);
+};
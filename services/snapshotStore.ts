@@ -0,0 +1,48 @@
+import { ExcelRow, Snapshot, SnapshotMeta } from '../types';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut, idbPutAll } from './db';
+
+// --- 업로드 데이터셋 스냅샷 저장소 ---
+// 메타 정보와 행 데이터를 분리 저장해 목록 조회 시 전체 행을 읽지 않도록 한다.
+const ACTIVE_KEY = 'activeSnapshotId';
+
+export const listSnapshots = async (): Promise<SnapshotMeta[]> => {
+  const metas = await idbGetAll<SnapshotMeta>(STORES.snapshots);
+  return metas.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const saveSnapshot = async (name: string, rows: ExcelRow[]): Promise<SnapshotMeta> => {
+  const importedAt = Date.now();
+  const meta: SnapshotMeta = { id: `snap-${importedAt}`, name, importedAt, rowCount: rows.length };
+  // 행 없이 메타만 남는 스냅샷이 생기지 않도록 한 트랜잭션으로 기록
+  await idbPutAll([
+    { store: STORES.snapshotRows, key: meta.id, value: rows },
+    { store: STORES.snapshots, key: meta.id, value: meta },
+  ]);
+  return meta;
+};
+
+export const loadSnapshot = async (id: string): Promise<Snapshot | null> => {
+  const meta = await idbGet<SnapshotMeta>(STORES.snapshots, id);
+  if (!meta) return null;
+  const rows = (await idbGet<ExcelRow[]>(STORES.snapshotRows, id)) || [];
+  return { ...meta, rows };
+};
+
+// 좌표 보정 등 스냅샷 내용이 바뀌었을 때 행 데이터만 갱신 (가져온 시각은 유지)
+export const updateSnapshotRows = async (id: string, rows: ExcelRow[]): Promise<void> => {
+  await idbPut(STORES.snapshotRows, id, rows);
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await idbDelete(STORES.snapshotRows, id);
+  await idbDelete(STORES.snapshotTargets, id);
+  await idbDelete(STORES.snapshots, id);
+};
+
+export const getActiveSnapshotId = async (): Promise<string | null> =>
+  (await idbGet<string>(STORES.settings, ACTIVE_KEY)) || null;
+
+export const setActiveSnapshotId = async (id: string | null): Promise<void> => {
+  if (id) await idbPut(STORES.settings, ACTIVE_KEY, id);
+  else await idbDelete(STORES.settings, ACTIVE_KEY);
+};
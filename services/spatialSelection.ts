@@ -0,0 +1,70 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { GeoPoint } from './geocoding';
+
+// --- 지도 영역 선택 (올가미 / 반경) ---
+export type SpatialTool = 'lasso' | 'radius';
+
+export type SpatialSelection =
+  | { kind: 'lasso'; polygon: GeoPoint[] }
+  | { kind: 'radius'; center: GeoPoint; radiusKm: number };
+
+export const SPATIAL_TOOL_LABELS: Record<SpatialTool, string> = {
+  lasso: '올가미',
+  radius: '반경',
+};
+
+export const NEARBY_RADIUS_OPTIONS = [1, 3, 5, 10, 20, 50];
+
+const EARTH_RADIUS_KM = 6371;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// 두 좌표 사이의 대권 거리 (km)
+export const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// 현장 규모의 좁은 영역이라 위경도를 평면 좌표로 보고 판정한다.
+const inPolygon = (point: GeoPoint, polygon: GeoPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) && point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon) inside = !inside;
+  }
+  return inside;
+};
+
+export const containsPoint = (selection: SpatialSelection, point: GeoPoint) =>
+  selection.kind === 'radius'
+    ? distanceKm(selection.center, point) <= selection.radiusKm
+    : selection.polygon.length >= 3 && inPolygon(point, selection.polygon);
+
+// 좌표가 없는 행은 영역 선택 시 제외된다.
+export const selectionMatcher = (selection: SpatialSelection | null) => {
+  if (!selection) return () => true;
+  return (row: ExcelRow) => !!row.latitude && !!row.longitude && containsPoint(selection, { lat: row.latitude, lon: row.longitude });
+};
+
+export const describeSelection = (selection: SpatialSelection) =>
+  selection.kind === 'radius' ? `반경 ${formatKm(selection.radiusKm)}` : `올가미 영역`;
+
+export const formatKm = (km: number) => (km < 1 ? `${Math.round(km * 1000)}m` : `${km.toFixed(km < 10 ? 1 : 0)}km`);
+
+export interface NearbyProject {
+  project: GroupedProject;
+  distanceKm: number;
+}
+
+// 기준 현장에서 radiusKm 이내 현장 (가까운 순, 기준 현장 제외)
+export const nearbyProjects = (projects: GroupedProject[], origin: GroupedProject, radiusKm: number): NearbyProject[] => {
+  if (!origin.latitude || !origin.longitude) return [];
+  const center = { lat: origin.latitude, lon: origin.longitude };
+  return projects
+    .filter(p => p.name !== origin.name && p.latitude && p.longitude)
+    .map(p => ({ project: p, distanceKm: distanceKm(center, { lat: p.latitude!, lon: p.longitude! }) }))
+    .filter(n => n.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+};
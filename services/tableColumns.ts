@@ -0,0 +1,82 @@
+import { ExcelRow, GroupedProject } from '../types';
+import { idbGet, idbPut, STORES } from './db';
+import { sourceLabel } from './importMapping';
+
+// --- 목록 표 컬럼 정의 ---
+export type ColumnId =
+  | 'project_name' | 'year' | 'month' | 'progress' | 'address' | 'latitude' | 'longitude'
+  | 'designer' | 'constructor' | 'product_name' | 'quantity' | 'spec_amount' | 'source' | 'coords';
+
+export type CellValue = string | number | null;
+
+export interface ColumnDef {
+  id: ColumnId;
+  label: string;
+  numeric?: boolean;
+  row: (r: ExcelRow) => CellValue;
+  // 현장 단위 보기: 현장에 속한 행들로 값을 만든다
+  project: (p: GroupedProject, rows: ExcelRow[]) => CellValue;
+}
+
+const distinct = (values: (string | number)[]) => Array.from(new Set(values.filter(v => v !== '' && v !== '-')));
+
+const joinDistinct = (values: string[]) => {
+  const list = distinct(values) as string[];
+  return list.length > 2 ? `${list.slice(0, 2).join(', ')} 외 ${list.length - 2}` : list.join(', ') || '-';
+};
+
+// 단일 값이면 그대로, 여러 값이면 범위로 표시 (정렬은 최솟값 기준)
+const numberSpan = (values: number[]): CellValue => {
+  const list = (distinct(values.filter(v => v)) as number[]).sort((a, b) => a - b);
+  if (list.length === 0) return null;
+  return list.length === 1 ? list[0] : `${list[0]}~${list[list.length - 1]}`;
+};
+
+export const TABLE_COLUMNS: ColumnDef[] = [
+  { id: 'project_name', label: '현장명', row: r => r.project_name, project: p => p.name },
+  { id: 'year', label: '연도', numeric: true, row: r => r.year || null, project: (_, rows) => numberSpan(rows.map(r => r.year)) },
+  { id: 'month', label: '월', numeric: true, row: r => r.month || null, project: (_, rows) => numberSpan(rows.map(r => r.month)) },
+  { id: 'progress', label: '진행상황', row: r => r.progress, project: p => p.progress },
+  { id: 'address', label: '주소', row: r => r.address, project: p => p.address },
+  { id: 'latitude', label: '위도', numeric: true, row: r => r.latitude, project: p => p.latitude },
+  { id: 'longitude', label: '경도', numeric: true, row: r => r.longitude, project: p => p.longitude },
+  { id: 'designer', label: '설계사', row: r => r.designer, project: p => p.designer },
+  { id: 'constructor', label: '건설사', row: r => r.constructor, project: p => p.constructor },
+  { id: 'product_name', label: '제품명', row: r => r.product_name, project: (_, rows) => joinDistinct(rows.map(r => r.product_name)) },
+  { id: 'quantity', label: '수량', numeric: true, row: r => r.quantity, project: (_, rows) => rows.reduce((s, r) => s + (r.quantity || 0), 0) },
+  { id: 'spec_amount', label: '스펙량', numeric: true, row: r => r.spec_amount, project: p => p.totalAmount },
+  { id: 'source', label: '출처', row: r => sourceLabel(r.source_file, r.source_sheet) || null, project: (_, rows) => joinDistinct(rows.map(r => sourceLabel(r.source_file, r.source_sheet))) },
+  { id: 'coords', label: '좌표 상태', row: r => (r.latitude && r.longitude ? 'MAPPED' : 'MISSING'), project: p => (p.latitude && p.longitude ? 'MAPPED' : 'MISSING') },
+];
+
+export const DEFAULT_COLUMNS: ColumnId[] = ['project_name', 'constructor', 'designer', 'spec_amount', 'coords'];
+
+export type SortDir = 'asc' | 'desc';
+
+export interface SortState {
+  column: ColumnId;
+  dir: SortDir;
+}
+
+// 빈 값은 방향과 관계없이 항상 뒤로 보낸다.
+export const compareCells = (a: CellValue, b: CellValue, dir: SortDir) => {
+  const emptyA = a === null || a === '' || a === '-';
+  const emptyB = b === null || b === '' || b === '-';
+  if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1;
+  const leadA = typeof a === 'string' ? parseFloat(a) : a;
+  const leadB = typeof b === 'string' ? parseFloat(b) : b;
+  const result = typeof a === 'number' || typeof b === 'number'
+    ? (Number(leadA) || 0) - (Number(leadB) || 0)
+    : String(a).localeCompare(String(b), 'ko');
+  return dir === 'asc' ? result : -result;
+};
+
+const COLUMNS_KEY = 'tableColumns';
+
+export const loadTableColumns = async (): Promise<ColumnId[]> => {
+  const saved = await idbGet<ColumnId[]>(STORES.settings, COLUMNS_KEY);
+  const known = (saved || []).filter(id => TABLE_COLUMNS.some(c => c.id === id));
+  return known.length > 0 ? known : DEFAULT_COLUMNS;
+};
+
+export const saveTableColumns = (columns: ColumnId[]) => idbPut(STORES.settings, COLUMNS_KEY, columns);
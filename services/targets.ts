@@ -0,0 +1,210 @@
+import { ExcelRow } from '../types';
+import { STORES, idbGet, idbPut } from './db';
+import { ImportSource } from './importMapping';
+import { YmWindow, fromYm } from './timePeriods';
+import { getVal, parseNumChecked } from '../utils/parse';
+import { toCsv } from '../utils/download';
+
+// --- 스펙 목표 / 달성률 / 연말 전망 ---
+// 목표는 데이터셋(스냅샷)에 묶어 저장한다.
+export type TargetScope = 'total' | 'designer' | 'constructor';
+
+export interface SpecTarget {
+  scope: TargetScope;
+  // 설계사/시공사명 (전체 목표는 빈 문자열)
+  name: string;
+  year: number;
+  // 1~12, 0 = 연간 목표
+  month: number;
+  amount: number;
+}
+
+export interface TargetKey {
+  scope: TargetScope;
+  name: string;
+}
+
+export const TARGET_SCOPE_LABELS: Record<TargetScope, string> = {
+  total: '전체',
+  designer: '설계사',
+  constructor: '시공사',
+};
+
+export const TOTAL_TARGET: TargetKey = { scope: 'total', name: '' };
+
+export const targetKeyLabel = (key: TargetKey) => (key.scope === 'total' ? '전체' : `${TARGET_SCOPE_LABELS[key.scope]} · ${key.name}`);
+
+export const loadTargets = async (snapshotId: string): Promise<SpecTarget[]> =>
+  (await idbGet<SpecTarget[]>(STORES.snapshotTargets, snapshotId)) || [];
+
+export const saveTargets = (snapshotId: string, targets: SpecTarget[]) => idbPut(STORES.snapshotTargets, snapshotId, targets);
+
+const sameKey = (t: SpecTarget, key: TargetKey) => t.scope === key.scope && (key.scope === 'total' || t.name === key.name);
+
+// 목표가 있는 대상 목록 (전체가 맨 앞)
+export const targetKeys = (targets: SpecTarget[]): TargetKey[] => {
+  const seen = new Map<string, TargetKey>();
+  targets.forEach(t => seen.set(`${t.scope}|${t.scope === 'total' ? '' : t.name}`, { scope: t.scope, name: t.scope === 'total' ? '' : t.name }));
+  const order: TargetScope[] = ['total', 'designer', 'constructor'];
+  return Array.from(seen.values()).sort((a, b) => order.indexOf(a.scope) - order.indexOf(b.scope) || a.name.localeCompare(b.name));
+};
+
+export const scopeMatcher = (key: TargetKey) => (r: ExcelRow) => key.scope === 'total' || r[key.scope] === key.name;
+
+// 1~12월 목표. 월 목표가 있으면 그 값을 쓰고, 연간 목표에서 월 목표 합을 뺀 나머지는 나머지 달에 고르게 나눈다.
+export const monthlyTargets = (targets: SpecTarget[], key: TargetKey, year: number): number[] | null => {
+  const list = targets.filter(t => t.year === year && sameKey(t, key));
+  if (list.length === 0) return null;
+  const monthly: (number | null)[] = Array(12).fill(null);
+  list.filter(t => t.month >= 1 && t.month <= 12).forEach(t => { monthly[t.month - 1] = (monthly[t.month - 1] || 0) + t.amount; });
+  const annual = list.find(t => t.month === 0)?.amount;
+  const fixed = monthly.reduce((s: number, v) => s + (v || 0), 0);
+  const open = monthly.filter(v => v === null).length;
+  const rest = annual !== undefined && open > 0 ? Math.max(annual - fixed, 0) / open : 0;
+  return monthly.map(v => v ?? rest);
+};
+
+// 구간 안 월 목표의 합. 구간에 목표가 하나도 없으면 null.
+export const windowTarget = (targets: SpecTarget[], key: TargetKey, window: YmWindow): number | null => {
+  let total = 0;
+  let found = false;
+  const byYear = new Map<number, number[] | null>();
+  for (let ym = window.from; ym <= window.to; ym++) {
+    const { year, month } = fromYm(ym);
+    if (!byYear.has(year)) byYear.set(year, monthlyTargets(targets, key, year));
+    const monthly = byYear.get(year);
+    if (!monthly) continue;
+    found = true;
+    total += monthly[month - 1];
+  }
+  return found ? total : null;
+};
+
+export interface TargetMonth {
+  month: number;
+  actual: number;
+  target: number;
+  cumActual: number;
+  cumTarget: number;
+}
+
+export interface TargetTracking {
+  key: TargetKey;
+  year: number;
+  annualTarget: number;
+  months: TargetMonth[];
+  // 실적이 들어온 마지막 달 (데이터 전체 기준, 0 = 없음)
+  asOfMonth: number;
+  ytdActual: number;
+  ytdTarget: number;
+  // 연간 목표 대비 누적 실적
+  achievementPct: number | null;
+  // 경과 기간 목표 대비 누적 실적
+  ytdPct: number | null;
+  // 지금까지의 월평균이 연말까지 이어질 때의 연간 실적
+  forecast: number;
+  forecastPct: number | null;
+}
+
+const pct = (value: number, base: number) => (base > 0 ? (value / base) * 100 : null);
+
+export const buildTargetTracking = (rows: ExcelRow[], targets: SpecTarget[], key: TargetKey, year: number): TargetTracking | null => {
+  const monthly = monthlyTargets(targets, key, year);
+  if (!monthly) return null;
+  const yearRows = rows.filter(r => r.year === year && r.month >= 1 && r.month <= 12);
+  const asOfMonth = yearRows.reduce((m, r) => Math.max(m, r.month), 0);
+  const actuals = Array(12).fill(0);
+  const inScope = scopeMatcher(key);
+  yearRows.forEach(r => { if (inScope(r)) actuals[r.month - 1] += r.spec_amount; });
+
+  let cumActual = 0;
+  let cumTarget = 0;
+  const months = monthly.map((target, i) => {
+    cumActual += actuals[i];
+    cumTarget += target;
+    return { month: i + 1, actual: actuals[i], target, cumActual, cumTarget };
+  });
+  const annualTarget = cumTarget;
+  const ytdActual = asOfMonth ? months[asOfMonth - 1].cumActual : 0;
+  const ytdTarget = asOfMonth ? months[asOfMonth - 1].cumTarget : 0;
+  const forecast = asOfMonth ? (ytdActual / asOfMonth) * 12 : 0;
+
+  return {
+    key,
+    year,
+    annualTarget,
+    months,
+    asOfMonth,
+    ytdActual,
+    ytdTarget,
+    achievementPct: pct(ytdActual, annualTarget),
+    ytdPct: pct(ytdActual, ytdTarget),
+    forecast,
+    forecastPct: pct(forecast, annualTarget),
+  };
+};
+
+// --- 목표 시트 가져오기 ---
+// 열: 연도, 월(비우면 연간), 구분(전체/설계사/시공사), 업체명, 목표. 구분 대신 설계사/시공사 열에 업체명을 적어도 된다.
+const ALIASES = {
+  year: ['year', '연도', '년도', '년'],
+  month: ['month', '월'],
+  scope: ['scope', '구분', '대상구분'],
+  name: ['name', '업체명', '업체', '대상'],
+  designer: ['designer', '설계사'],
+  constructor: ['constructor', '시공사', '건설사'],
+  amount: ['target', '목표', '목표량', '목표물량', '목표스펙', 'amount'],
+};
+
+const scopeOf = (text: string): TargetScope => (/설계|designer/i.test(text) ? 'designer' : /시공|건설|constructor/i.test(text) ? 'constructor' : 'total');
+
+const textOf = (v: any) => (v === undefined || v === null ? '' : String(v).trim());
+
+export const parseTargetSources = (sources: ImportSource[]): { targets: SpecTarget[]; skipped: number } => {
+  const byKey = new Map<string, SpecTarget>();
+  let skipped = 0;
+  sources.flatMap(s => s.json).forEach(row => {
+    const year = parseNumChecked(getVal(row, ALIASES.year));
+    const month = parseNumChecked(getVal(row, ALIASES.month));
+    const amount = parseNumChecked(getVal(row, ALIASES.amount));
+    const valid = !year.empty && !year.issue && Number.isInteger(year.value) && year.value >= 1900
+      && !month.issue && Number.isInteger(month.value) && month.value >= 0 && month.value <= 12
+      && !amount.empty && !amount.issue;
+    if (!valid) {
+      skipped++;
+      return;
+    }
+    const scopeText = textOf(getVal(row, ALIASES.scope));
+    const designer = textOf(getVal(row, ALIASES.designer));
+    const constructor = textOf(getVal(row, ALIASES.constructor));
+    let scope: TargetScope = scopeText ? scopeOf(scopeText) : designer ? 'designer' : constructor ? 'constructor' : 'total';
+    const name = scope === 'total' ? '' : textOf(getVal(row, ALIASES.name)) || (scope === 'designer' ? designer : constructor);
+    if (scope !== 'total' && !name) scope = 'total';
+    const target: SpecTarget = { scope, name, year: year.value, month: month.value, amount: amount.value };
+    byKey.set(`${scope}|${name}|${target.year}|${target.month}`, target);
+  });
+  return { targets: sortTargets(Array.from(byKey.values())), skipped };
+};
+
+export const sortTargets = (targets: SpecTarget[]) =>
+  [...targets].sort((a, b) => b.year - a.year || a.scope.localeCompare(b.scope) || a.name.localeCompare(b.name) || a.month - b.month);
+
+// 가져오기와 같은 열 구성 (빈 목록이면 예시 한 줄)
+export const targetsToCsv = (targets: SpecTarget[]) =>
+  toCsv([
+    ['연도', '월', '구분', '업체명', '목표'],
+    ...(targets.length > 0
+      ? targets.map(t => [t.year, t.month || '', TARGET_SCOPE_LABELS[t.scope], t.name, t.amount])
+      : [[new Date().getFullYear(), '', '전체', '', 12000]]),
+  ]);
+
+// 월별 추이 차트에 겹쳐 그릴 누적 실적 / 누적 목표 / 연말 예상 선 (1~12월)
+export const cumulativeSeries = (tracking: TargetTracking) => {
+  const { asOfMonth, ytdActual, months } = tracking;
+  const monthlyRate = asOfMonth ? ytdActual / asOfMonth : 0;
+  return {
+    actual: months.map(m => (m.month <= asOfMonth ? m.cumActual : null)),
+    target: months.map(m => m.cumTarget),
+    forecast: months.map(m => (asOfMonth && m.month >= asOfMonth ? ytdActual + monthlyRate * (m.month - asOfMonth) : null)),
+  };
+};
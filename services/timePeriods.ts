@@ -0,0 +1,149 @@
+import { ExcelRow } from '../types';
+
+// --- 기간 선택 / 분기·반기 묶음 / 전년 동기 비교 ---
+export type PeriodMode = 'month' | 'quarter' | 'half' | 'range';
+export type Granularity = 'month' | 'quarter' | 'half';
+
+export const PERIOD_MODE_LABELS: Record<PeriodMode, string> = {
+  month: '월',
+  quarter: '분기',
+  half: '반기',
+  range: '기간',
+};
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  month: '월별',
+  quarter: '분기별',
+  half: '반기별',
+};
+
+// 연-월을 하나의 정수로 다뤄 범위 비교를 단순화한다.
+export const toYm = (year: number, month: number) => year * 12 + (month - 1);
+export const fromYm = (ym: number) => ({ year: Math.floor(ym / 12), month: (ym % 12) + 1 });
+export const formatYm = (ym: number) => { const { year, month } = fromYm(ym); return `${year}-${String(month).padStart(2, '0')}`; };
+export const parseYm = (text: string | null): number | null => {
+  const m = text?.match(/^(\d{4})-(\d{1,2})$/);
+  return m ? toYm(Number(m[1]), Number(m[2])) : null;
+};
+
+export interface PeriodSelection {
+  mode: PeriodMode;
+  year: number;
+  month: number;
+  // 분기(1~4) 또는 반기(1~2), 0 = 전체
+  sub: number;
+  from: number | null;
+  to: number | null;
+}
+
+const quarterOf = (month: number) => Math.ceil(month / 3);
+const halfOf = (month: number) => (month <= 6 ? 1 : 2);
+
+export const periodMatcher = (sel: PeriodSelection) => (d: ExcelRow) => {
+  const yearMatch = sel.year === 0 || d.year === sel.year;
+  if (sel.mode === 'quarter') return yearMatch && (sel.sub === 0 || quarterOf(d.month) === sel.sub);
+  if (sel.mode === 'half') return yearMatch && (sel.sub === 0 || halfOf(d.month) === sel.sub);
+  if (sel.mode === 'range') {
+    const ym = toYm(d.year, d.month);
+    return (sel.from === null || ym >= sel.from) && (sel.to === null || ym <= sel.to);
+  }
+  return yearMatch && (sel.month === 0 || d.month === sel.month);
+};
+
+// 연도가 특정되지 않은 선택(연도 전체, 열린 범위)은 전년 동기를 정의할 수 없다.
+export const previousYearSelection = (sel: PeriodSelection): PeriodSelection | null => {
+  if (sel.mode === 'range') return sel.from !== null && sel.to !== null ? { ...sel, from: sel.from - 12, to: sel.to - 12 } : null;
+  return sel.year ? { ...sel, year: sel.year - 1 } : null;
+};
+
+export const describePeriod = (sel: PeriodSelection) => {
+  if (sel.mode === 'range') return `${sel.from !== null ? formatYm(sel.from) : '처음'} ~ ${sel.to !== null ? formatYm(sel.to) : '끝'}`;
+  const y = sel.year ? `${sel.year}년` : '전체 연도';
+  if (sel.mode === 'quarter') return `${y} ${sel.sub ? `${sel.sub}분기` : '전 분기'}`;
+  if (sel.mode === 'half') return `${y} ${sel.sub ? (sel.sub === 1 ? '상반기' : '하반기') : '전 반기'}`;
+  return `${y} ${sel.month ? `${sel.month}월` : ''}`.trim();
+};
+
+export interface YmWindow {
+  from: number;
+  to: number;
+}
+
+// 기간 추이 차트의 표시 구간: 범위 모드는 그 범위, 그 외에는 선택 연도(없으면 최신 연도) 1~12월
+export const trendWindow = (sel: PeriodSelection, rows: ExcelRow[]): YmWindow | null => {
+  if (sel.mode === 'range') {
+    // 행이 많으면 Math.min(...) 전개가 호출 스택을 넘으므로 한 번 훑어 구한다.
+    let min = Infinity, max = -Infinity;
+    for (const r of rows) {
+      if (!r.year || r.month < 1 || r.month > 12) continue;
+      const ym = toYm(r.year, r.month);
+      if (ym < min) min = ym;
+      if (ym > max) max = ym;
+    }
+    if (min === Infinity && (sel.from === null || sel.to === null)) return null;
+    const from = sel.from ?? min;
+    const to = sel.to ?? max;
+    return from <= to ? { from, to } : null;
+  }
+  const years = Array.from(new Set(rows.map(r => r.year))).filter(Boolean).sort((a, b) => a - b);
+  const yr = sel.year || years[years.length - 1];
+  return yr ? { from: toYm(yr, 1), to: toYm(yr, 12) } : null;
+};
+
+// 선택 기간이 덮는 연-월 구간. 연도 전체(연도 미지정)나 열린 범위는 null.
+export const selectionWindow = (sel: PeriodSelection): YmWindow | null => {
+  if (sel.mode === 'range') return sel.from !== null && sel.to !== null ? { from: sel.from, to: sel.to } : null;
+  if (!sel.year) return null;
+  if (sel.mode === 'quarter' && sel.sub) return { from: toYm(sel.year, sel.sub * 3 - 2), to: toYm(sel.year, sel.sub * 3) };
+  if (sel.mode === 'half' && sel.sub) return { from: toYm(sel.year, sel.sub * 6 - 5), to: toYm(sel.year, sel.sub * 6) };
+  if (sel.mode === 'month' && sel.month) return { from: toYm(sel.year, sel.month), to: toYm(sel.year, sel.month) };
+  return { from: toYm(sel.year, 1), to: toYm(sel.year, 12) };
+};
+
+const bucketOf = (ym: number, g: Granularity) => {
+  const { year, month } = fromYm(ym);
+  if (g === 'quarter') return { key: `${year}-Q${quarterOf(month)}`, label: `${String(year).slice(2)}.Q${quarterOf(month)}` };
+  if (g === 'half') return { key: `${year}-H${halfOf(month)}`, label: `${String(year).slice(2)}.${halfOf(month) === 1 ? '상' : '하'}` };
+  return { key: `${year}-${month}`, label: `${month}월` };
+};
+
+export const buildPeriodSeries = (rows: ExcelRow[], window: YmWindow, g: Granularity) => {
+  const multiYear = fromYm(window.from).year !== fromYm(window.to).year;
+  const buckets = new Map<string, { label: string; value: number }>();
+  for (let ym = window.from; ym <= window.to; ym++) {
+    const b = bucketOf(ym, g);
+    const label = g === 'month' && multiYear ? `${String(fromYm(ym).year).slice(2)}.${fromYm(ym).month}` : b.label;
+    if (!buckets.has(b.key)) buckets.set(b.key, { label, value: 0 });
+  }
+  rows.forEach(r => {
+    if (!r.year || r.month < 1 || r.month > 12) return;
+    const ym = toYm(r.year, r.month);
+    if (ym < window.from || ym > window.to) return;
+    buckets.get(bucketOf(ym, g).key)!.value += r.spec_amount;
+  });
+  return Array.from(buckets.values());
+};
+
+export const shiftWindow = (window: YmWindow, months: number): YmWindow => ({ from: window.from + months, to: window.to + months });
+
+export interface Delta {
+  abs: number;
+  pct: number | null;
+}
+
+export const delta = (current: number, previous: number): Delta => ({
+  abs: current - previous,
+  pct: previous ? ((current - previous) / previous) * 100 : null,
+});
+
+export const formatDelta = (d: Delta, suffix = '') =>
+  `${d.abs > 0 ? '+' : ''}${Math.round(d.abs).toLocaleString()}${suffix}${d.pct !== null ? ` (${d.pct > 0 ? '+' : ''}${d.pct.toFixed(1)}%)` : ''}`;
+
+// 내보내기 파일명에 붙이는 기간 표기
+export const periodFileTag = (sel: PeriodSelection) => {
+  if (sel.mode === 'range') return `${sel.from !== null ? formatYm(sel.from).replace('-', '') : 'start'}-${sel.to !== null ? formatYm(sel.to).replace('-', '') : 'end'}`;
+  const y = sel.year || 'all';
+  if (sel.mode === 'quarter') return `${y}${sel.sub ? `_Q${sel.sub}` : ''}`;
+  if (sel.mode === 'half') return `${y}${sel.sub ? `_H${sel.sub}` : ''}`;
+  return `${y}${sel.month ? `_${String(sel.month).padStart(2, '0')}` : ''}`;
+};
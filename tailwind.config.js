@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './components/**/*.{ts,tsx}', './services/**/*.ts', './utils/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
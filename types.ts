@@ -0,0 +1,49 @@
+// --- Types ---
+export interface ExcelRow {
+  id: string;
+  project_name: string;
+  year: number;
+  month: number;
+  progress: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  designer: string;
+  constructor: string;
+  product_name: string;
+  quantity: number;
+  spec_amount: number;
+  isGeocoded?: boolean;
+  // 출처 (파일명 / 시트명)
+  source_file?: string;
+  source_sheet?: string;
+  // 행정구역 (불러온 뒤 좌표/주소로 판별)
+  sido?: string;
+  sigungu?: string;
+}
+
+export interface GroupedProject {
+  name: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  designer: string;
+  constructor: string;
+  progress: string;
+  // 진행내용/설계사/시공사를 가져온 가장 최근 행의 연-월
+  asOf?: { year: number; month: number };
+  specs: { product: string; quantity: number; amount: number; source?: string }[];
+  totalAmount: number;
+}
+
+// 저장된 데이터셋 스냅샷 (목록 표시용 메타 정보)
+export interface SnapshotMeta {
+  id: string;
+  name: string;
+  importedAt: number;
+  rowCount: number;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  rows: ExcelRow[];
+}
@@ -0,0 +1,19 @@
+// --- 브라우저 파일 다운로드 ---
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (filename: string, content: string, mime = 'text/plain') =>
+  downloadBlob(filename, new Blob([content], { type: `${mime};charset=utf-8` }));
+
+// Excel 에서 한글이 깨지지 않도록 BOM 을 붙인다.
+export const toCsv = (rows: (string | number | null | undefined)[][]) =>
+  '\uFEFF' + rows.map(r => r.map(v => {
+    const s = v === null || v === undefined ? '' : String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  }).join(',')).join('\n');
@@ -0,0 +1,14 @@
+// --- 표시용 포맷 함수 ---
+export const formatDateTime = (ts: number | Date) => {
+  const d = ts instanceof Date ? ts : new Date(ts);
+  return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')}.${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+// 남은 시간 표시 (예: 3분 20초)
+export const formatDuration = (ms: number) => {
+  const sec = Math.max(0, Math.round(ms / 1000));
+  if (sec < 60) return `${sec}초`;
+  const min = Math.floor(sec / 60);
+  if (min < 60) return `${min}분 ${sec % 60}초`;
+  return `${Math.floor(min / 60)}시간 ${min % 60}분`;
+};
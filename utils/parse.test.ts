@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumChecked } from './parse';
+
+describe('parseNumChecked', () => {
+  it('빈 값은 0 으로 두고 empty 로 표시한다', () => {
+    expect(parseNumChecked(undefined)).toEqual({ value: 0, empty: true });
+    expect(parseNumChecked('  ')).toEqual({ value: 0, empty: true });
+  });
+
+  it('천 단위 콤마와 뒤에 붙은 단위를 허용한다', () => {
+    expect(parseNumChecked('1,200 Ton')).toEqual({ value: 1200 });
+    expect(parseNumChecked('15EA')).toEqual({ value: 15 });
+    expect(parseNumChecked('.5')).toEqual({ value: 0.5 });
+    expect(parseNumChecked(42)).toEqual({ value: 42 });
+  });
+
+  it('읽을 수 없는 값은 0 으로 바꾸지 않고 issue 로 돌려준다', () => {
+    expect(parseNumChecked('1,2')).toEqual({ value: 0, issue: 'unparseable' });
+    expect(parseNumChecked('미정')).toEqual({ value: 0, issue: 'unparseable' });
+    expect(parseNumChecked(NaN)).toEqual({ value: 0, issue: 'unparseable' });
+  });
+
+  it('음수는 값을 유지하고 negative 로 표시한다', () => {
+    expect(parseNumChecked('-3')).toEqual({ value: -3, issue: 'negative' });
+    expect(parseNumChecked(-1.5)).toEqual({ value: -1.5, issue: 'negative' });
+  });
+});
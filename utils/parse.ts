@@ -0,0 +1,40 @@
+// --- 유틸리티 함수 ---
+export const normalizeKey = (key: string) => key.toString().toLowerCase().replace(/[^a-z0-9가-힣]/g, '');
+
+export const getVal = (row: any, aliases: string[]) => {
+  const rowKeys = Object.keys(row);
+  const normalizedAliases = aliases.map(normalizeKey);
+  
+  const foundKey = rowKeys.find(k => {
+    const nk = normalizeKey(k);
+    return normalizedAliases.includes(nk);
+  });
+  
+  return foundKey ? row[foundKey] : undefined;
+};
+
+export type NumIssue = 'unparseable' | 'negative';
+
+export interface NumParse {
+  value: number;
+  empty?: boolean;
+  issue?: NumIssue;
+}
+
+// 천 단위 콤마와 뒤에 붙은 단위(예: "1,200 Ton", "15EA")는 허용하고,
+// "1,2" 같은 오타나 숫자가 아닌 텍스트는 0 으로 조용히 바꾸지 않고 issue 로 돌려준다.
+const NUMERIC_TEXT = /^(-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|-?\.\d+)\s*[a-zA-Z가-힣]*$/;
+
+export const parseNumChecked = (val: any): NumParse => {
+  if (val === undefined || val === null || String(val).trim() === '') return { value: 0, empty: true };
+  if (typeof val === 'number') {
+    if (isNaN(val)) return { value: 0, issue: 'unparseable' };
+    return val < 0 ? { value: val, issue: 'negative' } : { value: val };
+  }
+  const match = String(val).trim().match(NUMERIC_TEXT);
+  if (!match) return { value: 0, issue: 'unparseable' };
+  const parsed = parseFloat(match[1].replace(/,/g, ''));
+  return parsed < 0 ? { value: parsed, issue: 'negative' } : { value: parsed };
+};
+
+export const parseNum = (val: any): number => parseNumChecked(val).value;